@@ -0,0 +1,6 @@
+import type { HardhatUserConfig } from 'hardhat/config';
+
+/** Only used by `npm run devnet`, which runs `hardhat node` on the default chain 31337 */
+const config: HardhatUserConfig = {};
+
+export default config;
@@ -0,0 +1,59 @@
+/**
+ * Saved contract ABIs
+ * ABIs entered when proposing are kept per chain and address so later transactions can be decoded
+ */
+
+import { Abi, parseAbi } from 'viem';
+
+const ABIS_KEY = 'savedAbis';
+
+/**
+ * Parse an ABI given as JSON, either a full JSON ABI or an array of human-readable signatures
+ */
+export function parseAbiText(abiText: string): Abi {
+    const abiArray = JSON.parse(abiText);
+    if (!Array.isArray(abiArray)) {
+        throw new Error('ABI must be a JSON array');
+    }
+    return abiArray.length > 0 && typeof abiArray[0] === 'string' ? parseAbi(abiArray) : abiArray;
+}
+
+/**
+ * localStorage-backed ABIs keyed by chain ID and contract address
+ */
+export class AbiStore {
+    private abis: Record<string, Abi>;
+
+    constructor() {
+        this.abis = this.read();
+    }
+
+    private read(): Record<string, Abi> {
+        const saved = localStorage.getItem(ABIS_KEY);
+        if (!saved) {
+            return {};
+        }
+        try {
+            return JSON.parse(saved);
+        } catch (error) {
+            console.error('Failed to parse saved ABIs:', error);
+            return {};
+        }
+    }
+
+    private key(chainId: number, address: string): string {
+        return `${chainId}:${address.toLowerCase()}`;
+    }
+
+    get(chainId: number, address: string): Abi | null {
+        return this.abis[this.key(chainId, address)] || null;
+    }
+
+    /**
+     * Save the ABI for a contract, replacing any previous one
+     */
+    save(chainId: number, address: string, abi: Abi): void {
+        this.abis[this.key(chainId, address)] = abi;
+        localStorage.setItem(ABIS_KEY, JSON.stringify(this.abis));
+    }
+}
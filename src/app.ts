@@ -3,83 +3,57 @@
  * Frontend application for managing Safe multi-signature transactions with Safe SDK
  */
 
-// TypeScript type definitions
-interface SafeConfig {
-    safeAddress: string;
-    rpcUrl: string;
-    chainId: number;
-    txServiceUrl: string;
-    privateKey: string;
-}
-
-interface SafeInfo {
-    address: string;
-    nonce: number;
-    threshold: number;
-    owners: string[];
-    modules: string[];
-    fallbackHandler: string;
-    guard: string;
-    version: string;
-}
-
-interface PendingTransaction {
-    safe: string;
-    to: string;
-    value: string;
-    data: string;
-    operation: number;
-    gasToken: string;
-    safeTxGas: number;
-    baseGas: number;
-    gasPrice: string;
-    refundReceiver: string;
-    nonce: number;
-    executionDate: string | null;
-    submissionDate: string;
-    modified: string;
-    blockNumber: number | null;
-    transactionHash: string | null;
-    safeTxHash: string;
-    proposer: string;
-    executor: string | null;
-    isExecuted: boolean;
-    isSuccessful: boolean | null;
-    ethGasPrice: string | null;
-    maxFeePerGas: string | null;
-    maxPriorityFeePerGas: string | null;
-    gasUsed: number | null;
-    fee: string | null;
-    origin: string;
-    dataDecoded: any | null;
-    confirmationsRequired: number;
-    confirmations: Array<{
-        owner: string;
-        submissionDate: string;
-        transactionHash: string | null;
-        signature: string;
-        signatureType: string;
-    }>;
-    trusted: boolean;
-    signatures: string | null;
-}
-
 // Safe SDK imports
-import { createSafeClient, SafeClient } from '@safe-global/sdk-starter-kit';
-import Safe, { 
-    SafeAccountConfig, 
-    SafeDeploymentConfig, 
-    PredictedSafeProps 
-} from '@safe-global/protocol-kit';
-// Viem imports for address generation and function encoding
-import { privateKeyToAddress } from 'viem/accounts';
-import { encodeFunctionData, parseAbi, isAddress } from 'viem';
-import { waitForTransactionReceipt } from 'viem/actions';
-
-// Declare global ethers from CDN
+import { Eip1193Provider } from '@safe-global/protocol-kit';
+// Viem imports for function encoding and chain reads
+import { encodeFunctionData, parseAbi, isAddress, formatEther, formatUnits, parseEther } from 'viem';
+import { SignerConfig, SignerType, validateSignerConfig } from './signers';
+import { SafeConfig, StoredSafeConfig, SafeInfo, PendingTransaction, IncomingTransfer, ModuleTransaction } from './types';
+import { EncryptedPayload, encryptSecret, decryptSecret } from './vault';
+import { ProfileStore } from './profiles';
+import { MultiSendCall, BatchMode } from './multiSend';
+import { AbiStore, parseAbiText } from './abiStore';
+import { DecodedCall, decodeTransactionData, formatDecodedValue } from './decoder';
+import { OwnerAction, OwnerChange, validateOwnerChange, buildOwnerChangeCall, describeOwnerChange } from './owners';
+import { HistoryKind, fetchHistoryPage } from './history';
+import { SimulationResult, simulateSafeTransaction } from './simulation';
+import { BalanceChange, DryRunReport, runQueueDryRun } from './dryRun';
+import {
+    SafeMessageContent,
+    SafeMessageRecord,
+    parseMessageInput,
+    hashMessageContent,
+    buildSafeMessageTypedData,
+    calculateSafeMessageHash,
+    combineMessageSignatures,
+    fetchSafeMessages,
+    proposeSafeMessage,
+    confirmSafeMessage,
+    verifySafeMessageSignature
+} from './messages';
+import { TransactionStoreKind, LocalTransactionStore, TransactionBundle, isDeletable } from './transactionStore';
+import { SafeCore } from './core';
+import { TransferKind, TransferRequest, fetchTokenMetadata, fetchTransferBalance, prepareTransfer } from './transfers';
+import { TokenListStore, parseTokenList, formatTokenList } from './tokenList';
+import { AssetBalance, fetchSafeAssets } from './assets';
+import { QueueChanges, REFRESH_INTERVAL_SECONDS, hasQueueChanges, nextRefreshDelay } from './liveUpdates';
+import { NonceGroup, groupByNonce, getExecutionBlocker, getConfirmationBlocker, isRejection } from './queue';
+import { ImportedBatch, parseBatchFile, buildBatchFile, transactionToBatchCalls } from './txBuilder';
+import { SettingAction, SettingChange, SETTING_WARNINGS, isUnset, validateSettingChange, buildSettingChangeCall, describeSettingChange } from './safeSettings';
+import {
+    CHAINS,
+    DEFAULT_CHAIN_ID,
+    getChain,
+    getNativeCurrency,
+    getExplorerAddressUrl,
+    getExplorerTxUrl,
+    normalizeTxServiceUrl,
+    SANDBOX_TX_SERVICE_URL
+} from './chains';
+
 declare global {
     interface Window {
-        ethers: any;
+        ethereum?: Eip1193Provider;
         showError: (message: string, type?: string) => void;
         hideError: () => void;
         hideSuccess: () => void;
@@ -89,47 +63,88 @@ declare global {
 }
 
 /**
- * SafeManager class to manage Safe operations using Safe SDK
+ * SafeManager: the browser view of a SafeCore. Safe state and actions live in the core; this class
+ * renders them and turns DOM input into core calls
  */
 class SafeManager {
-    private config: SafeConfig | null = null;
-    private safeClient: SafeClient | null = null;
-    private safeInfo: SafeInfo | null = null;
-    private refreshInterval: NodeJS.Timeout | null = null;
+    private readonly core: SafeCore = new SafeCore({ injectedProvider: window.ethereum });
+    private refreshTimer: NodeJS.Timeout | null = null;
     private countdownInterval: NodeJS.Timeout | null = null;
-    private countdownSeconds: number = 10;
-    private pendingTransactions: PendingTransaction[] = [];
+    private countdownSeconds: number = REFRESH_INTERVAL_SECONDS;
+    private autoRefreshActive: boolean = false;
+    /** Refreshes in a row that found nothing new; drives the hidden-page back-off */
+    private idleRefreshes: number = 0;
+    /** Safe nonce and signer the rendered queue was built for; cards can only be patched while they match */
+    private renderedQueueKey: string | null = null;
+    private historyTransactions: PendingTransaction[] = [];
+    private historyNext: string | null = null;
+    /** Bumped on every history load and reset; responses from older requests are dropped */
+    private historyRequest: number = 0;
+    private simulationResults: Map<string, SimulationResult> = new Map();
+    private safeMessages: SafeMessageRecord[] = [];
+    private safeAssets: AssetBalance[] = [];
+    private importedBatch: ImportedBatch | null = null;
+    private profiles: ProfileStore = new ProfileStore();
+    private abiStore: AbiStore = new AbiStore();
+    private tokenLists: TokenListStore = new TokenListStore();
+    private storedConfig: StoredSafeConfig | null = null;
+    private encryptedSigner: EncryptedPayload | null = null;
+    private idleTimer: NodeJS.Timeout | null = null;
+    private unlockMode: 'unlock' | 'migrate' = 'unlock';
 
     constructor() {
+        this.bindCoreEvents();
+        this.renderChainOptions();
+        this.renderProfileOptions();
         this.loadConfiguration();
         this.bindEventListeners();
     }
 
+    private get config(): SafeConfig | null {
+        return this.core.config;
+    }
+
+    private get safeInfo(): SafeInfo | null {
+        return this.core.safeInfo;
+    }
+
+    private get signerAddress(): string {
+        return this.core.signerAddress;
+    }
+
+    private get pendingTransactions(): PendingTransaction[] {
+        return this.core.pendingTransactions;
+    }
+
     /**
-     * Initialize Safe SDK client
+     * Keep the view in sync with the core
      */
-    async initializeSafeClient(): Promise<any> {
-        try {
-            if (!this.config) {
-                throw new Error('Configuration not loaded');
+    bindCoreEvents(): void {
+        this.core.on('safeInfoChanged', (safeInfo) => {
+            if (safeInfo) {
+                this.updateSafeStatus(safeInfo);
             }
+        });
+
+        this.core.on('queueChanged', ({ transactions, changes, nonceChanged }) => {
+            this.idleRefreshes = nonceChanged || hasQueueChanges(changes) ? 0 : this.idleRefreshes + 1;
 
-            // If no Safe address is provided, we'll use fallback API calls
-            if (!this.config.safeAddress || this.config.safeAddress.trim() === '') {
-                return null;
+            // Drop simulation results of transactions that left the queue
+            for (const safeTxHash of changes.removed) {
+                this.simulationResults.delete(safeTxHash);
             }
-            
-            const safeClient = await createSafeClient({
-                provider: this.config.rpcUrl,
-                signer: this.config.privateKey,
-                safeAddress: this.config.safeAddress,
-                txServiceUrl: this.config.txServiceUrl
-            });
 
-            return safeClient;
-        } catch (error) {
-            return null;
-        }
+            this.patchPendingTransactions(transactions, changes);
+        });
+
+        this.core.on('safeEvents', () => {
+            this.idleRefreshes = 0;
+        });
+
+        this.core.on('error', ({ context, error }) => {
+            console.error(`${context} failed:`, error);
+            this.showError(`${context} failed: ${error.message}`);
+        });
     }
 
     /**
@@ -139,8 +154,9 @@ class SafeManager {
         try {
             // Only try to connect if we have a valid configuration
             if (this.config) {
-                this.safeClient = await this.initializeSafeClient();
                 await this.connectToSafe();
+            } else if (this.storedConfig) {
+                this.updateConnectionStatus('Locked');
             } else {
                 this.updateConnectionStatus('Not configured');
             }
@@ -160,8 +176,43 @@ class SafeManager {
         const createSafeBtn = document.getElementById('createSafe');
         const refreshBtn = document.getElementById('refreshBtn');
         const proposeBtn = document.getElementById('proposeBtn');
+        const sendBtn = document.getElementById('sendBtn');
+        const sendForm = document.getElementById('sendForm');
         const proposeForm = document.getElementById('proposeForm');
+        const addCallBtn = document.getElementById('addCallBtn');
+        const manageOwnersBtn = document.getElementById('manageOwners');
+        const ownersForm = document.getElementById('ownersForm');
+        const ownerActionSelect = document.getElementById('ownerAction');
+        const manageSettingsBtn = document.getElementById('manageSettings');
+        const historyKindSelect = document.getElementById('historyKind');
+        const dryRunBtn = document.getElementById('dryRunBtn');
+        const importBatchBtn = document.getElementById('importBatchBtn');
+        const exportBundleBtn = document.getElementById('exportBundleBtn');
+        const importBundleBtn = document.getElementById('importBundleBtn');
+        const importBundleFile = document.getElementById('importBundleFile') as HTMLInputElement;
+        const importBatchFile = document.getElementById('importBatchFile');
+        const importBatchForm = document.getElementById('importBatchForm');
+        const newMessageBtn = document.getElementById('newMessageBtn');
+        const refreshMessagesBtn = document.getElementById('refreshMessages');
+        const messageForm = document.getElementById('messageForm');
+        const refreshAssetsBtn = document.getElementById('refreshAssets');
+        const editTokenListBtn = document.getElementById('editTokenListBtn');
+        const tokenListForm = document.getElementById('tokenListForm');
+        const dryRunForm = document.getElementById('dryRunForm');
+        const refreshHistoryBtn = document.getElementById('refreshHistory');
+        const historyLoadMoreBtn = document.getElementById('historyLoadMore');
+        const settingsForm = document.getElementById('settingsForm');
+        const settingActionSelect = document.getElementById('settingAction');
         const createSafeForm = document.getElementById('createSafeForm');
+        const signerTypeSelect = document.getElementById('signerType');
+        const chainSelect = document.getElementById('chainSelect');
+        const transactionStoreSelect = document.getElementById('transactionStore');
+        const profileSelect = document.getElementById('profileSelect');
+        const newProfileBtn = document.getElementById('newProfile');
+        const deleteProfileBtn = document.getElementById('deleteProfile');
+        const unlockForm = document.getElementById('unlockForm');
+        const unlockForgetBtn = document.getElementById('unlockForget');
+        const lockBtn = document.getElementById('lockSigner');
 
         if (saveBtn) {
             saveBtn.addEventListener('click', () => this.saveConfiguration());
@@ -187,47 +238,275 @@ class SafeManager {
             proposeBtn.addEventListener('click', () => this.openProposeModal());
         }
 
+        if (sendBtn) {
+            sendBtn.addEventListener('click', () => this.openSendModal());
+        }
+
+        if (sendForm) {
+            sendForm.addEventListener('submit', (e) => this.handleSendSubmit(e));
+        }
+
+        document.getElementById('sendKind')?.addEventListener('change', () => this.updateSendFields());
+        ['sendToken', 'sendTokenId'].forEach(id => {
+            document.getElementById(id)?.addEventListener('change', () => this.updateSendTokenInfo());
+        });
+
         if (proposeForm) {
             proposeForm.addEventListener('submit', (e) => this.handleProposeSubmit(e));
         }
 
+        if (addCallBtn) {
+            addCallBtn.addEventListener('click', () => this.addProposeCall());
+        }
+
+        if (manageOwnersBtn) {
+            manageOwnersBtn.addEventListener('click', () => this.openOwnersModal());
+        }
+
+        if (ownersForm) {
+            ownersForm.addEventListener('submit', (e) => this.handleOwnersSubmit(e));
+        }
+
+        if (ownerActionSelect) {
+            ownerActionSelect.addEventListener('change', () => this.updateOwnerFields());
+        }
+
+        document.addEventListener('visibilitychange', () => this.handleVisibilityChange());
+
+        document.querySelectorAll<HTMLElement>('[data-view]').forEach(tab => {
+            tab.addEventListener('click', () => this.showView(tab.dataset.view as 'pending' | 'history' | 'messages' | 'assets'));
+        });
+
+        if (exportBundleBtn) {
+            exportBundleBtn.addEventListener('click', () => this.exportTransactionBundle());
+        }
+
+        if (importBundleBtn && importBundleFile) {
+            importBundleBtn.addEventListener('click', () => importBundleFile.click());
+            importBundleFile.addEventListener('change', () => this.importTransactionBundle());
+        }
+
+        if (importBatchBtn) {
+            importBatchBtn.addEventListener('click', () => this.openImportBatchModal());
+        }
+
+        if (importBatchFile) {
+            importBatchFile.addEventListener('change', () => this.loadBatchFile());
+        }
+
+        if (importBatchForm) {
+            importBatchForm.addEventListener('submit', (e) => this.handleImportBatchSubmit(e));
+        }
+
+        if (newMessageBtn) {
+            newMessageBtn.addEventListener('click', () => this.openMessageModal());
+        }
+
+        if (refreshMessagesBtn) {
+            refreshMessagesBtn.addEventListener('click', () => this.refreshMessages());
+        }
+
+        if (messageForm) {
+            messageForm.addEventListener('submit', (e) => this.handleMessageSubmit(e));
+        }
+
+        if (refreshAssetsBtn) {
+            refreshAssetsBtn.addEventListener('click', () => this.refreshAssets());
+        }
+
+        if (editTokenListBtn) {
+            editTokenListBtn.addEventListener('click', () => this.openTokenListModal());
+        }
+
+        if (tokenListForm) {
+            tokenListForm.addEventListener('submit', (e) => this.handleTokenListSubmit(e));
+        }
+
+        if (dryRunBtn) {
+            dryRunBtn.addEventListener('click', () => this.openDryRunModal());
+        }
+
+        if (dryRunForm) {
+            dryRunForm.addEventListener('submit', (e) => this.handleDryRunSubmit(e));
+        }
+
+        if (historyKindSelect) {
+            historyKindSelect.addEventListener('change', () => this.loadHistory());
+        }
+
+        if (refreshHistoryBtn) {
+            refreshHistoryBtn.addEventListener('click', () => this.loadHistory());
+        }
+
+        if (historyLoadMoreBtn) {
+            historyLoadMoreBtn.addEventListener('click', () => this.loadHistory(false));
+        }
+
+        if (manageSettingsBtn) {
+            manageSettingsBtn.addEventListener('click', () => this.openSettingsModal());
+        }
+
+        if (settingsForm) {
+            settingsForm.addEventListener('submit', (e) => this.handleSettingsSubmit(e));
+        }
+
+        if (settingActionSelect) {
+            settingActionSelect.addEventListener('change', () => this.updateSettingFields());
+        }
+
         if (createSafeForm) {
             createSafeForm.addEventListener('submit', (e) => this.handleCreateSafeSubmit(e));
         }
+
+        if (signerTypeSelect) {
+            signerTypeSelect.addEventListener('change', () => this.updateSignerFields());
+        }
+
+        if (chainSelect) {
+            chainSelect.addEventListener('change', () => this.applyChainPreset());
+        }
+
+        if (transactionStoreSelect) {
+            transactionStoreSelect.addEventListener('change', () => this.applyTransactionStore());
+        }
+
+        if (profileSelect) {
+            profileSelect.addEventListener('change', (e) => this.switchProfile((e.target as HTMLSelectElement).value));
+        }
+
+        if (newProfileBtn) {
+            newProfileBtn.addEventListener('click', () => this.createProfile());
+        }
+
+        if (deleteProfileBtn) {
+            deleteProfileBtn.addEventListener('click', () => this.deleteProfile());
+        }
+
+        if (unlockForm) {
+            unlockForm.addEventListener('submit', (e) => this.handleUnlockSubmit(e));
+        }
+
+        if (unlockForgetBtn) {
+            unlockForgetBtn.addEventListener('click', () => this.handleUnlockForget());
+        }
+
+        if (lockBtn) {
+            lockBtn.addEventListener('click', () => this.lock());
+        }
+
+        // Any user activity postpones the idle lock
+        ['mousemove', 'keydown', 'click', 'scroll'].forEach(eventName => {
+            document.addEventListener(eventName, () => this.resetIdleTimer(), { passive: true });
+        });
     }
 
     /**
      * Save configuration from form
      */
-    saveConfiguration(): void {
+    async saveConfiguration(): Promise<void> {
         const safeAddress = (document.getElementById('safeAddress') as HTMLInputElement).value;
         const rpcUrl = (document.getElementById('rpcUrl') as HTMLInputElement).value;
-        const chainId = 11155111; // Sepolia chainId - hardcoded as in original design
-        const txServiceUrl = (document.getElementById('txServiceUrl') as HTMLInputElement).value;
-        const privateKey = (document.getElementById('privateKey') as HTMLInputElement).value;
+        const chainId = parseInt((document.getElementById('chainSelect') as HTMLSelectElement).value) || DEFAULT_CHAIN_ID;
+        const txServiceUrl = normalizeTxServiceUrl((document.getElementById('txServiceUrl') as HTMLInputElement).value);
+        const transactionStore = ((document.getElementById('transactionStore') as HTMLSelectElement)?.value || 'service') as TransactionStoreKind;
+        const wsRpcUrl = (document.getElementById('wsRpcUrl') as HTMLInputElement)?.value.trim() || undefined;
+        const lockTimeoutMinutes = parseInt((document.getElementById('lockTimeout') as HTMLInputElement)?.value) || 15;
+        const passphrase = (document.getElementById('storagePassphrase') as HTMLInputElement)?.value || '';
+        const profileName = (document.getElementById('profileName') as HTMLInputElement)?.value.trim();
+        const signer = this.readSignerConfig();
+
+        if (!this.validateConfiguration({ safeAddress, rpcUrl, chainId, txServiceUrl, transactionStore, wsRpcUrl, signer })) {
+            return;
+        }
 
-        if (!this.validateConfiguration({ safeAddress, rpcUrl, chainId, txServiceUrl, privateKey })) {
+        // A raw key is only persisted encrypted; reuse the previous ciphertext when the key is unchanged
+        const keyChanged = !this.config || JSON.stringify(this.config.signer) !== JSON.stringify(signer);
+        if (this.hasSecret(signer) && !passphrase && (keyChanged || !this.encryptedSigner)) {
+            this.showError('A storage passphrase is required to save a private key');
             return;
         }
 
-        this.config = { safeAddress, rpcUrl, chainId, txServiceUrl, privateKey };
-        
-        // Save to localStorage
-        localStorage.setItem('safeConfig', JSON.stringify(this.config));
-        
+        this.core.configure(
+            { safeAddress, rpcUrl, chainId, txServiceUrl, transactionStore, wsRpcUrl, signer, lockTimeoutMinutes },
+            (document.getElementById('keystorePassword') as HTMLInputElement)?.value || ''
+        );
+
+        try {
+            await this.persistConfiguration(passphrase || undefined);
+        } catch (error) {
+            console.error('Failed to save configuration:', error);
+            this.showError('Failed to save configuration: ' + (error as Error).message);
+            return;
+        }
+
+        (document.getElementById('storagePassphrase') as HTMLInputElement).value = '';
+        if (profileName) {
+            this.profiles.renameActive(profileName);
+            this.renderProfileOptions();
+        }
         this.showSuccess('Configuration saved successfully');
+        this.resetIdleTimer();
         this.initializeApp();
     }
 
     /**
-     * Load configuration from localStorage
+     * Write the current configuration to the active profile, encrypting raw keys.
+     * Without a passphrase the ciphertext from the last save or unlock is reused.
+     */
+    async persistConfiguration(passphrase?: string): Promise<void> {
+        if (!this.config) {
+            throw new Error('Configuration not loaded');
+        }
+
+        let stored: StoredSafeConfig = this.config;
+
+        if (this.hasSecret(this.config.signer)) {
+            if (passphrase) {
+                this.encryptedSigner = await encryptSecret(JSON.stringify(this.config.signer), passphrase);
+            }
+            if (!this.encryptedSigner) {
+                throw new Error('No passphrase available to encrypt the signer key');
+            }
+            stored = { ...this.config, signer: { type: this.config.signer.type, encrypted: this.encryptedSigner } };
+        } else {
+            this.encryptedSigner = null;
+        }
+
+        this.profiles.saveActive(stored);
+        this.storedConfig = stored;
+    }
+
+    /**
+     * Load configuration of the active profile
      */
     loadConfiguration(): void {
-        const saved = localStorage.getItem('safeConfig');
+        const saved = this.profiles.getActive().config;
         if (saved) {
             try {
-                this.config = JSON.parse(saved);
+                const stored = this.migrateConfiguration(saved);
+                this.storedConfig = stored;
+
+                if ('encrypted' in stored.signer) {
+                    // Key stays encrypted until the user unlocks it
+                    this.core.configure(null);
+                    this.encryptedSigner = stored.signer.encrypted;
+                    this.showUnlockModal('unlock');
+                    return;
+                }
+
+                const config = stored as SafeConfig;
+                this.core.configure(config);
                 this.populateConfigForm();
+
+                if (this.hasSecret(config.signer)) {
+                    // Plaintext key saved by an older version: drop it from storage at once and keep
+                    // it in memory until the user picks a passphrase to encrypt it
+                    this.forgetStoredSigner();
+                    this.showUnlockModal('migrate');
+                } else if (config.signer.type === 'keystore') {
+                    this.showUnlockModal('unlock');
+                }
+
                 this.showSuccess('Configuration loaded successfully!');
             } catch (error) {
                 console.error('Failed to load configuration:', error);
@@ -239,334 +518,638 @@ class SafeManager {
     }
 
     /**
-     * Populate configuration form with saved values
+     * Fill the header profile switcher
      */
-    populateConfigForm(): void {
-        if (this.config) {
-            (document.getElementById('safeAddress') as HTMLInputElement).value = this.config.safeAddress || '';
-            (document.getElementById('rpcUrl') as HTMLInputElement).value = this.config.rpcUrl || '';
-            (document.getElementById('txServiceUrl') as HTMLInputElement).value = this.config.txServiceUrl || '';
-            (document.getElementById('privateKey') as HTMLInputElement).value = this.config.privateKey || '';
+    renderProfileOptions(): void {
+        const profileSelect = document.getElementById('profileSelect') as HTMLSelectElement;
+        const profileNameInput = document.getElementById('profileName') as HTMLInputElement;
+        const active = this.profiles.getActive();
+
+        if (profileSelect) {
+            profileSelect.innerHTML = this.profiles.list().map(profile =>
+                `<option value="${profile.id}">${this.escapeHtml(profile.name)}</option>`
+            ).join('');
+            profileSelect.value = active.id;
+        }
+        if (profileNameInput) {
+            profileNameInput.value = active.name;
         }
     }
 
     /**
-     * Validate configuration
+     * Tear down the current Safe session and load another profile
      */
-    validateConfiguration(config: SafeConfig): boolean {
-        if (!config.safeAddress || !config.rpcUrl || !config.txServiceUrl || !config.privateKey) {
-            this.showError('All fields are required');
-            return false;
-        }
-
-        if (!config.safeAddress.match(/^0x[a-fA-F0-9]{40}$/)) {
-            this.showError('Invalid Safe address format');
-            return false;
+    switchProfile(id: string): void {
+        this.stopAutoRefresh();
+        if (this.idleTimer) {
+            clearTimeout(this.idleTimer);
+            this.idleTimer = null;
         }
-
-        if (!config.privateKey.match(/^0x[a-fA-F0-9]{64}$/)) {
-            this.showError('Invalid private key format');
-            return false;
+        this.closeUnlockModal();
+
+        this.core.reset();
+        this.storedConfig = null;
+        this.encryptedSigner = null;
+        this.resetHistory();
+        this.simulationResults.clear();
+        this.safeMessages = [];
+        this.safeAssets = [];
+        this.updateStoreControls();
+
+        const profile = this.profiles.setActive(id);
+        this.resetConfigForm();
+        this.resetSafeStatus();
+        this.renderPendingTransactions([]);
+        this.renderProfileOptions();
+
+        if (profile.config) {
+            this.loadConfiguration();
         }
-
-        return true;
+        this.initializeApp();
     }
 
     /**
-     * Connect to Safe and load information
+     * Add an empty profile and switch to it
      */
-    async connectToSafe(): Promise<void> {
-        
-        if (!this.config) {
-            const errorMessage = 'Please fill in the configuration information and click the "Save Configuration" button to save the configuration!';
-            this.showError(errorMessage);
-            return;
-        }
+    createProfile(): void {
+        const profile = this.profiles.create(`Profile ${this.profiles.list().length + 1}`);
+        this.switchProfile(profile.id);
+    }
 
-        // Validate required configuration fields (Safe address is optional)
-        if (!this.config.rpcUrl || !this.config.privateKey || !this.config.txServiceUrl) {
-            const errorMessage = 'Configuration is incomplete. Please ensure required fields are filled (RPC URL, Transaction Service URL, Private Key)! Safe address is optional.';
-            this.showError(errorMessage);
+    /**
+     * Delete the active profile after confirmation
+     */
+    deleteProfile(): void {
+        const active = this.profiles.getActive();
+        if (!confirm(`Delete profile "${active.name}"? Its saved configuration and encrypted key will be removed.`)) {
             return;
         }
 
-        // Check if Safe address is provided
-        if (!this.config.safeAddress) {
-            const errorMessage = 'Safe address is required to connect. Please provide a Safe address or create a new Safe first.';
-            console.error('Safe address missing:', errorMessage);
-            this.showError(errorMessage);
-            this.updateConnectionStatus('No Safe Address');
-            return;
-        }
+        const next = this.profiles.remove(active.id);
+        this.switchProfile(next.id);
+    }
 
-        try {
-            this.updateConnectionStatus('Connecting...');
-            
-            // Initialize Safe client first
-            this.safeClient = await this.initializeSafeClient();
-            
-            let safeInfo: SafeInfo;
-            
-            if (this.safeClient && this.safeClient.protocolKit) {
-                // Use Safe SDK
-                const address = await this.safeClient.protocolKit.getAddress();
-                const nonce = await this.safeClient.protocolKit.getNonce();
-                const threshold = await this.safeClient.protocolKit.getThreshold();
-                const owners = await this.safeClient.protocolKit.getOwners();
-                const isDeployed = await this.safeClient.protocolKit.isSafeDeployed();
-                
-                safeInfo = {
-                    address: address,
-                    nonce: nonce,
-                    threshold: threshold,
-                    owners: owners,
-                    modules: [],
-                    fallbackHandler: '',
-                    guard: '',
-                    version: ''
-                };
-            } else {
-                // Fallback to direct API calls
-                safeInfo = await this.getSafeInfoFallback();
+    /**
+     * Clear the configuration form back to defaults
+     */
+    resetConfigForm(): void {
+        ['safeAddress', 'wsRpcUrl', 'privateKey', 'storagePassphrase', 'keystoreJson', 'keystorePassword', 'remoteSignerUrl', 'remoteSignerAddress'].forEach(id => {
+            const input = document.getElementById(id) as HTMLInputElement;
+            if (input) {
+                input.value = '';
             }
+        });
 
-            // Store Safe info for later use
-            this.safeInfo = safeInfo;
-            
-            this.updateSafeStatus(safeInfo);
-            this.updateConnectionStatus('Connected');
-            this.showSuccess('Connected to Safe successfully');
-            
-            // Start auto refresh (this will load pending transactions)
-            this.startAutoRefresh();
-            
-        } catch (error) {
-            console.error('Connection failed:', error);
-            const errorMessage = error instanceof Error ? error.message : String(error);
-            console.error('Error details:', {
-                message: errorMessage,
-                stack: error instanceof Error ? error.stack : undefined,
-                config: this.config
-            });
-            this.updateConnectionStatus('Failed');
-            this.showError(`Failed to connect to Safe: ${errorMessage}`);
+        (document.getElementById('transactionStore') as HTMLSelectElement).value = 'service';
+        const chainSelect = document.getElementById('chainSelect') as HTMLSelectElement;
+        if (chainSelect) {
+            chainSelect.value = String(DEFAULT_CHAIN_ID);
+            this.applyChainPreset();
         }
+        (document.getElementById('signerType') as HTMLSelectElement).value = 'injected';
+        (document.getElementById('lockTimeout') as HTMLInputElement).value = '15';
+        this.updateSignerFields();
     }
 
     /**
-     * Fallback method to get Safe info using direct API calls
+     * Reset the status panel to its disconnected state
      */
-    async getSafeInfoFallback(): Promise<SafeInfo> {
-        if (!this.config) {
-            throw new Error('Configuration not loaded');
-        }
-
-        // If no Safe address is provided, create a new Safe
-        if (!this.config.safeAddress || this.config.safeAddress.trim() === '') {
-            return await this.createNewSafe();
-        }
+    resetSafeStatus(): void {
+        const defaults: Record<string, string> = {
+            currentSafeAddress: 'Not connected',
+            isDeployed: 'Unknown',
+            signerAddress: 'Not connected',
+            signerBalance: '0',
+            safeOwners: 'Unknown',
+            safeModules: 'Unknown',
+            safeGuard: 'Unknown',
+            safeFallbackHandler: 'Unknown'
+        };
 
-        try {
-            const response = await fetch(`${this.config.txServiceUrl}/api/v2/safes/${this.config.safeAddress}/`);
-            if (!response.ok) {
-                throw new Error(`Failed to fetch Safe info: ${response.statusText}`);
+        Object.entries(defaults).forEach(([id, text]) => {
+            const element = document.getElementById(id);
+            if (element) {
+                element.textContent = text;
+                element.title = '';
             }
-
-            const data = await response.json();
-            return {
-                address: data.address,
-                nonce: data.nonce,
-                threshold: data.threshold,
-                owners: data.owners,
-                modules: data.modules || [],
-                fallbackHandler: data.fallbackHandler || '',
-                guard: data.guard || '',
-                version: data.version || ''
-            };
-        } catch (error) {
-            console.error('Failed to fetch existing Safe, creating new one:', error);
-            return await this.createNewSafe();
-        }
+        });
+        this.updateConnectionStatus('Disconnected');
     }
 
     /**
-     * Create a new Safe and return its info
+     * Escape text for safe interpolation into HTML
      */
-    async createNewSafe(): Promise<SafeInfo> {
-        if (!this.config) {
-            throw new Error('Configuration not loaded');
-        }
-
-        // Get signer address from private key
-        const signerAddress = this.getSignerAddress(this.config.privateKey);
-        
-        // For demo purposes, create a mock Safe info
-        // In a real implementation, you would deploy a new Safe contract
-        const mockSafeAddress = this.generateMockSafeAddress(signerAddress);
-        
-        // Update config with the new Safe address
-        this.config.safeAddress = mockSafeAddress;
-        this.saveConfiguration();
-        
-        return {
-            address: mockSafeAddress,
-            nonce: 0,
-            threshold: 1,
-            owners: [signerAddress],
-            modules: [],
-            fallbackHandler: '',
-            guard: '',
-            version: '1.3.0'
-        };
+    escapeHtml(text: string): string {
+        return text
+            .replace(/&/g, '&amp;')
+            .replace(/</g, '&lt;')
+            .replace(/>/g, '&gt;')
+            .replace(/"/g, '&quot;')
+            .replace(/'/g, '&#39;');
     }
 
     /**
-     * Generate a mock Safe address for demo purposes
+     * Whether the signer settings contain a raw key that must be encrypted at rest
      */
-    generateMockSafeAddress(signerAddress: string): string {
-        // Create a deterministic address based on signer address
-        const hash = this.calculateHash(signerAddress + Date.now().toString());
-        return '0x' + hash.slice(0, 40);
+    private hasSecret(signer: SignerConfig): boolean {
+        return signer.type === 'privateKey';
     }
 
     /**
-     * Get signer address from private key using viem's privateKeyToAddress
+     * Show the passphrase prompt, either to unlock the stored key or to encrypt a plaintext one
      */
-    getSignerAddress(privateKey: string): string {
-        try {
-            // Ensure private key has '0x' prefix
-            const formattedPrivateKey = privateKey.startsWith('0x') ? privateKey : `0x${privateKey}`;
-            
-            // Use viem's privateKeyToAddress function to generate the address
-            const address = privateKeyToAddress(formattedPrivateKey as `0x${string}`);
-            
-            return address;
-        } catch (error) {
-            console.error('Failed to generate address from private key:', error);
-            throw new Error('Invalid private key format');
+    showUnlockModal(mode: 'unlock' | 'migrate'): void {
+        this.unlockMode = mode;
+        const isKeystore = this.storedConfig?.signer.type === 'keystore';
+
+        const title = document.getElementById('unlockTitle');
+        const description = document.getElementById('unlockDescription');
+        const confirmGroup = document.getElementById('unlockConfirmGroup');
+        const submit = document.getElementById('unlockSubmit');
+        const forget = document.getElementById('unlockForget');
+
+        if (title) {
+            title.textContent = mode === 'migrate' ? 'Encrypt Saved Key' : 'Unlock Signer';
+        }
+        if (description) {
+            description.textContent = mode === 'migrate'
+                ? 'Your private key was saved unencrypted and has been removed from storage. Choose a passphrase to save it encrypted, or skip to keep it for this session only.'
+                : isKeystore
+                    ? 'Enter the keystore password to unlock the signer.'
+                    : 'Enter your passphrase to decrypt the saved signer key.';
+        }
+        if (confirmGroup) {
+            confirmGroup.classList.toggle('hidden', mode !== 'migrate');
+        }
+        if (submit) {
+            submit.textContent = mode === 'migrate' ? 'Encrypt' : 'Unlock';
+        }
+        if (forget) {
+            forget.textContent = mode === 'migrate' ? 'Skip' : 'Forget Saved Key';
         }
+
+        document.getElementById('unlockModal')?.classList.remove('hidden');
+        (document.getElementById('unlockPassphrase') as HTMLInputElement)?.focus();
     }
 
     /**
-     * Calculate a simple hash for demo purposes
+     * Hide the passphrase prompt and clear its fields
      */
-    calculateHash(input: string): string {
-        let hash = 0;
-        for (let i = 0; i < input.length; i++) {
-            const char = input.charCodeAt(i);
-            hash = ((hash << 5) - hash) + char;
-            hash = hash & hash; // Convert to 32bit integer
+    closeUnlockModal(): void {
+        document.getElementById('unlockModal')?.classList.add('hidden');
+        const form = document.getElementById('unlockForm') as HTMLFormElement;
+        if (form) {
+            form.reset();
         }
-        // Convert to hex and pad to ensure we have enough characters
-        const hexHash = Math.abs(hash).toString(16);
-        return (hexHash + '0'.repeat(40)).slice(0, 40);
     }
 
     /**
-     * Refresh pending transactions
+     * Handle passphrase prompt submission
      */
-    async refreshPendingTransactions(): Promise<void> {
-        if (!this.config) return;
-        
-        // Check if Safe address is available before attempting to fetch transactions
-        if (!this.config.safeAddress) {
-            console.log('No Safe address configured, skipping transaction refresh');
+    async handleUnlockSubmit(event: Event): Promise<void> {
+        event.preventDefault();
+
+        const passphrase = (document.getElementById('unlockPassphrase') as HTMLInputElement)?.value || '';
+        const confirmation = (document.getElementById('unlockPassphraseConfirm') as HTMLInputElement)?.value || '';
+
+        if (!passphrase) {
+            this.showError('Please enter a passphrase');
             return;
         }
 
         try {
-            let transactions: PendingTransaction[] = [];
-
-            if (this.safeClient) {
-                // Use Safe SDK
-                const result = await this.safeClient.getPendingTransactions();
-                
-                // Safe SDK returns an object with 'results' property containing the transactions array
-                if (result && typeof result === 'object' && Array.isArray(result.results)) {
-                    // Convert Safe SDK format to our PendingTransaction format
-                    transactions = result.results.map((tx: any) => this.convertSafeTransactionFormat(tx));
-                } else if (Array.isArray(result)) {
-                    // Fallback for direct array response
-                    transactions = result.map((tx: any) => this.convertSafeTransactionFormat(tx));
-                } else {
-                    console.warn('Unexpected result format from Safe SDK:', result);
-                    transactions = [];
+            if (this.unlockMode === 'migrate') {
+                if (passphrase !== confirmation) {
+                    this.showError('Passphrases do not match');
+                    return;
                 }
+                await this.persistConfiguration(passphrase);
+                this.showSuccess('Saved key is now encrypted');
             } else {
-                // Fallback to direct API calls
-                transactions = await this.getPendingTransactionsFallback();
+                await this.unlock(passphrase);
+                this.showSuccess('Signer unlocked');
             }
 
-            // Store transactions for modal access
-            this.pendingTransactions = transactions;
+            this.closeUnlockModal();
+            this.resetIdleTimer();
+            this.initializeApp();
+        } catch (error) {
+            console.error('Unlock failed:', error);
+            this.showError((error as Error).message);
+        }
+    }
+
+    /**
+     * Secondary action of the passphrase prompt: skip encrypting a migrated key, or remove a saved
+     * key whose passphrase is lost so the rest of the configuration stays usable
+     */
+    handleUnlockForget(): void {
+        if (this.unlockMode === 'migrate') {
+            this.closeUnlockModal();
+            this.showSuccess('The key is kept for this session only');
+            return;
+        }
+
+        if (!confirm('Forget the saved signer key? The rest of the configuration is kept; set up the signer again to use it.')) {
+            return;
+        }
+
+        this.forgetStoredSigner();
+        if (this.storedConfig) {
+            this.core.configure(this.storedConfig as SafeConfig);
+        }
+        this.populateConfigForm();
+        this.closeUnlockModal();
+        this.showSuccess('Saved signer key removed');
+        this.resetIdleTimer();
+        this.initializeApp();
+    }
+
+    /**
+     * Replace the saved signer of the active profile with the browser wallet, dropping its key
+     */
+    private forgetStoredSigner(): void {
+        if (!this.storedConfig) {
+            return;
+        }
+
+        const stored: StoredSafeConfig = { ...this.storedConfig, signer: { type: 'injected' } };
+        this.profiles.saveActive(stored);
+        this.storedConfig = stored;
+        this.encryptedSigner = null;
+    }
+
+    /**
+     * Decrypt the stored signer (or check the keystore password) and restore the configuration
+     */
+    async unlock(passphrase: string): Promise<void> {
+        if (!this.storedConfig) {
+            throw new Error('No saved configuration found');
+        }
+
+        const storedSigner = this.storedConfig.signer;
+        let signer: SignerConfig;
+
+        if ('encrypted' in storedSigner) {
+            signer = JSON.parse(await decryptSecret(storedSigner.encrypted, passphrase));
+            this.encryptedSigner = storedSigner.encrypted;
+        } else {
+            signer = storedSigner;
+        }
+
+        // The storage passphrase doubles as the keystore password
+        const config: SafeConfig = { ...this.storedConfig, signer };
+        this.core.configure(config, signer.type === 'keystore' ? passphrase : '');
+
+        if (signer.type === 'keystore') {
+            const keystorePasswordInput = document.getElementById('keystorePassword') as HTMLInputElement;
+            if (keystorePasswordInput) {
+                keystorePasswordInput.value = passphrase;
+            }
+            try {
+                // Decrypting the keystore validates the password
+                await this.core.initializeSigner();
+            } catch (error) {
+                this.core.configure(config);
+                throw error;
+            }
+        }
+
+        this.populateConfigForm();
+    }
+
+    /**
+     * Forget decrypted key material and stop background activity until unlocked again
+     */
+    lock(): void {
+        if (!this.storedConfig || !this.requiresUnlock(this.storedConfig)) {
+            return;
+        }
+
+        this.stopAutoRefresh();
+        this.core.configure(null);
+
+        ['privateKey', 'keystorePassword'].forEach(id => {
+            const input = document.getElementById(id) as HTMLInputElement;
+            if (input) {
+                input.value = '';
+            }
+        });
+
+        this.updateConnectionStatus('Locked');
+        this.showUnlockModal('unlock');
+    }
+
+    /**
+     * Whether the stored signer needs a passphrase or password before use
+     */
+    private requiresUnlock(stored: StoredSafeConfig): boolean {
+        return 'encrypted' in stored.signer || stored.signer.type === 'keystore';
+    }
+
+    /**
+     * Restart the idle countdown after user activity
+     */
+    resetIdleTimer(): void {
+        if (this.idleTimer) {
+            clearTimeout(this.idleTimer);
+            this.idleTimer = null;
+        }
+
+        if (!this.config || !this.storedConfig || !this.requiresUnlock(this.storedConfig)) {
+            return;
+        }
+
+        const timeoutMinutes = this.config.lockTimeoutMinutes || 15;
+        this.idleTimer = setTimeout(() => this.lock(), timeoutMinutes * 60 * 1000);
+    }
+
+    /**
+     * Fill the network dropdown from the chain registry
+     */
+    renderChainOptions(): void {
+        const chainSelect = document.getElementById('chainSelect') as HTMLSelectElement;
+        if (!chainSelect) return;
+
+        chainSelect.innerHTML = CHAINS.map(chain =>
+            `<option value="${chain.chainId}">${chain.name} (${chain.chainId})</option>`
+        ).join('');
+        chainSelect.value = String(DEFAULT_CHAIN_ID);
+    }
+
+    /**
+     * Replace RPC and Transaction Service URLs with the selected network's defaults
+     */
+    applyChainPreset(): void {
+        const chainId = parseInt((document.getElementById('chainSelect') as HTMLSelectElement).value);
+        const chain = getChain(chainId);
+        if (!chain) return;
+
+        const sandbox = (document.getElementById('transactionStore') as HTMLSelectElement)?.value === 'sandbox';
+        (document.getElementById('rpcUrl') as HTMLInputElement).value = chain.defaultRpcUrl;
+        (document.getElementById('txServiceUrl') as HTMLInputElement).value = sandbox ? SANDBOX_TX_SERVICE_URL : chain.txServiceUrl;
+    }
+
+    /**
+     * Point the Transaction Service URL at the mock service when the sandbox is selected, and back
+     * at the network's service when leaving it
+     */
+    applyTransactionStore(): void {
+        const store = (document.getElementById('transactionStore') as HTMLSelectElement).value;
+        const txServiceUrlInput = document.getElementById('txServiceUrl') as HTMLInputElement;
+        const chain = getChain(parseInt((document.getElementById('chainSelect') as HTMLSelectElement).value));
+
+        if (store === 'sandbox') {
+            txServiceUrlInput.value = SANDBOX_TX_SERVICE_URL;
+        } else if (normalizeTxServiceUrl(txServiceUrlInput.value) === SANDBOX_TX_SERVICE_URL && chain) {
+            txServiceUrlInput.value = chain.txServiceUrl;
+        }
+    }
+
+    /**
+     * Convert configurations saved by older versions (plain `privateKey` field, `/api/` URL suffix)
+     */
+    migrateConfiguration(saved: any): StoredSafeConfig {
+        // Older versions stored the Transaction Service URL with its `/api/` suffix
+        saved = { ...saved, txServiceUrl: normalizeTxServiceUrl(saved.txServiceUrl || '') };
+
+        if (!saved.signer && saved.privateKey) {
+            const { privateKey, ...rest } = saved;
+            return { ...rest, signer: { type: 'privateKey', privateKey } };
+        }
+        return saved;
+    }
+
+    /**
+     * Read signer settings from the configuration form
+     */
+    readSignerConfig(): SignerConfig {
+        const type = (document.getElementById('signerType') as HTMLSelectElement).value as SignerType;
+        const value = (id: string) => (document.getElementById(id) as HTMLInputElement).value.trim();
+
+        switch (type) {
+            case 'privateKey':
+                return { type, privateKey: value('privateKey') };
+            case 'keystore':
+                return { type, keystore: value('keystoreJson') };
+            case 'remote':
+                return { type, url: value('remoteSignerUrl'), address: value('remoteSignerAddress') || undefined };
+            default:
+                return { type: 'injected' };
+        }
+    }
+
+    /**
+     * Show only the form fields used by the selected signer type
+     */
+    updateSignerFields(): void {
+        const type = (document.getElementById('signerType') as HTMLSelectElement)?.value;
+        document.querySelectorAll<HTMLElement>('[data-signer-type]').forEach(element => {
+            element.classList.toggle('hidden', element.dataset.signerType !== type);
+        });
+    }
+
+    /**
+     * Populate configuration form with saved values
+     */
+    populateConfigForm(): void {
+        if (this.config) {
+            const signer = this.config.signer;
+            (document.getElementById('safeAddress') as HTMLInputElement).value = this.config.safeAddress || '';
+            (document.getElementById('rpcUrl') as HTMLInputElement).value = this.config.rpcUrl || '';
+            (document.getElementById('txServiceUrl') as HTMLInputElement).value = this.config.txServiceUrl || '';
+            (document.getElementById('transactionStore') as HTMLSelectElement).value = this.config.transactionStore || 'service';
+            (document.getElementById('wsRpcUrl') as HTMLInputElement).value = this.config.wsRpcUrl || '';
+            (document.getElementById('chainSelect') as HTMLSelectElement).value = String(this.config.chainId || DEFAULT_CHAIN_ID);
+            (document.getElementById('lockTimeout') as HTMLInputElement).value = String(this.config.lockTimeoutMinutes || 15);
+            (document.getElementById('signerType') as HTMLSelectElement).value = signer?.type || 'injected';
+            (document.getElementById('privateKey') as HTMLInputElement).value = signer?.type === 'privateKey' ? signer.privateKey : '';
+            (document.getElementById('keystoreJson') as HTMLTextAreaElement).value = signer?.type === 'keystore' ? signer.keystore : '';
+            (document.getElementById('remoteSignerUrl') as HTMLInputElement).value = signer?.type === 'remote' ? signer.url : '';
+            (document.getElementById('remoteSignerAddress') as HTMLInputElement).value = signer?.type === 'remote' ? signer.address || '' : '';
+            this.updateSignerFields();
+        }
+    }
+
+    /**
+     * Validate configuration
+     */
+    validateConfiguration(config: SafeConfig): boolean {
+        if (!config.safeAddress || !config.rpcUrl || !config.signer) {
+            this.showError('All fields are required');
+            return false;
+        }
+
+        if (!config.txServiceUrl && config.transactionStore !== 'local') {
+            this.showError('A Transaction Service URL is required unless transactions are kept locally');
+            return false;
+        }
+
+        if (!config.safeAddress.match(/^0x[a-fA-F0-9]{40}$/)) {
+            this.showError('Invalid Safe address format');
+            return false;
+        }
+
+        if (config.wsRpcUrl && !/^wss?:\/\//i.test(config.wsRpcUrl)) {
+            this.showError('The WebSocket RPC URL must start with ws:// or wss://');
+            return false;
+        }
+
+        const signerError = validateSignerConfig(config.signer);
+        if (signerError) {
+            this.showError(signerError);
+            return false;
+        }
+
+        return true;
+    }
+
+    /**
+     * Connect to Safe and load information
+     */
+    async connectToSafe(): Promise<void> {
+        
+        if (!this.config) {
+            const errorMessage = 'Please fill in the configuration information and click the "Save Configuration" button to save the configuration!';
+            this.showError(errorMessage);
+            return;
+        }
+
+        // Validate required configuration fields (Safe address is optional)
+        if (!this.config.rpcUrl || !this.config.signer || (!this.config.txServiceUrl && !this.core.usesLocalStore())) {
+            const errorMessage = 'Configuration is incomplete. Please ensure required fields are filled (RPC URL, Transaction Service URL, Signer)! Safe address is optional.';
+            this.showError(errorMessage);
+            return;
+        }
+
+        // Check if Safe address is provided
+        if (!this.config.safeAddress) {
+            const errorMessage = 'Safe address is required to connect. Please provide a Safe address or create a new Safe first.';
+            console.error('Safe address missing:', errorMessage);
+            this.showError(errorMessage);
+            this.updateConnectionStatus('No Safe Address');
+            return;
+        }
+
+        try {
+            this.updateConnectionStatus('Connecting...');
+
+            // Safe status is rendered by the safeInfoChanged listener
+            await this.core.connect();
             
-            this.renderPendingTransactions(transactions);
-            this.resetCountdown();
+            this.updateConnectionStatus('Connected');
+            this.updateStoreControls();
+            this.showSuccess('Connected to Safe successfully');
+            
+            // Start auto refresh (this will load pending transactions)
+            this.startAutoRefresh();
             
+        } catch (error) {
+            console.error('Connection failed:', error);
+            const errorMessage = error instanceof Error ? error.message : String(error);
+            console.error('Error details:', {
+                message: errorMessage,
+                stack: error instanceof Error ? error.stack : undefined,
+                config: this.config
+            });
+            this.updateConnectionStatus('Failed');
+            this.showError(`Failed to connect to Safe: ${errorMessage}`);
+        }
+    }
+
+    /**
+     * Refresh pending transactions; the queueChanged listener patches the cards that changed
+     */
+    async refreshPendingTransactions(): Promise<void> {
+        if (!this.config) return;
+        
+        // Check if Safe address is available before attempting to fetch transactions
+        if (!this.config.safeAddress) {
+            console.log('No Safe address configured, skipping transaction refresh');
+            return;
+        }
+
+        try {
+            await this.core.refreshQueue();
         } catch (error) {
             console.error('Failed to refresh transactions:', error);
             this.showError('Failed to load pending transactions');
+        } finally {
+            this.scheduleRefresh();
         }
     }
 
     /**
-     * Fallback method to get pending transactions
+     * Show the bundle exchange buttons for the local store only
      */
-    async getPendingTransactionsFallback(): Promise<PendingTransaction[]> {
-        if (!this.config) {
-            throw new Error('Configuration not loaded');
-        }
+    updateStoreControls(): void {
+        document.querySelectorAll<HTMLElement>('[data-local-store]').forEach(element => {
+            element.classList.toggle('hidden', !this.core.usesLocalStore());
+        });
+    }
 
-        const response = await fetch(
-            `${this.config.txServiceUrl}/api/v2/safes/${this.config.safeAddress}/multisig-transactions/?executed=false&ordering=-nonce`
-        );
-        
-        if (!response.ok) {
-            throw new Error(`Failed to fetch transactions: ${response.statusText}`);
+    /**
+     * Download the pending transactions and signatures of the local store as a bundle
+     */
+    async exportTransactionBundle(): Promise<void> {
+        const store = this.config ? this.core.getTransactionStore() : null;
+        if (!(store instanceof LocalTransactionStore)) {
+            this.showError('Bundles are only available with the local transaction store');
+            return;
         }
 
-        const data = await response.json();
-        return data.results || [];
+        try {
+            const bundle = await store.exportBundle();
+            if (bundle.transactions.length === 0) {
+                this.showError('There are no pending transactions to export');
+                return;
+            }
+
+            const url = URL.createObjectURL(new Blob([JSON.stringify(bundle, null, 2)], { type: 'application/json' }));
+            const link = document.createElement('a');
+            link.href = url;
+            link.download = `safe-bundle-${bundle.safeAddress.slice(0, 10)}-${Date.now()}.json`;
+            link.click();
+            URL.revokeObjectURL(url);
+        } catch (error: any) {
+            console.error('Failed to export bundle:', error);
+            this.showError(`Failed to export bundle: ${error.message}`);
+        }
     }
 
     /**
-     * Convert Safe SDK transaction format to our PendingTransaction format
+     * Merge a bundle received from another owner into the local store
      */
-    private convertSafeTransactionFormat(tx: any): PendingTransaction {
-        return {
-            safe: tx.safe || '',
-            to: tx.to || '',
-            value: tx.value || '0',
-            data: tx.data || '0x',
-            operation: tx.operation || 0,
-            gasToken: tx.gasToken || '0x0000000000000000000000000000000000000000',
-            safeTxGas: tx.safeTxGas || 0,
-            baseGas: tx.baseGas || 0,
-            gasPrice: tx.gasPrice || '0',
-            refundReceiver: tx.refundReceiver || '0x0000000000000000000000000000000000000000',
-            nonce: tx.nonce || 0,
-            executionDate: tx.executionDate || null,
-            submissionDate: tx.submissionDate || new Date().toISOString(),
-            modified: tx.modified || new Date().toISOString(),
-            blockNumber: tx.blockNumber || null,
-            transactionHash: tx.transactionHash || null,
-            safeTxHash: tx.safeTxHash || '',
-            proposer: tx.proposer || '',
-            executor: tx.executor || null,
-            isExecuted: tx.isExecuted || false,
-            isSuccessful: tx.isSuccessful || null,
-            ethGasPrice: tx.ethGasPrice || null,
-            maxFeePerGas: tx.maxFeePerGas || null,
-            maxPriorityFeePerGas: tx.maxPriorityFeePerGas || null,
-            gasUsed: tx.gasUsed || null,
-            fee: tx.fee || null,
-            origin: tx.origin || '',
-            dataDecoded: tx.dataDecoded || null,
-            confirmationsRequired: tx.confirmationsRequired || 1,
-            confirmations: tx.confirmations || [],
-            trusted: tx.trusted || false,
-            signatures: tx.signatures || null
-        };
+    async importTransactionBundle(): Promise<void> {
+        const input = document.getElementById('importBundleFile') as HTMLInputElement;
+        const file = input?.files?.[0];
+        const store = this.config ? this.core.getTransactionStore() : null;
+        if (!file || !(store instanceof LocalTransactionStore)) return;
+
+        try {
+            this.showTransactionsLoading(true, 'Verifying bundle signatures...');
+
+            let bundle: TransactionBundle;
+            try {
+                bundle = JSON.parse(await file.text());
+            } catch (error: any) {
+                throw new Error(`Invalid JSON: ${error.message}`);
+            }
+
+            const result = await store.importBundle(bundle);
+            if (result.rejected.length > 0) {
+                console.warn('Rejected bundle entries:', result.rejected);
+                this.showError(`Skipped ${result.rejected.length} invalid entries: ${result.rejected[0]}`);
+            }
+            this.showSuccess(`Imported ${result.transactions} transactions and ${result.signatures} signatures`);
+            await this.refreshPendingTransactions();
+        } catch (error: any) {
+            console.error('Failed to import bundle:', error);
+            this.showError(`Failed to import bundle: ${error.message}`);
+        } finally {
+            this.showTransactionsLoading(false);
+            input.value = '';
+        }
     }
 
     /**
@@ -586,6 +1169,8 @@ class SafeManager {
             transactions = [];
         }
 
+        this.renderedQueueKey = null;
+
         if (transactions.length === 0) {
             container.innerHTML = `
                 <div class="no-transactions">
@@ -615,25 +1200,25 @@ class SafeManager {
                 return;
             }
 
-            const transactionsToRender = validTransactions;
-            
-            const renderedCards = transactionsToRender.map((tx, index) => {
-                try {
-                    return this.renderTransactionCard(tx);
-                } catch (error) {
-                    console.error('Error rendering transaction card:', error, tx);
-                    return `
-                        <div class="transaction-card fade-in">
-                            <div class="transaction-header">
-                                <div class="transaction-hash">Error rendering transaction</div>
-                                <div class="transaction-status status-error">Error</div>
-                            </div>
-                        </div>
-                    `;
-                }
-            });
-            
-            container.innerHTML = renderedCards.join('');
+            const safeNonce = this.safeInfo?.nonce ?? Math.min(...validTransactions.map(tx => Number(tx.nonce)));
+            const groups = groupByNonce(validTransactions, safeNonce);
+            const outdated = groups.filter(group => group.isStale);
+            // Keep the outdated section open across refreshes
+            const outdatedOpen = container.querySelector<HTMLDetailsElement>('.outdated-group')?.open || false;
+
+            container.innerHTML = groups
+                .filter(group => !group.isStale)
+                .map(group => this.renderNonceGroup(group, safeNonce))
+                .join('') + (outdated.length > 0 ? `
+                    <details class="outdated-group" ${outdatedOpen ? 'open' : ''}>
+                        <summary>
+                            Outdated (${outdated.reduce((count, group) => count + group.transactions.length, 0)}):
+                            nonces below the Safe's nonce ${safeNonce} can never execute
+                        </summary>
+                        ${outdated.map(group => this.renderNonceGroup(group, safeNonce)).join('')}
+                    </details>
+                ` : '');
+            this.renderedQueueKey = this.getQueueRenderKey(safeNonce);
         } catch (error) {
             console.error('Error rendering transactions:', error);
             container.innerHTML = `
@@ -647,41 +1232,151 @@ class SafeManager {
     }
 
     /**
-     * Render a single transaction card
+     * Key of what every rendered card depends on besides its own transaction
      */
-    renderTransactionCard(transaction: PendingTransaction): string {
-        // Add null checks for required fields
-        if (!transaction) {
-            console.warn('Invalid transaction data:', transaction);
-            return `
-                <div class="transaction-card fade-in">
-                    <div class="transaction-header">
-                        <div class="transaction-hash">Invalid Transaction</div>
-                        <div class="transaction-status status-error">Error</div>
-                    </div>
-                    <div class="transaction-details">
-                        <div class="detail-item">
-                            <div class="detail-label">Error</div>
-                            <div class="detail-value">Transaction data is incomplete</div>
-                        </div>
-                    </div>
-                </div>
-            `;
+    getQueueRenderKey(safeNonce: number): string {
+        return `${safeNonce}:${this.signerAddress.toLowerCase()}`;
+    }
+
+    /**
+     * Apply a queue diff to the rendered queue: changed cards are replaced in place and only the
+     * nonce groups that gained or lost proposals are re-rendered. A new Safe nonce or signer, the
+     * empty state and changes among outdated proposals fall back to a full render that keeps the
+     * scroll position
+     */
+    patchPendingTransactions(transactions: PendingTransaction[], changes: QueueChanges): void {
+        const container = document.getElementById('transactionsContainer');
+        if (!container) return;
+
+        const safeNonce = this.safeInfo?.nonce ?? Math.min(...transactions.map(tx => Number(tx.nonce)));
+        const groupElement = (nonce: number) => container.querySelector<HTMLElement>(`:scope > .nonce-group[data-nonce="${nonce}"]`);
+
+        // Nonces whose set of proposals changed
+        const touched = new Set<number>(changes.added.map(tx => Number(tx.nonce)));
+        for (const safeTxHash of changes.removed) {
+            const group = container.querySelector(`.transaction-card[data-safe-tx-hash="${safeTxHash}"]`)?.closest<HTMLElement>('[data-nonce]');
+            touched.add(group ? Number(group.dataset.nonce) : -1);
         }
 
-        // Safely handle confirmations array
-        const confirmations = transaction.confirmations || [];
-        const confirmationsRequired = transaction.confirmationsRequired || 1;
-        const isConfirmed = confirmations.length >= confirmationsRequired;
-        
+        const fullRender = transactions.length === 0
+            || this.renderedQueueKey !== this.getQueueRenderKey(safeNonce)
+            || Array.from(touched).some(nonce => nonce < safeNonce);
+        if (fullRender) {
+            const scrollTop = container.scrollTop;
+            this.renderPendingTransactions(transactions);
+            container.scrollTop = scrollTop;
+            return;
+        }
+
+        const groups = groupByNonce(transactions, safeNonce);
+        for (const nonce of touched) {
+            const group = groups.find(item => item.nonce === nonce);
+            const existing = groupElement(nonce);
+            if (!group) {
+                existing?.remove();
+            } else if (existing) {
+                existing.outerHTML = this.renderNonceGroup(group, safeNonce);
+            } else {
+                // Keep groups in nonce order, ahead of the outdated section
+                const following = Array.from(container.querySelectorAll<HTMLElement>(':scope > .nonce-group'))
+                    .find(element => Number(element.dataset.nonce) > nonce)
+                    || container.querySelector<HTMLElement>(':scope > .outdated-group');
+                const html = this.renderNonceGroup(group, safeNonce);
+                if (following) {
+                    following.insertAdjacentHTML('beforebegin', html);
+                } else {
+                    container.insertAdjacentHTML('beforeend', html);
+                }
+            }
+        }
+
+        for (const transaction of changes.changed) {
+            if (touched.has(Number(transaction.nonce))) continue;
+            const card = container.querySelector(`.transaction-card[data-safe-tx-hash="${transaction.safeTxHash}"]`);
+            if (card) {
+                card.outerHTML = this.renderTransactionCard(transaction, safeNonce);
+            }
+        }
+    }
+
+    /**
+     * Render the proposals sharing a nonce, highlighting conflicts
+     */
+    renderNonceGroup(group: NonceGroup, safeNonce: number): string {
+        const renderedCards = group.transactions.map(tx => {
+            try {
+                return this.renderTransactionCard(tx, safeNonce);
+            } catch (error) {
+                console.error('Error rendering transaction card:', error, tx);
+                return `
+                    <div class="transaction-card fade-in">
+                        <div class="transaction-header">
+                            <div class="transaction-hash">Error rendering transaction</div>
+                            <div class="transaction-status status-error">Error</div>
+                        </div>
+                    </div>
+                `;
+            }
+        });
+
+        return `
+            <div class="nonce-group ${group.hasConflict ? 'nonce-conflict' : ''} ${group.isStale ? 'nonce-stale' : ''}" data-nonce="${group.nonce}">
+                <div class="nonce-group-header">
+                    <span class="nonce-label">Nonce ${group.nonce}</span>
+                    ${group.isNext ? '<span class="nonce-badge nonce-badge-next">Next</span>' : ''}
+                    ${group.isStale ? '<span class="nonce-badge nonce-badge-stale">Already used</span>' : ''}
+                    ${group.hasConflict ? `
+                        <span class="nonce-badge nonce-badge-conflict">
+                            ${group.transactions.length} conflicting proposals: only one can execute
+                        </span>
+                    ` : ''}
+                </div>
+                ${renderedCards.join('')}
+            </div>
+        `;
+    }
+
+    /**
+     * Render a single transaction card. The Safe's nonce decides whether it may be confirmed or executed
+     */
+    renderTransactionCard(transaction: PendingTransaction, safeNonce: number = Number(transaction?.nonce)): string {
+        // Add null checks for required fields
+        if (!transaction) {
+            console.warn('Invalid transaction data:', transaction);
+            return `
+                <div class="transaction-card fade-in">
+                    <div class="transaction-header">
+                        <div class="transaction-hash">Invalid Transaction</div>
+                        <div class="transaction-status status-error">Error</div>
+                    </div>
+                    <div class="transaction-details">
+                        <div class="detail-item">
+                            <div class="detail-label">Error</div>
+                            <div class="detail-value">Transaction data is incomplete</div>
+                        </div>
+                    </div>
+                </div>
+            `;
+        }
+
+        // Safely handle confirmations array
+        const confirmations = transaction.confirmations || [];
+        const confirmationsRequired = transaction.confirmationsRequired || 1;
+        const isConfirmed = confirmations.length >= confirmationsRequired;
+        
         // Check if current signer has already confirmed this transaction
-        const currentSignerAddress = this.config ? this.getSignerAddress(this.config.privateKey) : '';
+        const currentSignerAddress = this.signerAddress;
         const hasCurrentSignerConfirmed = confirmations.some(conf => 
             conf.owner.toLowerCase() === currentSignerAddress.toLowerCase()
         );
         
-        const canConfirm = !isConfirmed && !transaction.isExecuted && !hasCurrentSignerConfirmed;
+        const confirmBlocker = getConfirmationBlocker(transaction, safeNonce);
+        const executeBlocker = getExecutionBlocker(transaction, safeNonce);
+        const canConfirm = !isConfirmed && !transaction.isExecuted && !hasCurrentSignerConfirmed && !confirmBlocker;
         const canExecute = isConfirmed && !transaction.isExecuted;
+        const isRejectionTx = !!this.config && isRejection(transaction, this.config.safeAddress);
+        const canDelete = !!transaction.safeTxHash && isDeletable(transaction, currentSignerAddress);
+        const decoded = this.decodeTransaction(transaction);
 
         // Safely handle safeTxHash
         const safeTxHashDisplay = transaction.safeTxHash ?
@@ -689,9 +1384,10 @@ class SafeManager {
             'Unknown Hash';
 
         return `
-            <div class="transaction-card fade-in">
+            <div class="transaction-card fade-in" data-safe-tx-hash="${transaction.safeTxHash}">
                 <div class="transaction-header">
                     <div class="transaction-hash">${safeTxHashDisplay}</div>
+                    ${isRejectionTx ? '<div class="transaction-status status-rejection">Rejection</div>' : ''}
                     <div class="transaction-status ${transaction.isExecuted ? 'status-executed' : (isConfirmed ? 'status-confirmed' : 'status-pending')}">
                         ${transaction.isExecuted ? 'Executed' : (isConfirmed ? 'Ready to Execute' : 'Pending')}
                     </div>
@@ -703,7 +1399,7 @@ class SafeManager {
                         <div class="detail-value" title="${transaction.to || 'Unknown'}">${this.createTruncatedAddress(transaction.to || 'Unknown')}</div>
                     </div>
                     <div class="detail-item">
-                        <div class="detail-label">Value (ETH)</div>
+                        <div class="detail-label">Value (${this.getCurrencySymbol()})</div>
                         <div class="detail-value">${transaction.value ? (parseInt(transaction.value) / 1e18).toFixed(4) : '0.0000'}</div>
                     </div>
                     <div class="detail-item">
@@ -724,6 +1420,12 @@ class SafeManager {
                     </div>
                 </div>
                 
+                ${decoded ? this.renderDecodedCall(decoded, true) : ''}
+                ${this.renderSimulationResult(this.simulationResults.get(transaction.safeTxHash))}
+                ${confirmBlocker || (canExecute && executeBlocker) ? `
+                    <div class="nonce-blocker">${confirmBlocker || executeBlocker}</div>
+                ` : ''}
+                
                 <div class="transaction-actions">
                     ${canConfirm && transaction.safeTxHash ? `
                         <button class="btn btn-success" onclick="safeManager.confirmTransaction('${transaction.safeTxHash}')">
@@ -736,10 +1438,25 @@ class SafeManager {
                         </button>
                     ` : ''}
                     ${canExecute && transaction.safeTxHash ? `
-                        <button class="btn btn-execute" onclick="safeManager.executeTransaction('${transaction.safeTxHash}')">
+                        <button class="btn btn-execute" onclick="safeManager.executeTransaction('${transaction.safeTxHash}')" ${executeBlocker ? `disabled title="${executeBlocker}"` : ''}>
                             Execute Transaction
                         </button>
                     ` : ''}
+                    ${!isRejectionTx && !confirmBlocker && transaction.safeTxHash ? `
+                        <button class="btn btn-danger" onclick="safeManager.rejectTransaction('${transaction.safeTxHash}')">
+                            Reject
+                        </button>
+                    ` : ''}
+                    ${canDelete ? `
+                        <button class="btn btn-danger" onclick="safeManager.deleteTransaction('${transaction.safeTxHash}')">
+                            Delete
+                        </button>
+                    ` : ''}
+                    ${!transaction.isExecuted && transaction.safeTxHash ? `
+                        <button class="btn btn-secondary" onclick="safeManager.handleSimulateClick('${transaction.safeTxHash}')">
+                            Simulate
+                        </button>
+                    ` : ''}
                     <button class="btn btn-primary" onclick="safeManager.viewTransactionDetails('${transaction.safeTxHash || 'no-hash'}')">
                         View Details
                     </button>
@@ -749,299 +1466,1765 @@ class SafeManager {
     }
 
     /**
-     * Confirm a transaction
+     * Switch between the pending queue, the history, the messages and the assets
      */
-    async confirmTransaction(safeTxHash: string): Promise<void> {
-        if (!this.config) return;
+    showView(view: 'pending' | 'history' | 'messages' | 'assets'): void {
+        document.querySelectorAll<HTMLElement>('[data-view]').forEach(tab => {
+            tab.classList.toggle('active', tab.dataset.view === view);
+        });
+        document.getElementById('transactionsSection')?.classList.toggle('hidden', view !== 'pending');
+        document.getElementById('historySection')?.classList.toggle('hidden', view !== 'history');
+        document.getElementById('messagesSection')?.classList.toggle('hidden', view !== 'messages');
+        document.getElementById('assetsSection')?.classList.toggle('hidden', view !== 'assets');
+
+        if (view === 'history' && this.historyTransactions.length === 0) {
+            this.loadHistory();
+        }
+        if (view === 'messages') {
+            this.refreshMessages();
+        }
+        if (view === 'assets') {
+            this.refreshAssets();
+        }
+    }
+
+    /**
+     * Clear loaded history, e.g. when switching profiles
+     */
+    resetHistory(): void {
+        this.historyRequest++;
+        this.historyTransactions = [];
+        this.historyNext = null;
+
+        const container = document.getElementById('historyContainer');
+        if (container) {
+            container.innerHTML = `
+                <div class="no-transactions">
+                    <p>No history loaded</p>
+                </div>
+            `;
+        }
+        document.getElementById('historyLoadMore')?.classList.add('hidden');
+    }
+
+    /**
+     * Load the first history page, or the next one when `reset` is false
+     */
+    async loadHistory(reset: boolean = true): Promise<void> {
+        if (!this.config || !this.config.safeAddress) {
+            this.showError('Please configure and connect to Safe first');
+            return;
+        }
+
+        if (!this.config.txServiceUrl) {
+            this.showError('History requires a Transaction Service URL');
+            return;
+        }
+
+        const kind = ((document.getElementById('historyKind') as HTMLSelectElement)?.value || 'multisig') as HistoryKind;
+        const container = document.getElementById('historyContainer');
+        const loadMoreBtn = document.getElementById('historyLoadMore') as HTMLButtonElement;
+        if (!container) return;
+
+        const request = ++this.historyRequest;
+        if (reset) {
+            this.historyTransactions = [];
+            this.historyNext = null;
+            container.innerHTML = '';
+        }
 
         try {
-            this.showTransactionsLoading(true, 'Confirming transaction...');
+            if (loadMoreBtn) loadMoreBtn.disabled = true;
 
-            if (this.safeClient) {
-                const result = await this.safeClient.confirm({ safeTxHash: safeTxHash });
-            } else {
-                await this.confirmTransactionFallback(safeTxHash);
+            const page = await fetchHistoryPage(this.config.txServiceUrl, this.config.safeAddress, kind, reset ? null : this.historyNext);
+            if (request !== this.historyRequest) {
+                return;
             }
+            this.historyNext = page.next;
 
-            this.showSuccess('Transaction confirmed successfully');
-            await this.refreshPendingTransactions();
-            
-        } catch (error) {
-            console.error('Failed to confirm transaction:', error);
-            this.showError('Failed to confirm transaction');
+            if (kind === 'multisig') {
+                this.historyTransactions.push(...(page.results as PendingTransaction[]));
+            }
+
+            const cards = page.results.map(item => {
+                switch (kind) {
+                    case 'multisig':
+                        return this.renderExecutedTransactionCard(item as PendingTransaction);
+                    case 'incoming':
+                        return this.renderIncomingTransferCard(item as IncomingTransfer);
+                    case 'module':
+                        return this.renderModuleTransactionCard(item as ModuleTransaction);
+                }
+            });
+            container.insertAdjacentHTML('beforeend', cards.join(''));
+
+            if (container.children.length === 0) {
+                container.innerHTML = `
+                    <div class="no-transactions">
+                        <div class="no-transactions-icon">📋</div>
+                        <h3>No History</h3>
+                        <p>This Safe has no transactions of this kind yet</p>
+                    </div>
+                `;
+            }
+        } catch (error: any) {
+            if (request !== this.historyRequest) {
+                return;
+            }
+            console.error('Failed to load history:', error);
+            this.showError(`Failed to load history: ${error.message}`);
         } finally {
-            this.showTransactionsLoading(false);
+            if (loadMoreBtn && request === this.historyRequest) {
+                loadMoreBtn.disabled = false;
+                loadMoreBtn.classList.toggle('hidden', !this.historyNext);
+            }
         }
     }
 
     /**
-     * Fallback method to confirm transaction
+     * Render an executed multisig transaction
      */
-    async confirmTransactionFallback(safeTxHash: string): Promise<void> {
-        if (!this.config) return;
+    renderExecutedTransactionCard(transaction: PendingTransaction): string {
+        const statusClass = transaction.isSuccessful === false ? 'status-pending' : 'status-executed';
+        const statusText = transaction.isSuccessful === false ? 'Failed' : 'Executed';
 
-        const signature = await this.generateSignature(safeTxHash);
-        const url = `${this.config.txServiceUrl}/api/v2/multisig-transactions/${safeTxHash}/confirmations/`;
-        const response = await fetch(url, {
-            method: 'POST',
-            headers: {
-                'Content-Type': 'application/json',
-            },
-            body: JSON.stringify({
-                signature: signature
-            })
-        });
+        return `
+            <div class="transaction-card fade-in">
+                <div class="transaction-header">
+                    <div class="transaction-hash">Nonce ${transaction.nonce}</div>
+                    <div class="transaction-status ${statusClass}">${statusText}</div>
+                </div>
+                
+                <div class="transaction-details">
+                    <div class="detail-item">
+                        <div class="detail-label">To Address</div>
+                        <div class="detail-value">${this.renderExplorerLink(transaction.to, 'address')}</div>
+                    </div>
+                    <div class="detail-item">
+                        <div class="detail-label">Value (${this.getCurrencySymbol()})</div>
+                        <div class="detail-value">${formatEther(BigInt(transaction.value || 0))}</div>
+                    </div>
+                    <div class="detail-item">
+                        <div class="detail-label">Executor</div>
+                        <div class="detail-value">${this.renderExplorerLink(transaction.executor, 'address')}</div>
+                    </div>
+                    <div class="detail-item">
+                        <div class="detail-label">Gas Used</div>
+                        <div class="detail-value">${transaction.gasUsed ?? 'N/A'}</div>
+                    </div>
+                    <div class="detail-item">
+                        <div class="detail-label">Fee (${this.getCurrencySymbol()})</div>
+                        <div class="detail-value">${transaction.fee ? formatEther(BigInt(transaction.fee)) : 'N/A'}</div>
+                    </div>
+                    <div class="detail-item">
+                        <div class="detail-label">Executed</div>
+                        <div class="detail-value">${transaction.executionDate ? new Date(transaction.executionDate).toLocaleString() : 'Unknown'}</div>
+                    </div>
+                    <div class="detail-item">
+                        <div class="detail-label">Transaction</div>
+                        <div class="detail-value">${this.renderExplorerLink(transaction.transactionHash, 'tx')}</div>
+                    </div>
+                </div>
+                
+                <div class="transaction-actions">
+                    <button class="btn btn-primary" onclick="safeManager.viewTransactionDetails('${transaction.safeTxHash}')">
+                        View Details
+                    </button>
+                </div>
+            </div>
+        `;
+    }
 
-        if (!response.ok) {
-            const errorText = await response.text();
-            console.error('Response error text:', errorText);
-            throw new Error(`Failed to confirm transaction: ${response.statusText} - ${errorText}`);
+    /**
+     * Render an incoming native, ERC-20 or ERC-721 transfer
+     */
+    renderIncomingTransferCard(transfer: IncomingTransfer): string {
+        let amount: string;
+        if (transfer.type === 'ETHER_TRANSFER') {
+            amount = `${formatEther(BigInt(transfer.value || 0))} ${this.getCurrencySymbol()}`;
+        } else if (transfer.type === 'ERC721_TRANSFER') {
+            amount = `${this.escapeHtml(transfer.tokenInfo?.symbol || 'NFT')} #${this.escapeHtml(transfer.tokenId ?? '')}`;
+        } else {
+            const decimals = transfer.tokenInfo?.decimals ?? 0;
+            amount = `${formatUnits(BigInt(transfer.value || 0), decimals)} ${this.escapeHtml(transfer.tokenInfo?.symbol || '')}`;
         }
+
+        return `
+            <div class="transaction-card fade-in">
+                <div class="transaction-header">
+                    <div class="transaction-hash">${amount}</div>
+                    <div class="transaction-status status-confirmed">Received</div>
+                </div>
+                
+                <div class="transaction-details">
+                    <div class="detail-item">
+                        <div class="detail-label">From</div>
+                        <div class="detail-value">${this.renderExplorerLink(transfer.from, 'address')}</div>
+                    </div>
+                    ${transfer.tokenAddress ? `
+                        <div class="detail-item">
+                            <div class="detail-label">Token</div>
+                            <div class="detail-value">${this.renderExplorerLink(transfer.tokenAddress, 'address')}</div>
+                        </div>
+                    ` : ''}
+                    <div class="detail-item">
+                        <div class="detail-label">Received</div>
+                        <div class="detail-value">${new Date(transfer.executionDate).toLocaleString()}</div>
+                    </div>
+                    <div class="detail-item">
+                        <div class="detail-label">Transaction</div>
+                        <div class="detail-value">${this.renderExplorerLink(transfer.transactionHash, 'tx')}</div>
+                    </div>
+                </div>
+            </div>
+        `;
     }
 
     /**
-     * Execute a transaction
+     * Render a transaction executed by a module
      */
-    async executeTransaction(safeTxHash: string): Promise<void> {
-        if (!this.config) return;
+    renderModuleTransactionCard(transaction: ModuleTransaction): string {
+        return `
+            <div class="transaction-card fade-in">
+                <div class="transaction-header">
+                    <div class="transaction-hash">Module ${this.createTruncatedAddress(transaction.module)}</div>
+                    <div class="transaction-status ${transaction.isSuccessful ? 'status-executed' : 'status-pending'}">
+                        ${transaction.isSuccessful ? 'Executed' : 'Failed'}
+                    </div>
+                </div>
+                
+                <div class="transaction-details">
+                    <div class="detail-item">
+                        <div class="detail-label">Module</div>
+                        <div class="detail-value">${this.renderExplorerLink(transaction.module, 'address')}</div>
+                    </div>
+                    <div class="detail-item">
+                        <div class="detail-label">To Address</div>
+                        <div class="detail-value">${this.renderExplorerLink(transaction.to, 'address')}</div>
+                    </div>
+                    <div class="detail-item">
+                        <div class="detail-label">Value (${this.getCurrencySymbol()})</div>
+                        <div class="detail-value">${formatEther(BigInt(transaction.value || 0))}</div>
+                    </div>
+                    <div class="detail-item">
+                        <div class="detail-label">Operation</div>
+                        <div class="detail-value">${transaction.operation === 1 ? 'DelegateCall' : 'Call'}</div>
+                    </div>
+                    <div class="detail-item">
+                        <div class="detail-label">Executed</div>
+                        <div class="detail-value">${new Date(transaction.executionDate).toLocaleString()}</div>
+                    </div>
+                    <div class="detail-item">
+                        <div class="detail-label">Transaction</div>
+                        <div class="detail-value">${this.renderExplorerLink(transaction.transactionHash, 'tx')}</div>
+                    </div>
+                </div>
+            </div>
+        `;
+    }
 
-        try {
-            this.showTransactionsLoading(true, 'Executing transaction...');
+    /**
+     * Simulate executing a pending transaction and keep the result for its card
+     */
+    async simulateTransaction(safeTxHash: string): Promise<SimulationResult> {
+        if (!this.config || !this.safeInfo) {
+            throw new Error('Please configure and connect to Safe first');
+        }
 
-            if (this.safeClient) {
-                // Use Safe SDK - execute via protocolKit
-                const pendingTransactions = await this.safeClient.getPendingTransactions();
-                const transaction = pendingTransactions.results.find((tx: any) => tx.safeTxHash === safeTxHash);
-                if (transaction) {
-                    const result = await this.safeClient.protocolKit.executeTransaction(transaction);
-                } else {
-                    throw new Error('Transaction not found');
-                }
+        const transaction = this.pendingTransactions.find(tx => tx.safeTxHash === safeTxHash);
+        if (!transaction) {
+            throw new Error('Transaction not found');
+        }
+
+        const result = await simulateSafeTransaction({
+            rpcUrl: this.config.rpcUrl,
+            safeAddress: this.config.safeAddress,
+            transaction,
+            owners: this.safeInfo.owners,
+            threshold: this.safeInfo.threshold,
+            nonce: this.safeInfo.nonce,
+            executor: this.signerAddress || this.safeInfo.owners[0]
+        });
+
+        this.simulationResults.set(safeTxHash, result);
+        this.patchPendingTransactions(this.pendingTransactions, { added: [], removed: [], changed: [transaction] });
+        return result;
+    }
+
+    /**
+     * Handle the Simulate button of a transaction card
+     */
+    async handleSimulateClick(safeTxHash: string): Promise<void> {
+        try {
+            this.showTransactionsLoading(true, 'Simulating transaction...');
+            const result = await this.simulateTransaction(safeTxHash);
+            if (result.success) {
+                this.showSuccess('Simulation succeeded');
             } else {
-                // Fallback to direct contract interaction
-                await this.executeTransactionFallback(safeTxHash);
+                this.showError(`Simulation failed: ${result.revertReason || 'unknown reason'}`);
             }
-
-            this.showSuccess('Transaction executed successfully');
-            await this.refreshPendingTransactions();
-            
-        } catch (error) {
-            console.error('Failed to execute transaction:', error);
-            this.showError('Failed to execute transaction');
+        } catch (error: any) {
+            console.error('Failed to simulate transaction:', error);
+            this.showError(`Failed to simulate transaction: ${error.message}`);
         } finally {
             this.showTransactionsLoading(false);
         }
     }
 
     /**
-     * Fallback method to execute transaction
+     * Simulate before confirming or executing; returns false when the user cancels after a failure
      */
-    async executeTransactionFallback(safeTxHash: string): Promise<void> {
-        // This would require more complex implementation
-        // For now, just show a message
-        throw new Error('Direct execution not implemented in fallback mode');
+    async runPreflightSimulation(safeTxHash: string, action: 'confirm' | 'execute'): Promise<boolean> {
+        try {
+            this.showTransactionsLoading(true, 'Simulating transaction...');
+            const result = await this.simulateTransaction(safeTxHash);
+            if (result.success) {
+                return true;
+            }
+            return confirm(`Simulation failed: ${result.revertReason || 'unknown reason'}\n\n${action === 'confirm' ? 'Confirm' : 'Execute'} anyway?`);
+        } catch (error: any) {
+            console.warn('Simulation unavailable:', error);
+            return confirm(`Could not simulate the transaction: ${error.message}\n\n${action === 'confirm' ? 'Confirm' : 'Execute'} anyway?`);
+        } finally {
+            this.showTransactionsLoading(false);
+        }
     }
 
     /**
-     * Generate signature for a transaction
+     * Render a simulation result: outcome, revert reason and gas estimate
      */
-    async generateSignature(safeTxHash: string): Promise<string> {
-        if (!this.config) {
-            throw new Error('Configuration not loaded');
+    renderSimulationResult(result: SimulationResult | undefined): string {
+        if (!result) {
+            return '';
         }
 
-        // Wait for ethers to be available
-        while (!window.ethers) {
-            await new Promise(resolve => setTimeout(resolve, 100));
-        }
+        const notes = [
+            result.thresholdOverridden ? 'threshold overridden for missing signatures' : '',
+            result.mode === 'innerCall' ? 'inner call only, node lacks state overrides' : ''
+        ].filter(Boolean).join('; ');
 
-        const wallet = new window.ethers.Wallet(this.config.privateKey);
-        const signature = await wallet.signMessage(window.ethers.utils.arrayify(safeTxHash));
-        
-        return signature;
+        return `
+            <div class="simulation-result ${result.success ? 'simulation-success' : 'simulation-failure'}">
+                <strong>Simulation: ${result.success ? 'Success' : 'Failure'}</strong>
+                ${result.revertReason ? `<div>Reason: ${this.escapeHtml(result.revertReason)}</div>` : ''}
+                <div>Estimated gas: ${result.gasEstimate !== null ? result.gasEstimate.toString() : 'N/A'}</div>
+                ${notes ? `<div class="form-help">${notes}</div>` : ''}
+            </div>
+        `;
     }
 
-
-
     /**
-     * Parse Contract ABI and populate method dropdown
+     * Load the Safe's messages from the Transaction Service
      */
-    parseContractAbi(): void {
-        const abiTextarea = document.getElementById('proposeContractAbi') as HTMLTextAreaElement;
-        const methodSelect = document.getElementById('proposeMethodName') as HTMLSelectElement;
-        const paramsTextarea = document.getElementById('proposeMethodParams') as HTMLTextAreaElement;
-        
-        if (!abiTextarea || !methodSelect || !paramsTextarea) {
-            console.error('Required elements not found');
+    async refreshMessages(): Promise<void> {
+        if (!this.config || !this.config.safeAddress) {
+            this.showError('Please configure and connect to Safe first');
             return;
         }
-        
+
+        if (!this.config.txServiceUrl) {
+            this.showError('Messages require a Transaction Service URL');
+            return;
+        }
+
         try {
-            // Clear existing options
-            methodSelect.innerHTML = '<option value="">Select a method...</option>';
-            paramsTextarea.value = '';
-            
-            const abiText = abiTextarea.value.trim();
-            if (!abiText) {
-                console.log('ABI text is empty');
-                return;
-            }
-            
-            let abi: any[];
-            let functions: any[];
-            
-            try {
-                // First try to parse as JSON
-                abi = JSON.parse(abiText);
-                
-                // Check if it's a simplified format (array of strings) or full ABI format
-                if (abi.length > 0 && typeof abi[0] === 'string') {
-                    // Simplified format - use viem's parseAbi
-                    const parsedAbi = parseAbi(abi);
-                    
-                    // Extract functions from parsed ABI
-                    functions = parsedAbi.filter((item: any) => 
-                        item.type === 'function' && 
-                        item.stateMutability !== 'view' && 
-                        item.stateMutability !== 'pure'
-                    );
-                } else {
-                    // Full JSON ABI format
-                    functions = abi.filter((item: any) => 
-                        item.type === 'function' && 
-                        item.stateMutability !== 'view' && 
-                        item.stateMutability !== 'pure'
-                    );
-                }
-            } catch (parseError) {
-                console.error('Failed to parse ABI with viem:', parseError);
-                throw parseError;
-            }
-            
-            console.log('Filtered functions:', functions);
-            
-            if (functions.length === 0) {
-                const option = document.createElement('option');
-                option.value = '';
-                option.textContent = 'No writable functions found';
-                option.disabled = true;
-                methodSelect.appendChild(option);
-                return;
-            }
-            
-            // Populate method dropdown
-            functions.forEach((func: any) => {
-                const option = document.createElement('option');
-                option.value = func.name;
-                option.textContent = func.name;
-                option.setAttribute('data-inputs', JSON.stringify(func.inputs || []));
-                methodSelect.appendChild(option);
-            });
-            
-        } catch (error) {
-            console.error('Failed to parse ABI:', error);
-            // Don't show error for incomplete JSON while typing
-            if (abiTextarea.value.trim().length > 10) {
-                this.showError('Invalid ABI format. Please check your JSON syntax.');
+            this.safeMessages = await fetchSafeMessages(this.config.txServiceUrl, this.config.safeAddress);
+            this.renderMessages();
+        } catch (error: any) {
+            console.error('Failed to load messages:', error);
+            this.showError(`Failed to load messages: ${error.message}`);
+        }
+    }
+
+    /**
+     * Render the message cards
+     */
+    renderMessages(): void {
+        const container = document.getElementById('messagesContainer');
+        if (!container) return;
+
+        if (this.safeMessages.length === 0) {
+            container.innerHTML = `
+                <div class="no-transactions">
+                    <div class="no-transactions-icon">✉️</div>
+                    <h3>No Messages</h3>
+                    <p>Messages signed by this Safe will appear here</p>
+                </div>
+            `;
+            return;
+        }
+
+        container.innerHTML = this.safeMessages.map(message => this.renderMessageCard(message)).join('');
+    }
+
+    /**
+     * Render a message with its confirmation progress and combined signature
+     */
+    renderMessageCard(message: SafeMessageRecord): string {
+        const confirmations = message.confirmations || [];
+        const threshold = this.safeInfo?.threshold || 1;
+        const isComplete = confirmations.length >= threshold;
+        const hasSigned = confirmations.some(conf => conf.owner.toLowerCase() === this.signerAddress.toLowerCase());
+        const isOwner = this.safeInfo?.owners.some(owner => owner.toLowerCase() === this.signerAddress.toLowerCase());
+        const content = typeof message.message === 'string'
+            ? message.message
+            : JSON.stringify(message.message, null, 2);
+        const signature = isComplete ? (message.preparedSignature || combineMessageSignatures(confirmations)) : null;
+
+        return `
+            <div class="transaction-card fade-in">
+                <div class="transaction-header">
+                    <div class="transaction-hash" title="${message.messageHash}">${message.messageHash.slice(0, 10)}...${message.messageHash.slice(-8)}</div>
+                    <div class="transaction-status ${isComplete ? 'status-confirmed' : 'status-pending'}">
+                        ${isComplete ? 'Signed' : 'Collecting Signatures'}
+                    </div>
+                </div>
+
+                <div class="message-kind">${typeof message.message === 'string' ? 'Message (EIP-191)' : `Typed Data (EIP-712): ${this.escapeHtml(String(message.message.primaryType))}`}</div>
+                <pre class="message-content">${this.escapeHtml(content)}</pre>
+
+                <div class="message-confirmations">
+                    <div style="margin-bottom: 8px;">
+                        <strong>Progress: ${confirmations.length}/${threshold} signatures</strong>
+                    </div>
+                    ${confirmations.map(conf => `
+                        <div class="confirmation-item">
+                            <span class="confirmation-address" title="${conf.owner}">${this.createTruncatedAddress(conf.owner)}</span>
+                            <span class="confirmation-status confirmed">Signed</span>
+                        </div>
+                    `).join('')}
+                    ${this.renderPendingConfirmations(confirmations, threshold)}
+                </div>
+
+                ${signature ? `
+                    <div class="form-group">
+                        <label>Combined Signature:</label>
+                        <textarea class="message-signature" rows="3" readonly>${this.escapeHtml(signature)}</textarea>
+                    </div>
+                ` : ''}
+
+                <div class="transaction-actions">
+                    ${!isComplete && isOwner && !hasSigned ? `
+                        <button class="btn btn-success" onclick="safeManager.signMessage('${message.messageHash}')">
+                            Sign Message
+                        </button>
+                    ` : ''}
+                    ${signature ? `
+                        <button class="btn btn-primary" onclick="safeManager.verifyMessage('${message.messageHash}')">
+                            Verify On-chain
+                        </button>
+                    ` : ''}
+                </div>
+            </div>
+        `;
+    }
+
+    /**
+     * Sign a message as a SafeMessage with the configured signer
+     */
+    async signSafeMessage(message: SafeMessageContent): Promise<{ messageHash: string; signature: string }> {
+        if (!this.config) {
+            throw new Error('Configuration not loaded');
+        }
+
+        const signer = await this.core.initializeSigner();
+        const safeVersion = this.safeInfo?.version || await this.core.readSafeVersion(this.config.safeAddress);
+        const typedData = buildSafeMessageTypedData(this.config.chainId, this.config.safeAddress, safeVersion, hashMessageContent(message));
+
+        return {
+            messageHash: calculateSafeMessageHash(this.config.chainId, this.config.safeAddress, safeVersion, message),
+            signature: await signer.signTypedData(typedData)
+        };
+    }
+
+    /**
+     * Add the signer's signature to an existing message
+     */
+    async signMessage(messageHash: string): Promise<void> {
+        if (!this.config) return;
+
+        const message = this.safeMessages.find(item => item.messageHash === messageHash);
+        if (!message) {
+            this.showError('Message not found');
+            return;
+        }
+
+        try {
+            const signed = await this.signSafeMessage(message.message);
+            if (signed.messageHash.toLowerCase() !== messageHash.toLowerCase()) {
+                throw new Error(`Computed message hash ${signed.messageHash} does not match ${messageHash}`);
             }
+
+            await confirmSafeMessage(this.config.txServiceUrl, messageHash, signed.signature);
+            this.showSuccess('Message signed successfully');
+            await this.refreshMessages();
+        } catch (error: any) {
+            console.error('Failed to sign message:', error);
+            this.showError(`Failed to sign message: ${error.message}`);
         }
     }
 
     /**
-     * Generate method parameters example based on selected method
+     * Check the combined signature with the Safe's isValidSignature
      */
-    generateMethodParameters(): void {
-        const methodSelect = document.getElementById('proposeMethodName') as HTMLSelectElement;
-        const paramsTextarea = document.getElementById('proposeMethodParams') as HTMLTextAreaElement;
-        
-        if (!methodSelect || !paramsTextarea) return;
-        
-        const selectedOption = methodSelect.selectedOptions[0];
-        if (!selectedOption || !selectedOption.value) {
-            paramsTextarea.value = '';
+    async verifyMessage(messageHash: string): Promise<void> {
+        if (!this.config) return;
+
+        const message = this.safeMessages.find(item => item.messageHash === messageHash);
+        if (!message) {
+            this.showError('Message not found');
             return;
         }
-        
+
         try {
-            const inputs = JSON.parse(selectedOption.getAttribute('data-inputs') || '[]');
-            
-            if (inputs.length === 0) {
-                paramsTextarea.value = '[]';
-                return;
+            const signature = message.preparedSignature || combineMessageSignatures(message.confirmations);
+            const isValid = await verifySafeMessageSignature(this.config.rpcUrl, this.config.safeAddress, message.message, signature);
+            if (isValid) {
+                this.showSuccess('isValidSignature returned the EIP-1271 magic value');
+            } else {
+                this.showError('The Safe rejected the signature (isValidSignature)');
             }
-            
-            // Generate example parameters based on type
-            const exampleParams = inputs.map((input: any) => {
-                return this.generateExampleValue(input.type, input.name);
-            });
-            
-            paramsTextarea.value = JSON.stringify(exampleParams, null, 2);
-            
-        } catch (error) {
-            console.error('Failed to generate parameters:', error);
-            paramsTextarea.value = '[]';
+        } catch (error: any) {
+            console.error('Failed to verify message:', error);
+            this.showError(`Failed to verify message: ${error.message}`);
         }
     }
 
     /**
-     * Generate example value based on Solidity type
+     * Open new message modal
      */
-    private generateExampleValue(type: string, name: string): any {
-        // Handle array types
-        if (type.includes('[]')) {
-            const baseType = type.replace('[]', '');
-            return [this.generateExampleValue(baseType, name)];
+    openMessageModal(): void {
+        if (!this.safeInfo) {
+            this.showError('Please connect to a Safe first');
+            return;
         }
-        
-        // Handle specific types
-        if (type.startsWith('uint') || type.startsWith('int')) {
-            return name.toLowerCase().includes('amount') || name.toLowerCase().includes('value') ? 
-                "10000" : "1"; // 1 ETH in wei for amounts, 1 for others
+
+        const modal = document.getElementById('messageModal');
+        if (modal) {
+            modal.classList.remove('hidden');
         }
-        
-        if (type === 'address') {
-            return "0x4739680F1A3F6aE7E0036979E6A81D76Fd2EE6e3";
+    }
+
+    /**
+     * Close new message modal
+     */
+    closeMessageModal(): void {
+        const modal = document.getElementById('messageModal');
+        if (modal) {
+            modal.classList.add('hidden');
         }
-        
-        if (type === 'bool') {
-            return true;
+        // Reset form
+        const form = document.getElementById('messageForm') as HTMLFormElement;
+        if (form) {
+            form.reset();
         }
-        
-        if (type === 'string') {
-            return `example_${name}`;
+    }
+
+    /**
+     * Handle new message form submission: sign and create the message on the service
+     */
+    async handleMessageSubmit(event: Event): Promise<void> {
+        event.preventDefault();
+
+        if (!this.config) {
+            this.showError('Please configure and connect to Safe first');
+            return;
         }
-        
-        if (type.startsWith('bytes')) {
-            return "0x1234567890abcdef";
+
+        let message: SafeMessageContent;
+        try {
+            message = parseMessageInput((document.getElementById('messageInput') as HTMLTextAreaElement).value);
+            hashMessageContent(message);
+        } catch (error: any) {
+            this.showError(`Invalid message: ${error.message}`);
+            return;
+        }
+
+        try {
+            const signed = await this.signSafeMessage(message);
+            await proposeSafeMessage(this.config.txServiceUrl, this.config.safeAddress, message, signed.signature);
+
+            this.showSuccess('Message created successfully');
+            this.closeMessageModal();
+            await this.refreshMessages();
+        } catch (error: any) {
+            console.error('Failed to create message:', error);
+            this.showError(`Failed to create message: ${error.message}`);
         }
-        
-        // Default fallback
-        return `<${type}>`;
     }
 
     /**
-     * Open propose transaction modal
+     * Open Transaction Builder import modal
      */
-    openProposeModal(): void {
-        const modal = document.getElementById('proposeModal');
+    openImportBatchModal(): void {
+        if (!this.safeInfo) {
+            this.showError('Please connect to a Safe first');
+            return;
+        }
+
+        const modal = document.getElementById('importBatchModal');
         if (modal) {
             modal.classList.remove('hidden');
         }
     }
 
     /**
-     * Close propose transaction modal
+     * Close Transaction Builder import modal
      */
-    closeProposeModal(): void {
-        const modal = document.getElementById('proposeModal');
+    closeImportBatchModal(): void {
+        const modal = document.getElementById('importBatchModal');
         if (modal) {
             modal.classList.add('hidden');
         }
         // Reset form
-        const form = document.getElementById('proposeForm') as HTMLFormElement;
+        const form = document.getElementById('importBatchForm') as HTMLFormElement;
         if (form) {
             form.reset();
         }
+        const preview = document.getElementById('importBatchPreview');
+        if (preview) {
+            preview.innerHTML = '';
+        }
+        this.importedBatch = null;
+    }
+
+    /**
+     * Parse the selected batch file and preview its decoded calls
+     */
+    async loadBatchFile(): Promise<void> {
+        const input = document.getElementById('importBatchFile') as HTMLInputElement;
+        const preview = document.getElementById('importBatchPreview');
+        const file = input?.files?.[0];
+        this.importedBatch = null;
+        if (!file || !preview || !this.config) return;
+
+        try {
+            this.importedBatch = parseBatchFile(await file.text(), this.config.chainId);
+            preview.innerHTML = this.renderImportedBatch(this.importedBatch);
+        } catch (error: any) {
+            preview.innerHTML = '';
+            this.showError(`Failed to import batch: ${error.message}`);
+        }
+    }
+
+    /**
+     * Render the name, checksum status and decoded calls of an imported batch
+     */
+    renderImportedBatch(imported: ImportedBatch): string {
+        const { batch, calls, checksumValid } = imported;
+
+        return `
+            <div class="batch-preview-header">
+                <strong>${this.escapeHtml(batch.meta?.name || 'Unnamed batch')}</strong>
+                ${batch.meta?.description ? `<div>${this.escapeHtml(batch.meta.description)}</div>` : ''}
+                ${checksumValid === false ? `
+                    <div class="setting-warning">The checksum does not match: the file was modified after it was exported</div>
+                ` : ''}
+            </div>
+            ${calls.map(({ call, abi }, index) => {
+                const decoded = decodeTransactionData({ to: call.to, data: call.data, abi: abi ? [abi] : null }, this.config?.chainId || DEFAULT_CHAIN_ID, this.abiStore);
+                return `
+                    <div class="batched-call">
+                        <div><strong>#${index + 1}</strong> Call to <span title="${call.to}">${this.renderExplorerLink(call.to, 'address')}</span>${BigInt(call.value) > 0n ? `, ${formatEther(BigInt(call.value))} ${this.getCurrencySymbol()}` : ''}</div>
+                        ${decoded
+                            ? this.renderDecodedCall(decoded)
+                            : call.data !== '0x' ? `<div class="hash">${call.data}</div>` : ''}
+                    </div>
+                `;
+            }).join('')}
+        `;
+    }
+
+    /**
+     * Propose the imported batch
+     */
+    async handleImportBatchSubmit(event: Event): Promise<void> {
+        event.preventDefault();
+
+        if (!this.importedBatch) {
+            this.showError('Please select a Transaction Builder file');
+            return;
+        }
+
+        try {
+            this.showImportBatchLoading(true, 'Proposing batch...');
+
+            // Batch files only contain calls, so they always fit MultiSendCallOnly
+            await this.core.proposeTransaction({
+                calls: this.importedBatch.calls.map(({ call }) => call),
+                batchMode: 'callOnly'
+            });
+
+            this.showSuccess('Batch proposed successfully');
+            this.closeImportBatchModal();
+            await this.refreshPendingTransactions();
+        } catch (error: any) {
+            console.error('Failed to propose batch:', error);
+            this.showError(`Failed to propose batch: ${error.message}`);
+        } finally {
+            this.showImportBatchLoading(false);
+        }
+    }
+
+    /**
+     * Download a pending or executed transaction as a Transaction Builder file
+     */
+    exportTransaction(safeTxHash: string): void {
+        if (!this.config) return;
+
+        const transaction = this.pendingTransactions.find(tx => tx.safeTxHash === safeTxHash)
+            || this.historyTransactions.find(tx => tx.safeTxHash === safeTxHash);
+        if (!transaction) {
+            this.showError('Transaction not found');
+            return;
+        }
+
+        try {
+            const calls = transactionToBatchCalls({
+                to: transaction.to,
+                value: transaction.value || '0',
+                data: transaction.data || '0x',
+                operation: transaction.operation || 0
+            }, this.decodeTransaction(transaction));
+
+            const batch = buildBatchFile(calls, {
+                chainId: this.config.chainId,
+                safeAddress: this.config.safeAddress,
+                ownerAddress: this.signerAddress,
+                name: `Safe transaction ${transaction.nonce}`,
+                description: safeTxHash
+            });
+
+            const url = URL.createObjectURL(new Blob([JSON.stringify(batch, null, 2)], { type: 'application/json' }));
+            const link = document.createElement('a');
+            link.href = url;
+            link.download = `safe-tx-${transaction.nonce}-${safeTxHash.slice(0, 10)}.json`;
+            link.click();
+            URL.revokeObjectURL(url);
+        } catch (error: any) {
+            console.error('Failed to export transaction:', error);
+            this.showError(`Failed to export transaction: ${error.message}`);
+        }
+    }
+
+    /**
+     * Open queue dry-run modal
+     */
+    openDryRunModal(): void {
+        const results = document.getElementById('dryRunResults');
+        if (results) {
+            results.innerHTML = '';
+        }
+
+        const modal = document.getElementById('dryRunModal');
+        if (modal) {
+            modal.classList.remove('hidden');
+        }
+    }
+
+    /**
+     * Close queue dry-run modal
+     */
+    closeDryRunModal(): void {
+        const modal = document.getElementById('dryRunModal');
+        if (modal) {
+            modal.classList.add('hidden');
+        }
+    }
+
+    /**
+     * Handle queue dry-run form submission
+     */
+    async handleDryRunSubmit(event: Event): Promise<void> {
+        event.preventDefault();
+
+        if (!this.config || !this.safeInfo) {
+            this.showError('Please configure and connect to Safe first');
+            return;
+        }
+
+        if (this.pendingTransactions.length === 0) {
+            this.showError('There are no pending transactions to dry-run');
+            return;
+        }
+
+        const forkRpcUrl = (document.getElementById('dryRunRpcUrl') as HTMLInputElement).value.trim();
+        const results = document.getElementById('dryRunResults');
+
+        try {
+            this.showDryRunLoading(true, 'Forking the configured RPC...');
+            this.pauseAutoRefresh();
+
+            const report = await runQueueDryRun({
+                forkRpcUrl,
+                upstreamRpcUrl: this.config.rpcUrl,
+                safeAddress: this.config.safeAddress,
+                transactions: this.pendingTransactions,
+                onProgress: (message) => this.showDryRunLoading(true, message)
+            }, this.getCurrencySymbol());
+
+            if (results) {
+                results.innerHTML = this.renderDryRunReport(report);
+            }
+        } catch (error: any) {
+            console.error('Queue dry-run failed:', error);
+            this.showError(`Queue dry-run failed: ${error.shortMessage || error.message}`);
+        } finally {
+            this.showDryRunLoading(false);
+            this.resumeAutoRefresh();
+        }
+    }
+
+    /**
+     * Render the outcome, events and balance changes of each dry-run step
+     */
+    renderDryRunReport(report: DryRunReport): string {
+        const statusClass: Record<string, string> = {
+            success: 'status-confirmed',
+            failed: 'status-pending',
+            reverted: 'status-pending',
+            skipped: 'status-executed'
+        };
+
+        const steps = report.steps.map(step => `
+            <div class="transaction-card dry-run-step">
+                <div class="transaction-header">
+                    <div class="transaction-hash">Nonce ${step.nonce} · ${step.safeTxHash.slice(0, 10)}...${step.safeTxHash.slice(-8)}</div>
+                    <div class="transaction-status ${statusClass[step.status]}">${step.status}</div>
+                </div>
+                ${step.reason ? `<div class="dry-run-reason">${this.escapeHtml(step.reason)}</div>` : ''}
+                ${step.gasUsed !== null ? `<div>Gas used: ${step.gasUsed.toString()}</div>` : ''}
+                ${step.balanceChanges.length > 0 ? `
+                    <div class="dry-run-subtitle">Balance changes</div>
+                    ${this.renderBalanceChanges(step.balanceChanges)}
+                ` : ''}
+                ${step.events.length > 0 ? `
+                    <div class="dry-run-subtitle">Events</div>
+                    ${step.events.map(event => `
+                        <div class="dry-run-event">
+                            <strong>${this.escapeHtml(event.name)}</strong>
+                            <span title="${event.address}">${this.createTruncatedAddress(event.address)}</span>
+                            ${Object.entries(event.args).map(([key, value]) => `<span class="hash">${this.escapeHtml(key)}=${this.escapeHtml(value)}</span>`).join(' ')}
+                        </div>
+                    `).join('')}
+                ` : ''}
+            </div>
+        `).join('');
+
+        return `
+            <div class="dry-run-summary">
+                <div class="dry-run-subtitle">Forked at block ${report.forkBlock.toString()} · Net balance changes</div>
+                ${report.totalChanges.length > 0 ? this.renderBalanceChanges(report.totalChanges) : '<div>No balance changes</div>'}
+            </div>
+            ${steps}
+        `;
+    }
+
+    /**
+     * Render balance changes as signed amounts
+     */
+    renderBalanceChanges(changes: BalanceChange[]): string {
+        return changes.map(change => {
+            const delta = change.after - change.before;
+            const sign = delta > 0n ? '+' : '-';
+            const amount = formatUnits(delta > 0n ? delta : -delta, change.decimals);
+            return `
+                <div class="dry-run-balance ${delta > 0n ? 'balance-up' : 'balance-down'}">
+                    ${sign}${amount} ${this.escapeHtml(change.symbol)}
+                    ${change.token ? `<span title="${change.token}">(${this.createTruncatedAddress(change.token)})</span>` : ''}
+                </div>
+            `;
+        }).join('');
+    }
+
+    /**
+     * Confirm a transaction
+     */
+    async confirmTransaction(safeTxHash: string): Promise<void> {
+        if (!this.config) return;
+
+        const pending = this.pendingTransactions.find(tx => tx.safeTxHash === safeTxHash);
+        const blocker = pending && this.safeInfo ? getConfirmationBlocker(pending, this.safeInfo.nonce) : null;
+        if (blocker) {
+            this.showError(blocker);
+            return;
+        }
+
+        if (!await this.runPreflightSimulation(safeTxHash, 'confirm')) {
+            return;
+        }
+
+        try {
+            this.showTransactionsLoading(true, 'Confirming transaction...');
+
+            await this.core.confirmTransaction(safeTxHash);
+
+            this.showSuccess('Transaction confirmed successfully');
+            await this.refreshPendingTransactions();
+            
+        } catch (error: any) {
+            console.error('Failed to confirm transaction:', error);
+            this.showError(`Failed to confirm transaction: ${error.message}`);
+        } finally {
+            this.showTransactionsLoading(false);
+        }
+    }
+
+    /**
+     * Execute a transaction
+     */
+    async executeTransaction(safeTxHash: string): Promise<void> {
+        if (!this.config) return;
+
+        // The Safe only executes the transaction at its current nonce
+        const pending = this.pendingTransactions.find(tx => tx.safeTxHash === safeTxHash);
+        const safeNonce = await this.core.readSafeNonce().catch(() => this.safeInfo?.nonce);
+        const blocker = pending && safeNonce !== undefined ? getExecutionBlocker(pending, safeNonce) : null;
+        if (blocker) {
+            this.showError(blocker);
+            return;
+        }
+
+        if (!await this.runPreflightSimulation(safeTxHash, 'execute')) {
+            return;
+        }
+
+        try {
+            this.showTransactionsLoading(true, 'Executing transaction...');
+
+            await this.core.executeTransaction(safeTxHash);
+
+            this.showSuccess('Transaction executed successfully');
+            await this.refreshPendingTransactions();
+            
+        } catch (error) {
+            console.error('Failed to execute transaction:', error);
+            const errorMessage = error instanceof Error ? error.message : String(error);
+            this.showError(`Failed to execute transaction: ${errorMessage}`);
+        } finally {
+            this.showTransactionsLoading(false);
+        }
+    }
+
+    /**
+     * Parse Contract ABI of a call row and populate its method dropdown
+     */
+    parseContractAbi(row: HTMLElement): void {
+        const abiTextarea = row.querySelector('.call-abi') as HTMLTextAreaElement;
+        const methodSelect = row.querySelector('.call-method') as HTMLSelectElement;
+        const paramsTextarea = row.querySelector('.call-params') as HTMLTextAreaElement;
+        
+        if (!abiTextarea || !methodSelect || !paramsTextarea) {
+            console.error('Required elements not found');
+            return;
+        }
+        
+        try {
+            // Clear existing options
+            methodSelect.innerHTML = '<option value="">Select a method...</option>';
+            paramsTextarea.value = '';
+            
+            const abiText = abiTextarea.value.trim();
+            if (!abiText) {
+                console.log('ABI text is empty');
+                return;
+            }
+            
+            let abi: any[];
+            let functions: any[];
+            
+            try {
+                // First try to parse as JSON
+                abi = JSON.parse(abiText);
+                
+                // Check if it's a simplified format (array of strings) or full ABI format
+                if (abi.length > 0 && typeof abi[0] === 'string') {
+                    // Simplified format - use viem's parseAbi
+                    const parsedAbi = parseAbi(abi);
+                    
+                    // Extract functions from parsed ABI
+                    functions = parsedAbi.filter((item: any) => 
+                        item.type === 'function' && 
+                        item.stateMutability !== 'view' && 
+                        item.stateMutability !== 'pure'
+                    );
+                } else {
+                    // Full JSON ABI format
+                    functions = abi.filter((item: any) => 
+                        item.type === 'function' && 
+                        item.stateMutability !== 'view' && 
+                        item.stateMutability !== 'pure'
+                    );
+                }
+            } catch (parseError) {
+                console.error('Failed to parse ABI with viem:', parseError);
+                throw parseError;
+            }
+            
+            console.log('Filtered functions:', functions);
+            
+            if (functions.length === 0) {
+                const option = document.createElement('option');
+                option.value = '';
+                option.textContent = 'No writable functions found';
+                option.disabled = true;
+                methodSelect.appendChild(option);
+                return;
+            }
+            
+            // Populate method dropdown
+            functions.forEach((func: any) => {
+                const option = document.createElement('option');
+                option.value = func.name;
+                option.textContent = func.name;
+                option.setAttribute('data-inputs', JSON.stringify(func.inputs || []));
+                methodSelect.appendChild(option);
+            });
+            
+        } catch (error) {
+            console.error('Failed to parse ABI:', error);
+            // Don't show error for incomplete JSON while typing
+            if (abiTextarea.value.trim().length > 10) {
+                this.showError('Invalid ABI format. Please check your JSON syntax.');
+            }
+        }
+    }
+
+    /**
+     * Generate method parameters example based on the selected method of a call row
+     */
+    generateMethodParameters(row: HTMLElement): void {
+        const methodSelect = row.querySelector('.call-method') as HTMLSelectElement;
+        const paramsTextarea = row.querySelector('.call-params') as HTMLTextAreaElement;
+        
+        if (!methodSelect || !paramsTextarea) return;
+        
+        const selectedOption = methodSelect.selectedOptions[0];
+        if (!selectedOption || !selectedOption.value) {
+            paramsTextarea.value = '';
+            return;
+        }
+        
+        try {
+            const inputs = JSON.parse(selectedOption.getAttribute('data-inputs') || '[]');
+            
+            if (inputs.length === 0) {
+                paramsTextarea.value = '[]';
+                return;
+            }
+            
+            // Generate example parameters based on type
+            const exampleParams = inputs.map((input: any) => {
+                return this.generateExampleValue(input.type, input.name);
+            });
+            
+            paramsTextarea.value = JSON.stringify(exampleParams, null, 2);
+            
+        } catch (error) {
+            console.error('Failed to generate parameters:', error);
+            paramsTextarea.value = '[]';
+        }
+    }
+
+    /**
+     * Generate example value based on Solidity type
+     */
+    private generateExampleValue(type: string, name: string): any {
+        // Handle array types
+        if (type.includes('[]')) {
+            const baseType = type.replace('[]', '');
+            return [this.generateExampleValue(baseType, name)];
+        }
+        
+        // Handle specific types
+        if (type.startsWith('uint') || type.startsWith('int')) {
+            return name.toLowerCase().includes('amount') || name.toLowerCase().includes('value') ? 
+                "10000" : "1"; // 1 ETH in wei for amounts, 1 for others
+        }
+        
+        if (type === 'address') {
+            return "0x4739680F1A3F6aE7E0036979E6A81D76Fd2EE6e3";
+        }
+        
+        if (type === 'bool') {
+            return true;
+        }
+        
+        if (type === 'string') {
+            return `example_${name}`;
+        }
+        
+        if (type.startsWith('bytes')) {
+            return "0x1234567890abcdef";
+        }
+        
+        // Default fallback
+        return `<${type}>`;
+    }
+
+    /**
+     * Open propose transaction modal
+     */
+    openProposeModal(): void {
+        const modal = document.getElementById('proposeModal');
+        const callsContainer = document.getElementById('proposeCalls');
+        if (callsContainer && callsContainer.children.length === 0) {
+            this.addProposeCall();
+        }
+        if (modal) {
+            modal.classList.remove('hidden');
+        }
+    }
+
+    /**
+     * Close propose transaction modal
+     */
+    closeProposeModal(): void {
+        const modal = document.getElementById('proposeModal');
+        if (modal) {
+            modal.classList.add('hidden');
+        }
+        // Reset form
+        const form = document.getElementById('proposeForm') as HTMLFormElement;
+        if (form) {
+            form.reset();
+        }
+        const callsContainer = document.getElementById('proposeCalls');
+        if (callsContainer) {
+            callsContainer.innerHTML = '';
+        }
+    }
+
+    /**
+     * Append a call row to the propose form
+     */
+    addProposeCall(): HTMLElement | null {
+        const callsContainer = document.getElementById('proposeCalls');
+        const template = document.getElementById('proposeCallTemplate') as HTMLTemplateElement;
+        if (!callsContainer || !template) return null;
+
+        const row = (template.content.firstElementChild as HTMLElement).cloneNode(true) as HTMLElement;
+
+        row.querySelector('.call-abi')?.addEventListener('input', () => this.parseContractAbi(row));
+        row.querySelector('.call-method')?.addEventListener('change', () => this.generateMethodParameters(row));
+        row.querySelector('.call-move-up')?.addEventListener('click', () => this.moveProposeCall(row, -1));
+        row.querySelector('.call-move-down')?.addEventListener('click', () => this.moveProposeCall(row, 1));
+        row.querySelector('.call-remove')?.addEventListener('click', () => this.removeProposeCall(row));
+
+        callsContainer.appendChild(row);
+        this.renumberProposeCalls();
+        return row;
+    }
+
+    /**
+     * Move a call row up (-1) or down (1)
+     */
+    moveProposeCall(row: HTMLElement, direction: -1 | 1): void {
+        const sibling = direction < 0 ? row.previousElementSibling : row.nextElementSibling;
+        if (!sibling || !row.parentElement) return;
+
+        if (direction < 0) {
+            row.parentElement.insertBefore(row, sibling);
+        } else {
+            row.parentElement.insertBefore(sibling, row);
+        }
+        this.renumberProposeCalls();
+    }
+
+    /**
+     * Remove a call row, keeping at least one
+     */
+    removeProposeCall(row: HTMLElement): void {
+        const callsContainer = document.getElementById('proposeCalls');
+        if (!callsContainer || callsContainer.children.length <= 1) {
+            this.showError('A transaction needs at least one call');
+            return;
+        }
+        row.remove();
+        this.renumberProposeCalls();
+    }
+
+    /**
+     * Refresh row titles and the batch options after rows change
+     */
+    renumberProposeCalls(): void {
+        const rows = Array.from(document.querySelectorAll<HTMLElement>('#proposeCalls .propose-call'));
+        rows.forEach((row, index) => {
+            const title = row.querySelector('.call-title');
+            if (title) {
+                title.textContent = `Call #${index + 1}`;
+            }
+        });
+
+        const batchGroup = document.getElementById('proposeBatchGroup');
+        if (batchGroup) {
+            batchGroup.classList.toggle('hidden', rows.length < 2);
+        }
+    }
+
+    /**
+     * Read and encode all call rows of the propose form
+     */
+    readProposeCalls(): MultiSendCall[] {
+        const rows = Array.from(document.querySelectorAll<HTMLElement>('#proposeCalls .propose-call'));
+
+        return rows.map((row, index) => {
+            const field = (selector: string) => (row.querySelector(selector) as HTMLInputElement)?.value.trim() || '';
+            const targetAddress = field('.call-target');
+            const contractAbi = field('.call-abi');
+            const methodName = field('.call-method');
+            const methodParams = field('.call-params');
+            const value = field('.call-value') || '0';
+            const operation = parseInt(field('.call-operation') || '0');
+
+            if (!isAddress(targetAddress)) {
+                throw new Error(`Call #${index + 1}: invalid target address "${targetAddress}"`);
+            }
+
+            // Without an ABI the call is a plain value transfer
+            let data = '0x';
+            if (contractAbi || methodName) {
+                if (!contractAbi || !methodName || !methodParams) {
+                    throw new Error(`Call #${index + 1}: ABI, method and parameters are required for contract calls`);
+                }
+                data = this.generateCallData(contractAbi, methodName, methodParams);
+
+                // Remember the ABI so the proposal can be decoded later
+                if (this.config) {
+                    this.abiStore.save(this.config.chainId, targetAddress, parseAbiText(contractAbi));
+                }
+            }
+
+            return {
+                to: targetAddress,
+                value: parseEther(value).toString(),
+                data,
+                operation
+            };
+        });
+    }
+
+    /**
+     * Read the Safe's native balance and token list holdings from the RPC
+     */
+    async refreshAssets(): Promise<void> {
+        if (!this.config || !this.config.safeAddress) {
+            this.showError('Please configure and connect to Safe first');
+            return;
+        }
+
+        const container = document.getElementById('assetsContainer');
+        if (container && this.safeAssets.length === 0) {
+            container.innerHTML = '<div class="no-transactions"><p>Loading assets...</p></div>';
+        }
+
+        try {
+            this.safeAssets = await fetchSafeAssets(
+                this.config.rpcUrl,
+                this.config.safeAddress,
+                this.tokenLists.get(this.config.chainId),
+                this.getCurrencySymbol()
+            );
+            this.renderAssets();
+        } catch (error: any) {
+            console.error('Failed to load assets:', error);
+            this.showError(`Failed to load assets: ${error.shortMessage || error.message}`);
+        }
+    }
+
+    /**
+     * Render the asset rows
+     */
+    renderAssets(): void {
+        const container = document.getElementById('assetsContainer');
+        if (!container) return;
+
+        const hint = this.safeAssets.length <= 1
+            ? '<p class="assets-hint">Add ERC-20 and ERC-721 contracts to the token list to show their balances</p>'
+            : '';
+        container.innerHTML = `<div class="assets-list">${this.safeAssets.map(asset => this.renderAssetRow(asset)).join('')}</div>${hint}`;
+    }
+
+    /**
+     * Render one asset with its balance and a transfer shortcut
+     */
+    renderAssetRow(asset: AssetBalance): string {
+        const symbol = this.escapeHtml(asset.symbol || '???');
+        const name = this.escapeHtml(asset.name || asset.symbol || '');
+        const token = asset.token ? `'${asset.token}'` : 'null';
+
+        let balance: string;
+        if (asset.error) {
+            balance = `<span class="asset-error">${this.escapeHtml(asset.error)}</span>`;
+        } else if (asset.kind === 'erc721') {
+            const ids = asset.tokenIds.map(id =>
+                `<button class="asset-token-id" title="Send #${id}" onclick="safeManager.startTransfer('erc721', ${token}, '${id}')">#${id}</button>`
+            ).join('');
+            balance = `${asset.balance} ${symbol}${ids ? `<div class="asset-token-ids">${ids}</div>` : ''}`;
+        } else {
+            balance = `${formatUnits(asset.balance, asset.decimals)} ${symbol}`;
+        }
+
+        const canSend = !asset.error && asset.balance > 0n && !(asset.kind === 'erc721' && asset.tokenIds.length > 0);
+        return `
+            <div class="asset-row">
+                <div class="asset-info">
+                    <div class="asset-name">${name}</div>
+                    <div class="asset-meta">${asset.kind === 'native' ? 'Native' : asset.kind.toUpperCase()}${asset.token ? ` · <span title="${asset.token}">${this.createTruncatedAddress(asset.token)}</span>` : ''}</div>
+                </div>
+                <div class="asset-balance">${balance}</div>
+                <div class="asset-actions">
+                    ${canSend ? `<button class="btn btn-primary" onclick="safeManager.startTransfer('${asset.kind}', ${token})">Send</button>` : ''}
+                </div>
+            </div>
+        `;
+    }
+
+    /**
+     * Open the Send modal prefilled with an asset
+     */
+    startTransfer(kind: TransferKind, token: string | null, tokenId?: string): void {
+        const setValue = (id: string, value: string) => {
+            const input = document.getElementById(id) as HTMLInputElement | HTMLSelectElement;
+            if (input) {
+                input.value = value;
+            }
+        };
+        setValue('sendKind', kind);
+        setValue('sendToken', token || '');
+        setValue('sendTokenId', tokenId || '');
+        this.openSendModal();
+    }
+
+    /**
+     * Open token list modal for the current chain
+     */
+    openTokenListModal(): void {
+        if (!this.config) {
+            this.showError('Please configure and connect to Safe first');
+            return;
+        }
+
+        const input = document.getElementById('tokenListInput') as HTMLTextAreaElement;
+        if (input) {
+            input.value = formatTokenList(this.tokenLists.get(this.config.chainId));
+        }
+        const modal = document.getElementById('tokenListModal');
+        if (modal) {
+            modal.classList.remove('hidden');
+        }
+    }
+
+    /**
+     * Close token list modal
+     */
+    closeTokenListModal(): void {
+        const modal = document.getElementById('tokenListModal');
+        if (modal) {
+            modal.classList.add('hidden');
+        }
+        // Reset form
+        const form = document.getElementById('tokenListForm') as HTMLFormElement;
+        if (form) {
+            form.reset();
+        }
+    }
+
+    /**
+     * Save the token list and reload the assets
+     */
+    async handleTokenListSubmit(event: Event): Promise<void> {
+        event.preventDefault();
+        if (!this.config) return;
+
+        const text = (document.getElementById('tokenListInput') as HTMLTextAreaElement)?.value || '';
+        try {
+            const tokens = parseTokenList(text, this.config.chainId);
+            this.tokenLists.save(this.config.chainId, tokens);
+            this.showSuccess(`Token list saved (${tokens.length} token${tokens.length === 1 ? '' : 's'})`);
+            this.closeTokenListModal();
+            await this.refreshAssets();
+        } catch (error: any) {
+            this.showError(`Invalid token list: ${error.message}`);
+        }
+    }
+
+    /**
+     * Open asset transfer modal
+     */
+    openSendModal(): void {
+        if (!this.safeInfo) {
+            this.showError('Please connect to a Safe first');
+            return;
+        }
+
+        this.updateSendFields();
+        const modal = document.getElementById('sendModal');
+        if (modal) {
+            modal.classList.remove('hidden');
+        }
+    }
+
+    /**
+     * Close asset transfer modal
+     */
+    closeSendModal(): void {
+        const modal = document.getElementById('sendModal');
+        if (modal) {
+            modal.classList.add('hidden');
+        }
+        // Reset form
+        const form = document.getElementById('sendForm') as HTMLFormElement;
+        if (form) {
+            form.reset();
+        }
+        const info = document.getElementById('sendTokenInfo');
+        if (info) {
+            info.textContent = '';
+        }
+    }
+
+    /**
+     * Show only the fields used by the selected asset type
+     */
+    updateSendFields(): void {
+        const kind = (document.getElementById('sendKind') as HTMLSelectElement)?.value as TransferKind;
+        document.querySelectorAll<HTMLElement>('[data-send-kinds]').forEach(element => {
+            const kinds = (element.dataset.sendKinds || '').split(' ');
+            element.classList.toggle('hidden', !kinds.includes(kind));
+        });
+        this.updateSendTokenInfo();
+    }
+
+    /**
+     * Read the transfer from the form
+     */
+    readTransferRequest(): TransferRequest {
+        const value = (id: string) => (document.getElementById(id) as HTMLInputElement)?.value.trim() || '';
+        return {
+            kind: value('sendKind') as TransferKind,
+            token: value('sendToken'),
+            recipient: value('sendRecipient'),
+            amount: value('sendAmount'),
+            tokenId: value('sendTokenId')
+        };
+    }
+
+    /**
+     * Look up the selected token and show the Safe's balance of it
+     */
+    async updateSendTokenInfo(): Promise<void> {
+        const info = document.getElementById('sendTokenInfo');
+        if (!info || !this.config) return;
+
+        const request = this.readTransferRequest();
+        const needsTokenId = request.kind === 'erc721' || request.kind === 'erc1155';
+        if ((request.kind !== 'native' && !isAddress(request.token)) || (needsTokenId && !/^\d+$/.test(request.tokenId))) {
+            info.textContent = '';
+            return;
+        }
+
+        try {
+            info.textContent = 'Loading token...';
+            const token = await fetchTokenMetadata(this.config.rpcUrl, request.kind, request.token, this.getCurrencySymbol());
+            const balance = await fetchTransferBalance(this.config.rpcUrl, this.config.safeAddress, request);
+
+            info.textContent = request.kind === 'erc721'
+                ? `${token.name || token.symbol} #${request.tokenId}: ${balance > 0n ? 'owned by the Safe' : 'not owned by the Safe'}`
+                : `${token.name || token.symbol} (${token.symbol}, ${token.decimals} decimals) · Safe balance: ${formatUnits(balance, token.decimals)}`;
+        } catch (error: any) {
+            info.textContent = `Token lookup failed: ${error.shortMessage || error.message}`;
+        }
+    }
+
+    /**
+     * Check the balance, build the transfer call and propose it
+     */
+    async handleSendSubmit(event: Event): Promise<void> {
+        event.preventDefault();
+
+        if (!this.config || !this.safeInfo) {
+            this.showError('Please configure and connect to Safe first');
+            return;
+        }
+
+        try {
+            this.showSendLoading(true, 'Checking balance...');
+            const transfer = await prepareTransfer(this.config.rpcUrl, this.config.safeAddress, this.readTransferRequest(), this.getCurrencySymbol());
+
+            this.showSendLoading(true, 'Proposing transfer...');
+            await this.core.proposeTransaction({ calls: [transfer.call] });
+
+            this.showSuccess(`Proposed: ${transfer.description}`);
+            this.closeSendModal();
+            await this.refreshPendingTransactions();
+        } catch (error: any) {
+            console.error('Failed to propose transfer:', error);
+            this.showError(`Failed to propose transfer: ${error.shortMessage || error.message}`);
+        } finally {
+            this.showSendLoading(false);
+        }
+    }
+
+    /**
+     * Open owner management modal
+     */
+    openOwnersModal(): void {
+        if (!this.safeInfo) {
+            this.showError('Please connect to a Safe first');
+            return;
+        }
+
+        const ownerSelect = document.getElementById('ownerSelect') as HTMLSelectElement;
+        if (ownerSelect) {
+            ownerSelect.innerHTML = this.safeInfo.owners
+                .map(owner => `<option value="${owner}">${owner}</option>`)
+                .join('');
+        }
+
+        const currentOwners = document.getElementById('currentOwners');
+        if (currentOwners) {
+            currentOwners.textContent = `Current: ${this.safeInfo.threshold} of ${this.safeInfo.owners.length} owners`;
+        }
+
+        this.updateOwnerFields();
+
+        const modal = document.getElementById('ownersModal');
+        if (modal) {
+            modal.classList.remove('hidden');
+        }
+    }
+
+    /**
+     * Close owner management modal
+     */
+    closeOwnersModal(): void {
+        const modal = document.getElementById('ownersModal');
+        if (modal) {
+            modal.classList.add('hidden');
+        }
+        // Reset form
+        const form = document.getElementById('ownersForm') as HTMLFormElement;
+        if (form) {
+            form.reset();
+        }
+    }
+
+    /**
+     * Show the fields used by the selected owner action and suggest a threshold
+     */
+    updateOwnerFields(): void {
+        const action = (document.getElementById('ownerAction') as HTMLSelectElement)?.value as OwnerAction;
+        document.querySelectorAll<HTMLElement>('[data-owner-actions]').forEach(element => {
+            const actions = (element.dataset.ownerActions || '').split(' ');
+            element.classList.toggle('hidden', !actions.includes(action));
+        });
+
+        const thresholdInput = document.getElementById('ownerThreshold') as HTMLInputElement;
+        if (thresholdInput && this.safeInfo) {
+            const { owners, threshold } = this.safeInfo;
+            const ownerCount = action === 'addOwner' ? owners.length + 1
+                : action === 'removeOwner' ? owners.length - 1
+                : owners.length;
+            thresholdInput.max = String(Math.max(ownerCount, 1));
+            thresholdInput.value = String(Math.max(Math.min(threshold, ownerCount), 1));
+        }
+    }
+
+    /**
+     * Read the owner change from the form
+     */
+    readOwnerChange(): OwnerChange {
+        const action = (document.getElementById('ownerAction') as HTMLSelectElement).value as OwnerAction;
+        const newOwner = (document.getElementById('ownerAddress') as HTMLInputElement).value.trim();
+        const existingOwner = (document.getElementById('ownerSelect') as HTMLSelectElement).value;
+        const threshold = parseInt((document.getElementById('ownerThreshold') as HTMLInputElement).value);
+
+        switch (action) {
+            case 'addOwner':
+                return { action, owner: newOwner, threshold };
+            case 'removeOwner':
+                return { action, owner: existingOwner, threshold };
+            case 'swapOwner':
+                return { action, owner: existingOwner, newOwner };
+            default:
+                return { action, threshold };
+        }
+    }
+
+    /**
+     * Handle owner management form submission
+     */
+    async handleOwnersSubmit(event: Event): Promise<void> {
+        event.preventDefault();
+
+        if (!this.config || !this.safeInfo) {
+            this.showError('Please configure and connect to Safe first');
+            return;
+        }
+
+        const change = this.readOwnerChange();
+        try {
+            validateOwnerChange(this.safeInfo, change);
+        } catch (error: any) {
+            this.showError(error.message);
+            return;
+        }
+
+        try {
+            this.showOwnersLoading(true, 'Proposing owner change...');
+            await this.proposeOwnerChange(change);
+
+            this.showSuccess(`Proposed: ${describeOwnerChange(change)}`);
+            this.closeOwnersModal();
+            await this.refreshPendingTransactions();
+        } catch (error: any) {
+            console.error('Failed to propose owner change:', error);
+            this.showError(`Failed to propose owner change: ${error.message}`);
+        } finally {
+            this.showOwnersLoading(false);
+        }
+    }
+
+    /**
+     * Build an owner or threshold change with the Protocol Kit and propose it
+     */
+    async proposeOwnerChange(change: OwnerChange): Promise<void> {
+        if (!this.config || !this.safeInfo) {
+            throw new Error('Configuration not loaded');
+        }
+
+        validateOwnerChange(this.safeInfo, change);
+
+        const protocolKit = await this.core.getProtocolKit();
+        const call = await buildOwnerChangeCall(protocolKit, change);
+
+        await this.core.proposeTransaction({ calls: [call] });
+    }
+
+    /**
+     * Open module, guard and fallback handler modal
+     */
+    openSettingsModal(): void {
+        if (!this.safeInfo) {
+            this.showError('Please connect to a Safe first');
+            return;
+        }
+
+        const moduleSelect = document.getElementById('settingModuleSelect') as HTMLSelectElement;
+        if (moduleSelect) {
+            moduleSelect.innerHTML = this.safeInfo.modules.length > 0
+                ? this.safeInfo.modules.map(module => `<option value="${module}">${module}</option>`).join('')
+                : '<option value="">No modules enabled</option>';
+        }
+
+        this.updateSettingFields();
+
+        const modal = document.getElementById('settingsModal');
+        if (modal) {
+            modal.classList.remove('hidden');
+        }
+    }
+
+    /**
+     * Close module, guard and fallback handler modal
+     */
+    closeSettingsModal(): void {
+        const modal = document.getElementById('settingsModal');
+        if (modal) {
+            modal.classList.add('hidden');
+        }
+        // Reset form
+        const form = document.getElementById('settingsForm') as HTMLFormElement;
+        if (form) {
+            form.reset();
+        }
+    }
+
+    /**
+     * Show the fields and the warning of the selected setting action
+     */
+    updateSettingFields(): void {
+        const action = (document.getElementById('settingAction') as HTMLSelectElement)?.value as SettingAction;
+        document.querySelectorAll<HTMLElement>('[data-setting-actions]').forEach(element => {
+            const actions = (element.dataset.settingActions || '').split(' ');
+            element.classList.toggle('hidden', !actions.includes(action));
+        });
+
+        const warning = document.getElementById('settingWarning');
+        if (warning) {
+            warning.textContent = SETTING_WARNINGS[action] || '';
+        }
+
+        const current = document.getElementById('settingCurrent');
+        if (current && this.safeInfo) {
+            const value = action === 'setGuard' ? this.safeInfo.guard
+                : action === 'setFallbackHandler' ? this.safeInfo.fallbackHandler
+                : '';
+            current.textContent = action === 'setGuard' || action === 'setFallbackHandler'
+                ? `Current: ${isUnset(value) ? 'None' : value}. Leave empty to remove.`
+                : '';
+        }
+
+        const acknowledge = document.getElementById('settingAcknowledge') as HTMLInputElement;
+        if (acknowledge) {
+            acknowledge.checked = false;
+        }
+    }
+
+    /**
+     * Read the setting change from the form
+     */
+    readSettingChange(): SettingChange {
+        const action = (document.getElementById('settingAction') as HTMLSelectElement).value as SettingAction;
+        const address = action === 'disableModule'
+            ? (document.getElementById('settingModuleSelect') as HTMLSelectElement).value
+            : (document.getElementById('settingAddress') as HTMLInputElement).value.trim();
+
+        return { action, address };
+    }
+
+    /**
+     * Handle module, guard and fallback handler form submission
+     */
+    async handleSettingsSubmit(event: Event): Promise<void> {
+        event.preventDefault();
+
+        if (!this.config || !this.safeInfo) {
+            this.showError('Please configure and connect to Safe first');
+            return;
+        }
+
+        const acknowledge = document.getElementById('settingAcknowledge') as HTMLInputElement;
+        if (!acknowledge?.checked) {
+            this.showError('Please confirm that you understand the risk of this change');
+            return;
+        }
+
+        const change = this.readSettingChange();
+        try {
+            validateSettingChange(this.safeInfo, change);
+        } catch (error: any) {
+            this.showError(error.message);
+            return;
+        }
+
+        try {
+            this.showSettingsLoading(true, 'Proposing change...');
+
+            const protocolKit = await this.core.getProtocolKit();
+            const call = await buildSettingChangeCall(protocolKit, change);
+            await this.core.proposeTransaction({ calls: [call] });
+
+            this.showSuccess(`Proposed: ${describeSettingChange(change)}`);
+            this.closeSettingsModal();
+            await this.refreshPendingTransactions();
+        } catch (error: any) {
+            console.error('Failed to propose setting change:', error);
+            this.showError(`Failed to propose change: ${error.message}`);
+        } finally {
+            this.showSettingsLoading(false);
+        }
     }
 
     /**
@@ -1126,167 +3309,29 @@ class SafeManager {
     }
 
     /**
-     * Create a new Safe wallet
+     * Create a new Safe wallet, save its address and connect to it
      */
     async createSafe(owners: string[], threshold: number, saltNonce: string): Promise<void> {
         if (!this.config) {
             throw new Error('Configuration not loaded');
         }
 
-        // Validate required configuration fields
-        if (!this.config.rpcUrl || !this.config.privateKey || !this.config.txServiceUrl) {
-            throw new Error('Configuration is incomplete. Please ensure required fields are filled (RPC URL, Transaction Service URL, Private Key)!');
-        }
-
-        // Validate input parameters
-        if (!owners || owners.length === 0) {
-            throw new Error('At least one owner is required');
-        }
-
-        if (threshold < 1 || threshold > owners.length) {
-            throw new Error('Threshold must be between 1 and the number of owners');
-        }
-
-        // Validate all owner addresses
-        for (const owner of owners) {
-            if (!isAddress(owner)) {
-                throw new Error(`Invalid owner address: ${owner}`);
-            }
-        }
-
         this.showCreateSafeLoading(true, 'Initializing Safe deployment...');
 
         try {
-            // Step 1: Configure Safe account settings
-            const safeAccountConfig: SafeAccountConfig = {
-                owners: owners,
-                threshold: threshold
-            };
-
-            // Step 2: Configure Safe deployment settings
-            const safeDeploymentConfig: SafeDeploymentConfig = {
-                saltNonce: saltNonce
-            };
-
-            // Step 3: Create predicted Safe configuration
-            const predictedSafe: PredictedSafeProps = {
-                safeAccountConfig,
-                safeDeploymentConfig
-            };
-
-            this.showCreateSafeLoading(true, 'Creating Protocol Kit instance...');
-
-            // Step 4: Initialize Protocol Kit with predicted Safe
-            const protocolKit = await Safe.init({
-                provider: this.config.rpcUrl,
-                signer: this.config.privateKey,
-                predictedSafe
-            });
-
-            // Step 5: Get predicted Safe address
-            const predictedSafeAddress = await protocolKit.getAddress();
-            console.log('Predicted Safe address:', predictedSafeAddress);
-
-            // Step 6: Check if Safe is already deployed
-            const isDeployed = await protocolKit.isSafeDeployed();
-            if (isDeployed) {
-                throw new Error(`Safe with these parameters is already deployed at address: ${predictedSafeAddress}`);
-            }
-
-            this.showCreateSafeLoading(true, 'Creating deployment transaction...');
-
-            // Step 7: Create deployment transaction
-            const deploymentTransaction = await protocolKit.createSafeDeploymentTransaction();
-            console.log('Deployment transaction created:', deploymentTransaction);
-
-            this.showCreateSafeLoading(true, 'Executing deployment transaction...');
-
-            // Step 8: Execute deployment transaction
-            const safeProvider = protocolKit.getSafeProvider();
-            const externalSigner = await safeProvider.getExternalSigner();
-            
-            if (!externalSigner) {
-                throw new Error('Failed to get external signer for deployment');
-            }
-
-            // Send the deployment transaction
-            const transactionHash = await externalSigner.sendTransaction({
-                to: deploymentTransaction.to as `0x${string}`,
-                value: BigInt(deploymentTransaction.value),
-                data: deploymentTransaction.data as `0x${string}`,
-                chain: null // Allow the signer to determine the chain
-            });
-
-            this.showCreateSafeLoading(true, 'Waiting for transaction confirmation...');
-
-            // Wait for transaction receipt using viem's waitForTransactionReceipt
-            const transactionReceipt = await waitForTransactionReceipt(externalSigner, {
-                hash: transactionHash
-            });
-
-            console.log('Deployment transaction confirmed:', transactionReceipt);
-
-            // Step 9: Connect to the deployed Safe
-            this.showCreateSafeLoading(true, 'Connecting to deployed Safe...');
-            
-            const deployedProtocolKit = await protocolKit.connect({
-                safeAddress: predictedSafeAddress
-            });
-
-            // Step 10: Verify deployment
-            const isSafeDeployed = await deployedProtocolKit.isSafeDeployed();
-            if (!isSafeDeployed) {
-                throw new Error('Safe deployment verification failed');
-            }
-
-            // Step 11: Get Safe information
-            const safeAddress = await deployedProtocolKit.getAddress();
-            const safeOwners = await deployedProtocolKit.getOwners();
-            const safeThreshold = await deployedProtocolKit.getThreshold();
-            const safeNonce = await deployedProtocolKit.getNonce();
-
-            console.log('Safe deployed successfully:', {
-                address: safeAddress,
-                owners: safeOwners,
-                threshold: safeThreshold,
-                nonce: safeNonce
-            });
-
-            // Step 12: Update configuration and UI
-            this.config.safeAddress = predictedSafeAddress;
-            localStorage.setItem('safeConfig', JSON.stringify(this.config));
+            const safeInfo = await this.core.createSafe(owners, threshold, saltNonce, (message) => this.showCreateSafeLoading(true, message));
+            await this.persistConfiguration();
             
             // Update the Safe address input field
             const safeAddressInput = document.getElementById('safeAddress') as HTMLInputElement;
             if (safeAddressInput) {
-                safeAddressInput.value = predictedSafeAddress;
+                safeAddressInput.value = safeInfo.address;
             }
 
-            // Create a new Safe client for the deployed Safe
-            this.safeClient = await createSafeClient({
-                provider: this.config.rpcUrl,
-                txServiceUrl: this.config.txServiceUrl,
-                signer: this.config.privateKey,
-                safeAddress: predictedSafeAddress
-            });
-
-            // Update Safe info
-            const safeInfo: SafeInfo = {
-                address: safeAddress,
-                nonce: safeNonce,
-                threshold: safeThreshold,
-                owners: safeOwners,
-                modules: [],
-                fallbackHandler: '',
-                guard: '',
-                version: '1.3.0'
-            };
-
-            this.safeInfo = safeInfo;
-            this.updateSafeStatus(safeInfo);
             this.updateConnectionStatus('Connected');
+            this.updateStoreControls();
             
-            this.showSuccess(`Safe created successfully! Address: ${this.createTruncatedAddress(predictedSafeAddress)}`);
+            this.showSuccess(`Safe created successfully! Address: ${this.createTruncatedAddress(safeInfo.address)}`);
             this.closeCreateSafeModal();
             
             // Start auto refresh to load any pending transactions
@@ -1314,40 +3359,33 @@ class SafeManager {
     async handleProposeSubmit(event: Event): Promise<void> {
         event.preventDefault();
         
-        const targetAddress = (document.getElementById('proposeTargetAddress') as HTMLInputElement)?.value;
-        const contractAbi = (document.getElementById('proposeContractAbi') as HTMLTextAreaElement)?.value;
-        const methodName = (document.getElementById('proposeMethodName') as HTMLSelectElement)?.value;
-        const methodParams = (document.getElementById('proposeMethodParams') as HTMLTextAreaElement)?.value;
-        const value = (document.getElementById('proposeValue') as HTMLInputElement)?.value || '0';
-        const operation = (document.getElementById('proposeOperation') as HTMLSelectElement)?.value || '0';
+        const batchMode = ((document.getElementById('proposeBatchMode') as HTMLSelectElement)?.value || 'callOnly') as BatchMode;
         const safeTxGas = (document.getElementById('proposeSafeTxGas') as HTMLInputElement)?.value || '100000';
 
-        if (!targetAddress || !contractAbi || !methodName || !methodParams) {
-            this.showError('Please fill in all required fields');
+        if (!this.config) {
+            this.showError('Please configure and connect to Safe first');
             return;
         }
 
-        // Validate target address format
-        if (!isAddress(targetAddress)) {
-            this.showError(`Invalid target address: "${targetAddress}". Address must be 42 characters long (including 0x prefix).`);
+        let calls: MultiSendCall[];
+        try {
+            calls = this.readProposeCalls();
+        } catch (error: any) {
+            this.showError(error.message);
             return;
         }
 
-        if (!this.config) {
-            this.showError('Please configure and connect to Safe first');
+        if (calls.length === 0) {
+            this.showError('Please add at least one call');
             return;
         }
 
         try {
             this.showProposeLoading(true, 'Proposing transaction...');
             
-            await this.proposeTransaction({
-                targetAddress,
-                contractAbi,
-                methodName,
-                methodParams,
-                value,
-                operation: parseInt(operation),
+            await this.core.proposeTransaction({
+                calls,
+                batchMode,
                 safeTxGas: parseInt(safeTxGas)
             });
 
@@ -1364,112 +3402,65 @@ class SafeManager {
     }
 
     /**
-     * Propose a new transaction
+     * Propose an empty self-transaction at a proposal's nonce; executing it cancels the proposal
      */
-    async proposeTransaction(params: {
-        targetAddress: string;
-        contractAbi: string;
-        methodName: string;
-        methodParams: string;
-        value?: string;
-        operation?: number;
-        safeTxGas?: number;
-    }): Promise<void> {
-        const { 
-            targetAddress, 
-            contractAbi, 
-            methodName, 
-            methodParams, 
-            value = '0', 
-            operation = 0, 
-            safeTxGas = 100000 
-        } = params;
+    async rejectTransaction(safeTxHash: string): Promise<void> {
+        if (!this.config) return;
 
-        try {
-            // Generate call data
-            const callData = this.generateCallData(contractAbi, methodName, methodParams);
+        const transaction = this.pendingTransactions.find(tx => tx.safeTxHash === safeTxHash);
+        if (!transaction) {
+            this.showError('Transaction not found');
+            return;
+        }
 
-            // Create transaction object
-            const transaction = {
-                to: targetAddress,
-                data: callData,
-                value: value,
-                operation: operation,
-                safeTxGas: safeTxGas,
-            };
+        if (!confirm(`Propose a rejection for nonce ${transaction.nonce}? Once executed, it cancels every other proposal with this nonce.`)) {
+            return;
+        }
 
-            // Try using Safe SDK first
-            if (this.safeClient) {
-                try {
-                    const result = await this.safeClient.send({ transactions: [transaction] });
-                    return;
-                } catch (sdkError) {
-                    console.warn('Safe SDK failed, using fallback:', sdkError);
-                }
-            }
+        try {
+            this.showTransactionsLoading(true, 'Proposing rejection...');
 
-            // Fallback to direct API call
-            await this.proposeTransactionFallback(transaction);
+            await this.core.rejectTransaction(safeTxHash);
 
+            this.showSuccess(`Rejection proposed for nonce ${transaction.nonce}`);
+            await this.refreshPendingTransactions();
         } catch (error: any) {
-            console.error('Error proposing transaction:', error);
-            throw new Error(`Failed to propose transaction: ${error.message}`);
+            console.error('Failed to propose rejection:', error);
+            this.showError(`Failed to propose rejection: ${error.message}`);
+        } finally {
+            this.showTransactionsLoading(false);
         }
     }
 
     /**
-     * Fallback method to propose transaction via API
+     * Delete the signer's own proposal before other owners sign it
      */
-    async proposeTransactionFallback(transaction: any): Promise<void> {
-        if (!this.config) {
-            throw new Error('Configuration not available');
-        }
-
-        // Get Safe info
-        const safeInfoResponse = await fetch(`${this.config.txServiceUrl}v1/safes/${this.config.safeAddress}/`);
-        if (!safeInfoResponse.ok) {
-            throw new Error(`Failed to get Safe info: ${safeInfoResponse.status}`);
-        }
-        const safeInfo = await safeInfoResponse.json();
-
-        // Get signer address from private key
-        const signerAddress = this.getSignerAddress(this.config.privateKey);
-
-        // Calculate transaction hash
-        const safeTxHash = this.calculateSafeTxHash(transaction, safeInfo.nonce);
-
-        // Prepare transaction data for API
-        const transactionData = {
-            to: transaction.to,
-            value: transaction.value,
-            data: transaction.data,
-            operation: transaction.operation,
-            safeTxGas: transaction.safeTxGas,
-            baseGas: 0,
-            gasPrice: "0",
-            gasToken: "0x0000000000000000000000000000000000000000",
-            refundReceiver: "0x0000000000000000000000000000000000000000",
-            nonce: safeInfo.nonce,
-            contractTransactionHash: safeTxHash,
-            sender: signerAddress,
-            signature: this.generatePlaceholderSignature(signerAddress),
-            origin: 'safe-sign-example'
-        };
+    async deleteTransaction(safeTxHash: string): Promise<void> {
+        if (!this.config) return;
 
-        const response = await fetch(`${this.config.txServiceUrl}/api/v2/safes/${this.config.safeAddress}/multisig-transactions/`, {
-            method: 'POST',
-            headers: {
-                'Content-Type': 'application/json',
-            },
-            body: JSON.stringify(transactionData)
-        });
+        const transaction = this.pendingTransactions.find(tx => tx.safeTxHash === safeTxHash);
+        if (!transaction || !isDeletable(transaction, this.signerAddress)) {
+            this.showError('Only the proposer can delete a proposal, and only before other owners sign it');
+            return;
+        }
 
-        if (!response.ok) {
-            const errorText = await response.text();
-            throw new Error(`Failed to propose transaction: ${response.statusText} - ${errorText}`);
+        if (!confirm(`Delete the proposal with nonce ${transaction.nonce}? This cannot be undone.`)) {
+            return;
         }
 
-        const result = await response.json();
+        try {
+            this.showTransactionsLoading(true, 'Deleting transaction...');
+
+            await this.core.deleteTransaction(safeTxHash);
+
+            this.showSuccess('Transaction deleted successfully');
+            await this.refreshPendingTransactions();
+        } catch (error: any) {
+            console.error('Failed to delete transaction:', error);
+            this.showError(`Failed to delete transaction: ${error.message}`);
+        } finally {
+            this.showTransactionsLoading(false);
+        }
     }
 
     /**
@@ -1504,20 +3495,7 @@ class SafeManager {
                 return callData;
                 
             } catch (viemError: any) {
-                console.warn('Viem encoding failed, falling back to ethers:', viemError);
-                
-                // Fallback to ethers if available
-                if (typeof window.ethers !== 'undefined' && window.ethers.Interface) {
-                    try {
-                        const iface = new window.ethers.Interface(abiArray);
-                        return iface.encodeFunctionData(methodName, parameters);
-                    } catch (ethersError: any) {
-                        console.warn('Ethers encoding also failed:', ethersError);
-                        throw new Error(`Both viem and ethers encoding failed. Viem error: ${viemError.message}, Ethers error: ${ethersError.message}`);
-                    }
-                } else {
-                    throw new Error(`Viem encoding failed and ethers is not available: ${viemError.message}`);
-                }
+                throw new Error(`Viem encoding failed: ${viemError.message}`);
             }
             
         } catch (error: any) {
@@ -1526,34 +3504,6 @@ class SafeManager {
         }
     }
 
-    /**
-     * Calculate Safe transaction hash
-     */
-    calculateSafeTxHash(transaction: any, nonce: number): string {
-        // This is a simplified implementation
-        // In production, you would use the actual Safe contract's getTransactionHash method
-        const data = `${transaction.to}${transaction.value}${transaction.data}${transaction.operation}${nonce}`;
-        
-        // Simple hash calculation
-        let hash = 0;
-        for (let i = 0; i < data.length; i++) {
-            const char = data.charCodeAt(i);
-            hash = ((hash << 5) - hash) + char;
-            hash = hash & hash;
-        }
-        
-        return '0x' + Math.abs(hash).toString(16).padStart(64, '0');
-    }
-
-    /**
-     * Generate placeholder signature
-     */
-    generatePlaceholderSignature(signerAddress: string): string {
-        return '0x000000000000000000000000' + signerAddress.slice(2) + 
-               '0000000000000000000000000000000000000000000000000000000000000000' +
-               '0000000000000000000000000000000000000000000000000000000000000001';
-    }
-
     /**
      * View transaction details
      */
@@ -1564,8 +3514,9 @@ class SafeManager {
             // If no hash, find the first transaction without safeTxHash
             transaction = this.pendingTransactions.find(tx => !tx.safeTxHash);
         } else {
-            // Find transaction by safeTxHash
-            transaction = this.pendingTransactions.find(tx => tx.safeTxHash === safeTxHash);
+            // Find transaction by safeTxHash, in the queue or the history
+            transaction = this.pendingTransactions.find(tx => tx.safeTxHash === safeTxHash)
+                || this.historyTransactions.find(tx => tx.safeTxHash === safeTxHash);
         }
         
         if (!transaction) {
@@ -1611,12 +3562,61 @@ class SafeManager {
         `).join('');
     }
 
+    /**
+     * Decode a transaction's calldata with the service data, saved ABIs and known selectors
+     */
+    decodeTransaction(transaction: Pick<PendingTransaction, 'to' | 'data' | 'dataDecoded'>): DecodedCall | null {
+        return decodeTransactionData(transaction, this.config?.chainId || DEFAULT_CHAIN_ID, this.abiStore);
+    }
+
+    /**
+     * Render a decoded call: method, typed arguments and nested batch calls.
+     * Compact mode truncates long values for transaction cards
+     */
+    renderDecodedCall(decoded: DecodedCall, compact: boolean = false): string {
+        const formatValue = (value: unknown) => {
+            const text = formatDecodedValue(value);
+            return this.escapeHtml(compact && text.length > 42 ? `${text.slice(0, 20)}...${text.slice(-8)}` : text);
+        };
+
+        const parameters = decoded.calls ? [] : decoded.parameters;
+
+        return `
+            <div class="decoded-call">
+                <div class="decoded-method">
+                    ${this.escapeHtml(decoded.method)}
+                    <span class="decoded-source" title="Decoded from ${decoded.source}">${decoded.source}</span>
+                </div>
+                ${parameters.map(parameter => `
+                    <div class="decoded-param">
+                        <span class="decoded-param-name">${this.escapeHtml(parameter.name)}</span>
+                        <span class="decoded-param-type">${this.escapeHtml(parameter.type)}</span>
+                        <span class="decoded-param-value hash">${formatValue(parameter.value)}</span>
+                    </div>
+                `).join('')}
+                ${decoded.calls ? `
+                    <div class="decoded-batch">
+                        ${decoded.calls.map((call, index) => `
+                            <div class="batched-call">
+                                <div><strong>#${index + 1}</strong> ${call.operation === 1 ? 'DelegateCall' : 'Call'} to <span title="${call.to}">${this.renderExplorerLink(call.to, 'address')}</span>${BigInt(call.value || 0) > 0n ? `, ${formatEther(BigInt(call.value))} ${this.getCurrencySymbol()}` : ''}</div>
+                                ${call.decoded
+                                    ? this.renderDecodedCall(call.decoded, compact)
+                                    : `<div class="hash">${compact ? formatValue(call.data) : call.data}</div>`}
+                            </div>
+                        `).join('')}
+                    </div>
+                ` : ''}
+            </div>
+        `;
+    }
+
     showTransactionModal(transaction: PendingTransaction): void {
         const modalContent = document.getElementById('transactionDetailsContent');
         if (!modalContent) return;
 
         const confirmations = transaction.confirmations || [];
         const confirmationsRequired = transaction.confirmationsRequired || 0;
+        const decoded = this.decodeTransaction(transaction);
 
         modalContent.innerHTML = `
             <div class="transaction-detail-item">
@@ -1625,12 +3625,24 @@ class SafeManager {
             </div>
             <div class="transaction-detail-item">
                 <span class="transaction-detail-label">To Address:</span>
-                <span class="transaction-detail-value hash" title="${transaction.to || 'N/A'}">${this.createTruncatedAddress(transaction.to || 'N/A')}</span>
+                <span class="transaction-detail-value hash" title="${transaction.to || 'N/A'}">${this.renderExplorerLink(transaction.to, 'address')}</span>
             </div>
             <div class="transaction-detail-item">
                 <span class="transaction-detail-label">Value:</span>
-                <span class="transaction-detail-value">${transaction.value || '0'} ETH</span>
+                <span class="transaction-detail-value">${formatEther(BigInt(transaction.value || 0))} ${this.getCurrencySymbol()}</span>
             </div>
+            ${transaction.transactionHash ? `
+            <div class="transaction-detail-item">
+                <span class="transaction-detail-label">Execution Tx:</span>
+                <span class="transaction-detail-value hash">${this.renderExplorerLink(transaction.transactionHash, 'tx')}</span>
+            </div>
+            ` : ''}
+            ${decoded ? `
+            <div class="transaction-detail-item">
+                <span class="transaction-detail-label">Decoded:</span>
+                <div class="transaction-detail-value">${this.renderDecodedCall(decoded)}</div>
+            </div>
+            ` : ''}
             <div class="transaction-detail-item">
                 <span class="transaction-detail-label">Data:</span>
                 <span class="transaction-detail-value hash">${transaction.data || '0x'}</span>
@@ -1674,6 +3686,13 @@ class SafeManager {
                     ${this.renderPendingConfirmations(confirmations, confirmationsRequired)}
                 </div>
             </div>
+            ${transaction.safeTxHash ? `
+            <div class="form-actions">
+                <button class="btn btn-secondary" onclick="safeManager.exportTransaction('${transaction.safeTxHash}')">
+                    Export as Transaction Builder JSON
+                </button>
+            </div>
+            ` : ''}
         `;
 
         // Show modal
@@ -1708,14 +3727,7 @@ class SafeManager {
      * Pause auto refresh
      */
     pauseAutoRefresh(): void {
-        if (this.refreshInterval) {
-            clearInterval(this.refreshInterval);
-            this.refreshInterval = null;
-        }
-        if (this.countdownInterval) {
-            clearInterval(this.countdownInterval);
-            this.countdownInterval = null;
-        }
+        this.stopAutoRefresh();
     }
 
     /**
@@ -1743,18 +3755,45 @@ class SafeManager {
             isDeployedElement.className = 'status-value deployed';
         }
 
+        // Update Owners and threshold
+        const ownersElement = document.getElementById('safeOwners');
+        if (ownersElement) {
+            ownersElement.textContent = `${safeInfo.threshold} of ${safeInfo.owners.length}`;
+            ownersElement.title = safeInfo.owners.join('\n');
+        }
+
+        // Update modules, guard and fallback handler
+        const modulesElement = document.getElementById('safeModules');
+        if (modulesElement) {
+            modulesElement.innerHTML = safeInfo.modules.length > 0
+                ? safeInfo.modules.map(module => this.renderExplorerLink(module, 'address')).join(', ')
+                : 'None';
+        }
+
+        const guardElement = document.getElementById('safeGuard');
+        if (guardElement) {
+            guardElement.innerHTML = isUnset(safeInfo.guard) ? 'None' : this.renderExplorerLink(safeInfo.guard, 'address');
+        }
+
+        const fallbackHandlerElement = document.getElementById('safeFallbackHandler');
+        if (fallbackHandlerElement) {
+            fallbackHandlerElement.innerHTML = isUnset(safeInfo.fallbackHandler)
+                ? 'None'
+                : this.renderExplorerLink(safeInfo.fallbackHandler, 'address');
+        }
+
         // Update Signer Address
         const signerAddressElement = document.getElementById('signerAddress');
-        if (signerAddressElement && this.config) {
-            const signerAddr = this.getSignerAddress(this.config.privateKey);
+        if (signerAddressElement && this.signerAddress) {
+            const signerAddr = this.signerAddress;
             signerAddressElement.textContent = this.createTruncatedAddress(signerAddr);
             signerAddressElement.title = signerAddr; // Add tooltip with full address
         }
 
         // Update Signer Balance with real balance query
         const signerBalanceElement = document.getElementById('signerBalance');
-        if (signerBalanceElement && this.config) {
-            const signerAddr = this.getSignerAddress(this.config.privateKey);
+        if (signerBalanceElement && this.signerAddress) {
+            const signerAddr = this.signerAddress;
             this.updateSignerBalance(signerAddr, signerBalanceElement);
         }
 
@@ -1780,7 +3819,7 @@ class SafeManager {
             }
 
             const balance = await this.getAddressBalance(signerAddress);
-            element.textContent = balance;
+            element.textContent = `${balance} ${this.getCurrencySymbol()}`;
         } catch (error) {
             console.error('Error updating signer balance:', error);
             element.textContent = 'Error';
@@ -1839,6 +3878,26 @@ class SafeManager {
         }
     }
 
+    /**
+     * Native currency symbol of the configured chain
+     */
+    getCurrencySymbol(): string {
+        return getNativeCurrency(this.config?.chainId || DEFAULT_CHAIN_ID);
+    }
+
+    /**
+     * Render an address or transaction hash as a block explorer link when the chain has an explorer
+     */
+    renderExplorerLink(value: string | null, kind: 'address' | 'tx'): string {
+        if (!value) return 'N/A';
+
+        const label = kind === 'address' ? this.createTruncatedAddress(value) : value;
+        const chainId = this.config?.chainId || DEFAULT_CHAIN_ID;
+        const url = kind === 'address' ? getExplorerAddressUrl(chainId, value) : getExplorerTxUrl(chainId, value);
+
+        return url ? `<a href="${url}" target="_blank" rel="noopener noreferrer" class="explorer-link">${label}</a>` : label;
+    }
+
     /**
      * Create truncated address for display
      */
@@ -1852,62 +3911,86 @@ class SafeManager {
      */
     startAutoRefresh(): void {
         this.stopAutoRefresh();
-        
-        // Immediately load transactions
+        this.autoRefreshActive = true;
+        this.idleRefreshes = 0;
+
+        // Executions, approvals and setting changes show up without waiting for the next poll
+        if (this.config?.safeAddress) {
+            this.core.startWatching(nextRefreshDelay(document.hidden, this.idleRefreshes));
+        }
+
+        // Immediately load transactions; every refresh schedules the next one
         this.refreshPendingTransactions();
-        
-        // Set up interval for future refreshes
-        this.refreshInterval = setInterval(() => {
-            this.refreshPendingTransactions();
-        }, 10000);
-        this.startCountdown();
     }
 
     /**
      * Stop auto refresh
      */
     stopAutoRefresh(): void {
-        if (this.refreshInterval) {
-            clearInterval(this.refreshInterval);
-            this.refreshInterval = null;
+        this.autoRefreshActive = false;
+        if (this.refreshTimer) {
+            clearTimeout(this.refreshTimer);
+            this.refreshTimer = null;
         }
         if (this.countdownInterval) {
             clearInterval(this.countdownInterval);
             this.countdownInterval = null;
         }
+        this.core.stopWatching();
+    }
+
+    /**
+     * Schedule the next refresh, backing off while the page is hidden
+     */
+    scheduleRefresh(): void {
+        if (!this.autoRefreshActive) return;
+
+        if (this.refreshTimer) {
+            clearTimeout(this.refreshTimer);
+        }
+        const delay = nextRefreshDelay(document.hidden, this.idleRefreshes);
+        this.refreshTimer = setTimeout(() => {
+            this.refreshTimer = null;
+            this.refreshPendingTransactions();
+        }, delay * 1000);
+        this.startCountdown(delay);
+    }
+
+    /**
+     * Refresh as soon as the page becomes visible again; hidden pages only slow their polling
+     */
+    handleVisibilityChange(): void {
+        if (!this.autoRefreshActive) return;
+
+        // Log polling follows the refresh interval; subscriptions are unaffected
+        if (!this.core.watchesBySubscription) {
+            this.core.startWatching(nextRefreshDelay(document.hidden, this.idleRefreshes));
+        }
+        if (!document.hidden) {
+            this.idleRefreshes = 0;
+            this.refreshPendingTransactions();
+        }
     }
 
     /**
      * Start countdown timer
      */
-    startCountdown(): void {
+    startCountdown(seconds: number = REFRESH_INTERVAL_SECONDS): void {
         // Clear any existing countdown
         if (this.countdownInterval) {
             clearInterval(this.countdownInterval);
             this.countdownInterval = null;
         }
         
-        this.countdownSeconds = 10;
+        this.countdownSeconds = seconds;
         this.updateCountdownDisplay();
         
         this.countdownInterval = setInterval(() => {
-            this.countdownSeconds--;
+            this.countdownSeconds = Math.max(this.countdownSeconds - 1, 0);
             this.updateCountdownDisplay();
-            if (this.countdownSeconds <= 0) {
-                this.resetCountdown();
-            }
         }, 1000);
     }
 
-    /**
-     * Reset countdown
-     */
-    resetCountdown(): void {
-        // Only reset the counter, don't restart the interval
-        this.countdownSeconds = 10;
-        this.updateCountdownDisplay();
-    }
-
     /**
      * Update countdown display
      */
@@ -1975,6 +4058,101 @@ class SafeManager {
         }
     }
 
+    /**
+     * Show or hide loading overlay for Manage Owners modal
+     */
+    showOwnersLoading(show: boolean, message: string = 'Proposing owner change...'): void {
+        const overlay = document.getElementById('ownersLoadingOverlay');
+        const messageElement = overlay?.querySelector('.modal-loading-text');
+        
+        if (overlay) {
+            if (show) {
+                overlay.classList.remove('hidden');
+                if (messageElement) {
+                    messageElement.textContent = message;
+                }
+            } else {
+                overlay.classList.add('hidden');
+            }
+        }
+    }
+
+    /**
+     * Show or hide loading overlay for Modules & Guard modal
+     */
+    showSettingsLoading(show: boolean, message: string = 'Proposing change...'): void {
+        const overlay = document.getElementById('settingsLoadingOverlay');
+        const messageElement = overlay?.querySelector('.modal-loading-text');
+        
+        if (overlay) {
+            if (show) {
+                overlay.classList.remove('hidden');
+                if (messageElement) {
+                    messageElement.textContent = message;
+                }
+            } else {
+                overlay.classList.add('hidden');
+            }
+        }
+    }
+
+    /**
+     * Show or hide loading overlay for Dry-run Queue modal
+     */
+    showDryRunLoading(show: boolean, message: string = 'Running queue...'): void {
+        const overlay = document.getElementById('dryRunLoadingOverlay');
+        const messageElement = overlay?.querySelector('.modal-loading-text');
+        
+        if (overlay) {
+            if (show) {
+                overlay.classList.remove('hidden');
+                if (messageElement) {
+                    messageElement.textContent = message;
+                }
+            } else {
+                overlay.classList.add('hidden');
+            }
+        }
+    }
+
+    /**
+     * Show/hide loading overlay for the asset transfer modal
+     */
+    showSendLoading(show: boolean, message: string = 'Proposing transfer...'): void {
+        const overlay = document.getElementById('sendLoadingOverlay');
+        const messageElement = overlay?.querySelector('.modal-loading-text');
+        
+        if (overlay) {
+            if (show) {
+                overlay.classList.remove('hidden');
+                if (messageElement) {
+                    messageElement.textContent = message;
+                }
+            } else {
+                overlay.classList.add('hidden');
+            }
+        }
+    }
+
+    /**
+     * Show/hide loading overlay for the batch import modal
+     */
+    showImportBatchLoading(show: boolean, message: string = 'Proposing batch...'): void {
+        const overlay = document.getElementById('importBatchLoadingOverlay');
+        const messageElement = overlay?.querySelector('.modal-loading-text');
+        
+        if (overlay) {
+            if (show) {
+                overlay.classList.remove('hidden');
+                if (messageElement) {
+                    messageElement.textContent = message;
+                }
+            } else {
+                overlay.classList.add('hidden');
+            }
+        }
+    }
+
     /**
      * Show error message
      */
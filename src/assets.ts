@@ -0,0 +1,101 @@
+/**
+ * Safe asset balances
+ * Reads the native balance and the token list's ERC-20 / ERC-721 holdings straight from the RPC,
+ * sending the reads as batched JSON-RPC requests
+ */
+
+import { createPublicClient, http, parseAbi } from 'viem';
+import { TokenListEntry } from './tokenList';
+
+/** Owned ERC-721 IDs are only enumerated up to this many per collection */
+const MAX_ENUMERATED_TOKENS = 20;
+
+const ASSET_ABI = parseAbi([
+    'function name() view returns (string)',
+    'function symbol() view returns (string)',
+    'function decimals() view returns (uint8)',
+    'function balanceOf(address owner) view returns (uint256)',
+    'function tokenOfOwnerByIndex(address owner, uint256 index) view returns (uint256)'
+]);
+
+export interface AssetBalance {
+    kind: 'native' | 'erc20' | 'erc721';
+    /** Token contract, null for the native currency */
+    token: string | null;
+    name: string;
+    symbol: string;
+    decimals: number;
+    /** Base units for fungible assets, number of NFTs for ERC-721 */
+    balance: bigint;
+    /** Owned ERC-721 IDs, when the collection supports enumeration */
+    tokenIds: bigint[];
+    /** Read failure, e.g. the address is not a token on this chain */
+    error: string | null;
+}
+
+/**
+ * Read the Safe's native balance and the balances of every listed token
+ */
+export async function fetchSafeAssets(
+    rpcUrl: string,
+    safeAddress: string,
+    tokens: TokenListEntry[],
+    nativeSymbol: string
+): Promise<AssetBalance[]> {
+    // Requests issued in the same tick go out as one JSON-RPC batch
+    const publicClient = createPublicClient({ transport: http(rpcUrl, { batch: true }) });
+    const safe = safeAddress as `0x${string}`;
+
+    const native = publicClient.getBalance({ address: safe }).then(balance => ({
+        kind: 'native' as const,
+        token: null,
+        name: nativeSymbol,
+        symbol: nativeSymbol,
+        decimals: 18,
+        balance,
+        tokenIds: [],
+        error: null
+    }));
+
+    const holdings = tokens.map(async (entry): Promise<AssetBalance> => {
+        const address = entry.address as `0x${string}`;
+        const read = <T>(functionName: 'name' | 'symbol' | 'decimals', fallback: T) =>
+            publicClient.readContract({ address, abi: ASSET_ABI, functionName }).catch(() => fallback) as Promise<T>;
+
+        const asset: AssetBalance = {
+            kind: entry.kind,
+            token: entry.address,
+            name: entry.name || '',
+            symbol: entry.symbol || '',
+            decimals: entry.decimals ?? 0,
+            balance: 0n,
+            tokenIds: [],
+            error: null
+        };
+
+        try {
+            const [balance, name, symbol, decimals] = await Promise.all([
+                publicClient.readContract({ address, abi: ASSET_ABI, functionName: 'balanceOf', args: [safe] }),
+                entry.name ? entry.name : read<string>('name', ''),
+                entry.symbol ? entry.symbol : read<string>('symbol', '???'),
+                entry.kind === 'erc20' && entry.decimals === undefined ? read<number>('decimals', 18) : asset.decimals
+            ]);
+            Object.assign(asset, { balance, name, symbol, decimals: Number(decimals) });
+        } catch (error: any) {
+            asset.error = error.shortMessage || error.message;
+            return asset;
+        }
+
+        if (entry.kind === 'erc721' && asset.balance > 0n) {
+            const count = Number(asset.balance < BigInt(MAX_ENUMERATED_TOKENS) ? asset.balance : BigInt(MAX_ENUMERATED_TOKENS));
+            // Collections without ERC721Enumerable only report the count
+            asset.tokenIds = await Promise.all(Array.from({ length: count }, (_, index) =>
+                publicClient.readContract({ address, abi: ASSET_ABI, functionName: 'tokenOfOwnerByIndex', args: [safe, BigInt(index)] })
+            )).catch(() => []);
+        }
+
+        return asset;
+    });
+
+    return await Promise.all([native, ...holdings]);
+}
@@ -0,0 +1,177 @@
+/**
+ * Chain registry
+ * Network presets with their Transaction Service, native currency and block explorer
+ */
+
+export interface ChainPreset {
+    chainId: number;
+    name: string;
+    /** EIP-3770 short name */
+    shortName: string;
+    nativeCurrency: string;
+    defaultRpcUrl: string;
+    /** Transaction Service base URL, without the `/api` suffix */
+    txServiceUrl: string;
+    /** Block explorer base URL, empty when the chain has none */
+    explorerUrl: string;
+}
+
+export const CHAINS: ChainPreset[] = [
+    {
+        chainId: 1,
+        name: 'Ethereum Mainnet',
+        shortName: 'eth',
+        nativeCurrency: 'ETH',
+        defaultRpcUrl: 'https://ethereum-rpc.publicnode.com',
+        txServiceUrl: 'https://safe-transaction-mainnet.safe.global',
+        explorerUrl: 'https://etherscan.io'
+    },
+    {
+        chainId: 10,
+        name: 'OP Mainnet',
+        shortName: 'oeth',
+        nativeCurrency: 'ETH',
+        defaultRpcUrl: 'https://mainnet.optimism.io',
+        txServiceUrl: 'https://safe-transaction-optimism.safe.global',
+        explorerUrl: 'https://optimistic.etherscan.io'
+    },
+    {
+        chainId: 56,
+        name: 'BNB Smart Chain',
+        shortName: 'bnb',
+        nativeCurrency: 'BNB',
+        defaultRpcUrl: 'https://bsc-dataseed.binance.org',
+        txServiceUrl: 'https://safe-transaction-bsc.safe.global',
+        explorerUrl: 'https://bscscan.com'
+    },
+    {
+        chainId: 100,
+        name: 'Gnosis Chain',
+        shortName: 'gno',
+        nativeCurrency: 'xDAI',
+        defaultRpcUrl: 'https://rpc.gnosischain.com',
+        txServiceUrl: 'https://safe-transaction-gnosis-chain.safe.global',
+        explorerUrl: 'https://gnosisscan.io'
+    },
+    {
+        chainId: 137,
+        name: 'Polygon',
+        shortName: 'matic',
+        nativeCurrency: 'POL',
+        defaultRpcUrl: 'https://polygon-rpc.com',
+        txServiceUrl: 'https://safe-transaction-polygon.safe.global',
+        explorerUrl: 'https://polygonscan.com'
+    },
+    {
+        chainId: 324,
+        name: 'zkSync Era',
+        shortName: 'zksync',
+        nativeCurrency: 'ETH',
+        defaultRpcUrl: 'https://mainnet.era.zksync.io',
+        txServiceUrl: 'https://safe-transaction-zksync.safe.global',
+        explorerUrl: 'https://explorer.zksync.io'
+    },
+    {
+        chainId: 8453,
+        name: 'Base',
+        shortName: 'base',
+        nativeCurrency: 'ETH',
+        defaultRpcUrl: 'https://mainnet.base.org',
+        txServiceUrl: 'https://safe-transaction-base.safe.global',
+        explorerUrl: 'https://basescan.org'
+    },
+    {
+        chainId: 42161,
+        name: 'Arbitrum One',
+        shortName: 'arb1',
+        nativeCurrency: 'ETH',
+        defaultRpcUrl: 'https://arb1.arbitrum.io/rpc',
+        txServiceUrl: 'https://safe-transaction-arbitrum.safe.global',
+        explorerUrl: 'https://arbiscan.io'
+    },
+    {
+        chainId: 59144,
+        name: 'Linea',
+        shortName: 'linea',
+        nativeCurrency: 'ETH',
+        defaultRpcUrl: 'https://rpc.linea.build',
+        txServiceUrl: 'https://safe-transaction-linea.safe.global',
+        explorerUrl: 'https://lineascan.build'
+    },
+    {
+        chainId: 11155111,
+        name: 'Sepolia',
+        shortName: 'sep',
+        nativeCurrency: 'ETH',
+        defaultRpcUrl: 'https://ethereum-sepolia-rpc.publicnode.com',
+        txServiceUrl: 'https://safe-transaction-sepolia.safe.global',
+        explorerUrl: 'https://sepolia.etherscan.io'
+    },
+    {
+        chainId: 133,
+        name: 'HashKey Chain Testnet',
+        shortName: 'hsktest',
+        nativeCurrency: 'HSK',
+        defaultRpcUrl: 'https://testnet.hsk.xyz',
+        txServiceUrl: 'http://localhost:8000',
+        explorerUrl: 'https://testnet-explorer.hsk.xyz'
+    },
+    {
+        chainId: 31337,
+        name: 'Local Devnet',
+        shortName: 'local',
+        nativeCurrency: 'ETH',
+        defaultRpcUrl: 'http://127.0.0.1:8545',
+        txServiceUrl: 'http://localhost:8000',
+        explorerUrl: ''
+    }
+];
+
+export const DEFAULT_CHAIN_ID = 11155111;
+
+/** Default address of the bundled mock Transaction Service (`npm run mock-tx-service`) */
+export const SANDBOX_TX_SERVICE_URL = 'http://localhost:8000';
+
+/**
+ * Look up a chain preset by ID
+ */
+export function getChain(chainId: number): ChainPreset | undefined {
+    return CHAINS.find(chain => chain.chainId === chainId);
+}
+
+/**
+ * Native currency symbol, falling back to ETH for unknown chains
+ */
+export function getNativeCurrency(chainId: number): string {
+    return getChain(chainId)?.nativeCurrency || 'ETH';
+}
+
+/**
+ * Explorer link for an address, or null when the chain has no explorer
+ */
+export function getExplorerAddressUrl(chainId: number, address: string): string | null {
+    const explorerUrl = getChain(chainId)?.explorerUrl;
+    return explorerUrl ? `${explorerUrl}/address/${address}` : null;
+}
+
+/**
+ * Explorer link for a transaction hash, or null when the chain has no explorer
+ */
+export function getExplorerTxUrl(chainId: number, hash: string): string | null {
+    const explorerUrl = getChain(chainId)?.explorerUrl;
+    return explorerUrl ? `${explorerUrl}/tx/${hash}` : null;
+}
+
+/**
+ * Strip trailing slashes and a trailing `/api` so the URL can be used as the service base
+ */
+export function normalizeTxServiceUrl(url: string): string {
+    return url.trim().replace(/\/+$/, '').replace(/\/api$/, '');
+}
+
+/**
+ * URL expected by the Safe API Kit (`<base>/api`)
+ */
+export function getTxServiceApiUrl(baseUrl: string): string {
+    return `${normalizeTxServiceUrl(baseUrl)}/api`;
+}
@@ -0,0 +1,779 @@
+/**
+ * Safe core
+ * Framework-agnostic Safe logic: holds the configuration, signer, Safe info and queue, runs the
+ * propose / confirm / execute / create actions and reports state changes as typed events.
+ * It never touches the DOM, so it can back the web UI as well as scripts
+ */
+
+import { createSafeClient, SafeClient } from '@safe-global/sdk-starter-kit';
+import Safe, { Eip1193Provider, PredictedSafeProps } from '@safe-global/protocol-kit';
+import { createPublicClient, getAddress, http, isAddress, parseAbi } from 'viem';
+import { waitForTransactionReceipt } from 'viem/actions';
+import { TypedEventEmitter } from './events';
+import { SafeConfig, SafeInfo, PendingTransaction } from './types';
+import { Signer, createSigner } from './signers';
+import { SafeTxData, ZERO_ADDRESS, buildSafeTxTypedData, calculateSafeTxHash } from './safeTxHash';
+import { MultiSendCall, BatchMode, buildMultiSendTransaction } from './multiSend';
+import { TransactionStore, ServiceTransactionStore, LocalTransactionStore, isDeletable } from './transactionStore';
+import { getExecutionBlocker, getConfirmationBlocker, isRejection, buildRejectionCall } from './queue';
+import { FALLBACK_HANDLER_SLOT, GUARD_SLOT, QueueChanges, SafeEventSummary, SafeEventWatcher, diffTransactions } from './liveUpdates';
+import { buildPreValidatedSignature, packSignatures, encodeExecTransaction, isExecutionSuccessful } from './execution';
+import { getChain, getTxServiceApiUrl } from './chains';
+import { DEVNET_SAFE_VERSION, getContractNetworks } from './devnet';
+
+export interface QueueUpdate {
+    transactions: PendingTransaction[];
+    changes: QueueChanges;
+    /** The Safe's on-chain nonce moved since the previous refresh */
+    nonceChanged: boolean;
+}
+
+export interface SafeCoreEvents {
+    configChanged: SafeConfig | null;
+    safeInfoChanged: SafeInfo | null;
+    /** Emitted after every queue refresh, even when nothing changed */
+    queueChanged: QueueUpdate;
+    /** Safe events seen on-chain while watching */
+    safeEvents: SafeEventSummary;
+    /** Failures of background work; actions throw to their caller instead */
+    error: { context: string; error: Error };
+}
+
+export interface ProposeParams {
+    calls: MultiSendCall[];
+    batchMode?: BatchMode;
+    safeTxGas?: number;
+    /** Defaults to the next free nonce; set it to replace a queued proposal */
+    nonce?: number;
+}
+
+export interface SafeCoreOptions {
+    /** EIP-1193 provider for the injected signer type */
+    injectedProvider?: Eip1193Provider;
+    /** Progress details such as deployment receipts; defaults to console.log */
+    logger?: (...args: unknown[]) => void;
+}
+
+export class SafeCore extends TypedEventEmitter<SafeCoreEvents> {
+    private currentConfig: SafeConfig | null = null;
+    private currentSafeClient: SafeClient | null = null;
+    private currentSafeInfo: SafeInfo | null = null;
+    private currentTransactions: PendingTransaction[] = [];
+    private signer: Signer | null = null;
+    private currentSignerAddress: string = '';
+    private keystorePassword: string = '';
+    private refreshChain: Promise<unknown> = Promise.resolve();
+    private eventWatcher: SafeEventWatcher | null = null;
+
+    constructor(private options: SafeCoreOptions = {}) {
+        super();
+    }
+
+    private log(...args: unknown[]): void {
+        (this.options.logger ?? console.log)(...args);
+    }
+
+    get config(): SafeConfig | null {
+        return this.currentConfig;
+    }
+
+    get safeClient(): SafeClient | null {
+        return this.currentSafeClient;
+    }
+
+    get safeInfo(): SafeInfo | null {
+        return this.currentSafeInfo;
+    }
+
+    get pendingTransactions(): PendingTransaction[] {
+        return this.currentTransactions;
+    }
+
+    /** Address of the configured signer, once resolved */
+    get signerAddress(): string {
+        return this.currentSignerAddress;
+    }
+
+    /**
+     * Use a new configuration, or none to forget key material. The signer and Safe client are
+     * rebuilt on next use; Safe info and queue stay until the next connect or refresh
+     */
+    configure(config: SafeConfig | null, keystorePassword: string = ''): void {
+        this.currentConfig = config;
+        this.keystorePassword = keystorePassword;
+        this.signer = null;
+        this.currentSafeClient = null;
+        this.emit('configChanged', config);
+    }
+
+    /**
+     * Forget configuration, signer, Safe info and queue
+     */
+    reset(): void {
+        this.stopWatching();
+        this.configure(null);
+        this.currentSignerAddress = '';
+        this.currentSafeInfo = null;
+        this.currentTransactions = [];
+        this.emit('safeInfoChanged', null);
+    }
+
+    /**
+     * True when SafeTxs and signatures are kept in the browser instead of the Transaction Service
+     */
+    usesLocalStore(): boolean {
+        return this.currentConfig?.transactionStore === 'local';
+    }
+
+    /**
+     * True when the Safe SDK client is used. It is bound to the Transaction Service and cannot be
+     * given contract addresses, so the local store and the devnet work without it
+     */
+    private usesSafeClient(): boolean {
+        return !this.usesLocalStore() && !getContractNetworks(this.currentConfig?.chainId || 0);
+    }
+
+    private requireConfig(): SafeConfig {
+        if (!this.currentConfig) {
+            throw new Error('Configuration not loaded');
+        }
+        return this.currentConfig;
+    }
+
+    /**
+     * Build the signer from configuration and resolve its address
+     */
+    async initializeSigner(): Promise<Signer> {
+        const config = this.requireConfig();
+
+        if (!this.signer) {
+            const signer = createSigner(config.signer, {
+                rpcUrl: config.rpcUrl,
+                injectedProvider: this.options.injectedProvider,
+                keystorePassword: this.keystorePassword
+            });
+            this.currentSignerAddress = await signer.getAddress();
+            this.signer = signer;
+        }
+
+        return this.signer;
+    }
+
+    /**
+     * Initialize the Safe SDK client. There is none without a Safe address, with the local store,
+     * on the devnet, or when the Transaction Service cannot be reached
+     */
+    async initializeSafeClient(): Promise<SafeClient | null> {
+        const config = this.requireConfig();
+
+        if (!config.safeAddress || config.safeAddress.trim() === '' || !this.usesSafeClient()) {
+            this.currentSafeClient = null;
+            return null;
+        }
+
+        try {
+            const signer = await this.initializeSigner();
+            const credentials = await signer.getSafeSdkCredentials();
+
+            this.currentSafeClient = await createSafeClient({
+                provider: credentials.provider,
+                signer: credentials.signer,
+                safeAddress: config.safeAddress,
+                txServiceUrl: getTxServiceApiUrl(config.txServiceUrl)
+            });
+        } catch (error) {
+            this.currentSafeClient = null;
+        }
+        return this.currentSafeClient;
+    }
+
+    /**
+     * Protocol Kit for the connected Safe, reusing the Safe client's instance when available
+     */
+    async getProtocolKit(): Promise<Safe> {
+        const config = this.requireConfig();
+
+        if (this.currentSafeClient?.protocolKit) {
+            return this.currentSafeClient.protocolKit;
+        }
+
+        const signer = await this.initializeSigner();
+        const credentials = await signer.getSafeSdkCredentials();
+        return await Safe.init({
+            provider: credentials.provider,
+            signer: credentials.signer,
+            safeAddress: config.safeAddress,
+            contractNetworks: getContractNetworks(config.chainId)
+        });
+    }
+
+    /**
+     * Compare the RPC's eth_chainId with the configured chain
+     */
+    async verifyRpcChain(): Promise<void> {
+        const config = this.requireConfig();
+
+        const response = await fetch(config.rpcUrl, {
+            method: 'POST',
+            headers: {
+                'Content-Type': 'application/json',
+            },
+            body: JSON.stringify({
+                jsonrpc: '2.0',
+                method: 'eth_chainId',
+                params: [],
+                id: 1
+            })
+        });
+
+        if (!response.ok) {
+            throw new Error(`RPC request failed: ${response.statusText}`);
+        }
+
+        const data = await response.json();
+        if (data.error) {
+            throw new Error(`RPC error: ${data.error.message}`);
+        }
+
+        const rpcChainId = parseInt(data.result, 16);
+        if (rpcChainId !== config.chainId) {
+            const expected = getChain(config.chainId)?.name || `chain ${config.chainId}`;
+            const actual = getChain(rpcChainId)?.name || `chain ${rpcChainId}`;
+            throw new Error(`RPC URL points to ${actual} (${rpcChainId}), but the configuration is for ${expected} (${config.chainId})`);
+        }
+    }
+
+    /**
+     * Check the RPC, resolve the signer and load the Safe's info
+     */
+    async connect(): Promise<SafeInfo> {
+        const config = this.requireConfig();
+        if (!config.safeAddress) {
+            throw new Error('Safe address is required to connect');
+        }
+
+        // Make sure the RPC serves the configured network
+        await this.verifyRpcChain();
+
+        // Resolve the signer before talking to the Safe
+        await this.initializeSigner();
+        await this.initializeSafeClient();
+
+        // Without the Safe client everything is read on-chain
+        const protocolKit = this.currentSafeClient?.protocolKit || (!this.usesSafeClient() ? await this.getProtocolKit() : null);
+
+        let safeInfo: SafeInfo;
+        if (protocolKit) {
+            safeInfo = {
+                address: await protocolKit.getAddress(),
+                nonce: await protocolKit.getNonce(),
+                threshold: await protocolKit.getThreshold(),
+                owners: await protocolKit.getOwners(),
+                modules: await protocolKit.getModules(),
+                // Guards (1.3.0) and fallback handlers (1.1.0) are missing on older Safes
+                fallbackHandler: await protocolKit.getFallbackHandler().catch(() => ''),
+                guard: await protocolKit.getGuard().catch(() => ''),
+                version: protocolKit.getContractVersion()
+            };
+        } else {
+            safeInfo = await this.fetchServiceSafeInfo();
+        }
+
+        this.setSafeInfo(safeInfo);
+        return safeInfo;
+    }
+
+    /**
+     * Safe info from the Transaction Service, when the Safe client is unavailable
+     */
+    private async fetchServiceSafeInfo(): Promise<SafeInfo> {
+        const config = this.requireConfig();
+
+        const response = await fetch(`${config.txServiceUrl}/api/v2/safes/${config.safeAddress}/`);
+        if (!response.ok) {
+            throw new Error(`Failed to fetch Safe info: ${response.statusText}`);
+        }
+
+        const data = await response.json();
+        return {
+            address: data.address,
+            nonce: data.nonce,
+            threshold: data.threshold,
+            owners: data.owners,
+            modules: data.modules || [],
+            fallbackHandler: data.fallbackHandler || '',
+            guard: data.guard || '',
+            version: data.version || ''
+        };
+    }
+
+    private setSafeInfo(safeInfo: SafeInfo | null): void {
+        this.currentSafeInfo = safeInfo;
+        this.emit('safeInfoChanged', safeInfo);
+    }
+
+    /**
+     * Store holding the pending transactions of the configured Safe
+     */
+    getTransactionStore(): TransactionStore {
+        const config = this.requireConfig();
+
+        if (this.usesLocalStore()) {
+            return new LocalTransactionStore(config.rpcUrl, config.chainId, config.safeAddress);
+        }
+        return new ServiceTransactionStore(config.txServiceUrl, config.chainId, config.safeAddress, this.currentSafeClient);
+    }
+
+    /**
+     * Reload the queue and the on-chain nonce, then emit the diff against the previous queue.
+     * Refreshes run one after another, so overlapping callers cannot apply results out of order
+     */
+    refreshQueue(): Promise<QueueUpdate> {
+        const refresh = this.refreshChain.then(() => this.loadQueue());
+        this.refreshChain = refresh.catch(() => undefined);
+        return refresh;
+    }
+
+    private async loadQueue(): Promise<QueueUpdate> {
+        const transactions = await this.getTransactionStore().getPendingTransactions();
+
+        // Keep the nonce current so the queue knows what can execute
+        let nonceChanged = false;
+        if (this.currentSafeInfo) {
+            const nonce = await this.readSafeNonce().catch(() => this.currentSafeInfo!.nonce);
+            nonceChanged = nonce !== this.currentSafeInfo.nonce;
+            if (nonceChanged) {
+                this.setSafeInfo({ ...this.currentSafeInfo, nonce });
+            }
+        }
+
+        const update = { transactions, changes: diffTransactions(this.currentTransactions, transactions), nonceChanged };
+        this.currentTransactions = transactions;
+        this.emit('queueChanged', update);
+        return update;
+    }
+
+    /**
+     * Read the Safe's current nonce on-chain
+     */
+    async readSafeNonce(): Promise<number> {
+        const config = this.requireConfig();
+
+        const publicClient = createPublicClient({ transport: http(config.rpcUrl) });
+        return Number(await publicClient.readContract({
+            address: config.safeAddress as `0x${string}`,
+            abi: parseAbi(['function nonce() view returns (uint256)']),
+            functionName: 'nonce'
+        }));
+    }
+
+    /**
+     * Read the Safe contract version on-chain
+     */
+    async readSafeVersion(safeAddress: string): Promise<string> {
+        const config = this.requireConfig();
+
+        const publicClient = createPublicClient({ transport: http(config.rpcUrl) });
+        return await publicClient.readContract({
+            address: safeAddress as `0x${string}`,
+            abi: parseAbi(['function VERSION() view returns (string)']),
+            functionName: 'VERSION'
+        });
+    }
+
+    /**
+     * Re-read owners, threshold, nonce, modules, guard and fallback handler on-chain
+     */
+    async refreshSafeState(): Promise<SafeInfo | null> {
+        const config = this.requireConfig();
+        if (!this.currentSafeInfo) return null;
+
+        const publicClient = createPublicClient({ transport: http(config.rpcUrl, { batch: true }) });
+        const address = config.safeAddress as `0x${string}`;
+        const abi = parseAbi([
+            'function getOwners() view returns (address[])',
+            'function getThreshold() view returns (uint256)',
+            'function nonce() view returns (uint256)',
+            'function getModulesPaginated(address start, uint256 pageSize) view returns (address[] array, address next)'
+        ]);
+
+        const storageAddress = (slot: `0x${string}`) => publicClient.getStorageAt({ address, slot })
+            .then(value => value && BigInt(value) !== 0n ? getAddress(`0x${value.slice(-40)}`) : ZERO_ADDRESS);
+
+        const [owners, threshold, nonce, [modules], fallbackHandler, guard] = await Promise.all([
+            publicClient.readContract({ address, abi, functionName: 'getOwners' }),
+            publicClient.readContract({ address, abi, functionName: 'getThreshold' }),
+            publicClient.readContract({ address, abi, functionName: 'nonce' }),
+            // Module pages start at the sentinel address
+            publicClient.readContract({ address, abi, functionName: 'getModulesPaginated', args: ['0x0000000000000000000000000000000000000001', 100n] }),
+            storageAddress(FALLBACK_HANDLER_SLOT),
+            storageAddress(GUARD_SLOT)
+        ]);
+
+        const safeInfo = {
+            ...this.currentSafeInfo,
+            owners: [...owners],
+            threshold: Number(threshold),
+            nonce: Number(nonce),
+            modules: [...modules],
+            fallbackHandler,
+            guard
+        };
+        this.setSafeInfo(safeInfo);
+        return safeInfo;
+    }
+
+    /**
+     * Sign a SafeTx as EIP-712 typed data with the configured signer
+     */
+    async signSafeTransaction(safeTx: SafeTxData, version?: string): Promise<{ safeTxHash: string; signature: string }> {
+        const config = this.requireConfig();
+
+        const signer = await this.initializeSigner();
+        const safeVersion = version || this.currentSafeInfo?.version || await this.readSafeVersion(config.safeAddress);
+        const typedData = buildSafeTxTypedData(config.chainId, config.safeAddress, safeVersion, safeTx);
+
+        return {
+            safeTxHash: calculateSafeTxHash(config.chainId, config.safeAddress, safeVersion, safeTx),
+            signature: await signer.signTypedData(typedData)
+        };
+    }
+
+    /**
+     * Nonce for a new proposal: after the last queued transaction, or the on-chain nonce
+     */
+    async getNextNonce(store: TransactionStore): Promise<number> {
+        const onChainNonce = await this.readSafeNonce();
+        const pending = await store.getPendingTransactions();
+        return pending.reduce((next, tx) => Math.max(next, Number(tx.nonce) + 1), onChainNonce);
+    }
+
+    /**
+     * Propose a new transaction. Several calls are batched into one MultiSend transaction.
+     * Returns the SafeTx hash
+     */
+    async proposeTransaction(params: ProposeParams): Promise<string> {
+        const config = this.requireConfig();
+        const {
+            calls,
+            batchMode = 'callOnly',
+            safeTxGas = 100000,
+            nonce
+        } = params;
+
+        try {
+            let call: MultiSendCall;
+            if (calls.length === 1) {
+                call = calls[0];
+            } else {
+                const safeVersion = this.currentSafeInfo?.version || await this.readSafeVersion(config.safeAddress);
+                call = buildMultiSendTransaction(calls, config.chainId, safeVersion, batchMode);
+            }
+
+            const store = this.getTransactionStore();
+
+            // Fill every SafeTx field so the hash matches the one the contract computes
+            const safeTx: SafeTxData = {
+                to: call.to,
+                value: call.value,
+                data: call.data,
+                operation: call.operation,
+                safeTxGas: safeTxGas,
+                baseGas: 0,
+                gasPrice: '0',
+                gasToken: ZERO_ADDRESS,
+                refundReceiver: ZERO_ADDRESS,
+                nonce: nonce ?? await this.getNextNonce(store)
+            };
+
+            // Sign the SafeTx as EIP-712 typed data with the owner key
+            const { safeTxHash, signature } = await this.signSafeTransaction(safeTx);
+            const signer = await this.initializeSigner();
+
+            await store.proposeTransaction({ safeTx, safeTxHash, sender: await signer.getAddress(), signature });
+            return safeTxHash;
+        } catch (error: any) {
+            console.error('Error proposing transaction:', error);
+            throw new Error(`Failed to propose transaction: ${error.message}`);
+        }
+    }
+
+    private findTransaction(safeTxHash: string): PendingTransaction {
+        const transaction = this.currentTransactions.find(tx => tx.safeTxHash === safeTxHash);
+        if (!transaction) {
+            throw new Error('Transaction not found');
+        }
+        return transaction;
+    }
+
+    /**
+     * Add the signer's confirmation to a queued transaction
+     */
+    async confirmTransaction(safeTxHash: string): Promise<void> {
+        const transaction = this.findTransaction(safeTxHash);
+        const blocker = this.currentSafeInfo ? getConfirmationBlocker(transaction, this.currentSafeInfo.nonce) : null;
+        if (blocker) {
+            throw new Error(blocker);
+        }
+
+        const signed = await this.signSafeTransaction(transaction);
+        if (signed.safeTxHash.toLowerCase() !== safeTxHash.toLowerCase()) {
+            throw new Error(`Computed SafeTx hash ${signed.safeTxHash} does not match ${safeTxHash}`);
+        }
+
+        await this.getTransactionStore().confirmTransaction(safeTxHash, this.currentSignerAddress, signed.signature);
+    }
+
+    /**
+     * Execute a fully confirmed transaction at the Safe's current nonce
+     */
+    async executeTransaction(safeTxHash: string): Promise<void> {
+        const transaction = this.findTransaction(safeTxHash);
+
+        // The Safe only executes the transaction at its current nonce
+        const safeNonce = await this.readSafeNonce().catch(() => this.currentSafeInfo?.nonce);
+        const blocker = safeNonce !== undefined ? getExecutionBlocker(transaction, safeNonce) : null;
+        if (blocker) {
+            throw new Error(blocker);
+        }
+
+        if (this.currentSafeClient) {
+            // Use Safe SDK - execute via protocolKit
+            const pendingTransactions = await this.currentSafeClient.getPendingTransactions();
+            const serviceTransaction = pendingTransactions.results.find((tx: any) => tx.safeTxHash === safeTxHash);
+            if (!serviceTransaction) {
+                throw new Error('Transaction not found');
+            }
+            await this.currentSafeClient.protocolKit.executeTransaction(serviceTransaction);
+        } else {
+            // Fallback to direct contract interaction
+            await this.executeWithSignatures(transaction);
+        }
+    }
+
+    /**
+     * Execute by calling execTransaction with the collected signatures
+     */
+    private async executeWithSignatures(transaction: PendingTransaction): Promise<void> {
+        const config = this.requireConfig();
+
+        const signer = await this.initializeSigner();
+        const executor = await signer.getAddress();
+        const threshold = this.currentSafeInfo?.threshold || transaction.confirmationsRequired;
+        const confirmations = [...transaction.confirmations];
+
+        // An owner submitting the transaction counts as a signature without signing
+        const isOwner = this.currentSafeInfo?.owners.some(owner => owner.toLowerCase() === executor.toLowerCase());
+        const hasConfirmed = confirmations.some(conf => conf.owner.toLowerCase() === executor.toLowerCase());
+        if (confirmations.length < threshold && isOwner && !hasConfirmed) {
+            confirmations.push({
+                owner: executor,
+                submissionDate: new Date().toISOString(),
+                transactionHash: null,
+                signature: buildPreValidatedSignature(executor),
+                signatureType: 'APPROVED_HASH'
+            });
+        }
+
+        if (confirmations.length < threshold) {
+            throw new Error(`Not enough confirmations: ${confirmations.length}/${threshold}`);
+        }
+
+        const signatures = packSignatures(confirmations);
+        const hash = await signer.sendTransaction({
+            to: config.safeAddress,
+            data: encodeExecTransaction(transaction, signatures),
+            value: 0n
+        });
+
+        const publicClient = createPublicClient({ transport: http(config.rpcUrl) });
+        const receipt = await waitForTransactionReceipt(publicClient, { hash });
+
+        if (!isExecutionSuccessful(receipt, config.safeAddress)) {
+            throw new Error(`Safe transaction failed on-chain: ${hash}`);
+        }
+    }
+
+    /**
+     * Propose an empty self-transaction at a proposal's nonce; executing it cancels the proposal
+     */
+    async rejectTransaction(safeTxHash: string): Promise<string> {
+        const config = this.requireConfig();
+        const transaction = this.findTransaction(safeTxHash);
+
+        const existing = this.currentTransactions.find(tx =>
+            Number(tx.nonce) === Number(transaction.nonce) && isRejection(tx, config.safeAddress)
+        );
+        if (existing) {
+            throw new Error(`A rejection for nonce ${transaction.nonce} is already queued: confirm that one instead`);
+        }
+
+        return await this.proposeTransaction({
+            calls: [buildRejectionCall(config.safeAddress)],
+            safeTxGas: 0,
+            nonce: Number(transaction.nonce)
+        });
+    }
+
+    /**
+     * Delete the signer's own proposal before other owners sign it
+     */
+    async deleteTransaction(safeTxHash: string): Promise<void> {
+        const transaction = this.currentTransactions.find(tx => tx.safeTxHash === safeTxHash);
+        if (!transaction || !isDeletable(transaction, this.currentSignerAddress)) {
+            throw new Error('Only the proposer can delete a proposal, and only before other owners sign it');
+        }
+
+        const signer = await this.initializeSigner();
+        await this.getTransactionStore().deleteTransaction(safeTxHash, signer);
+    }
+
+    /**
+     * Deploy a new Safe from the signer account and connect to it. The configuration's Safe
+     * address is updated; persisting it is up to the caller
+     */
+    async createSafe(
+        owners: string[],
+        threshold: number,
+        saltNonce: string,
+        onProgress: (message: string) => void = () => {}
+    ): Promise<SafeInfo> {
+        const config = this.requireConfig();
+
+        // Validate required configuration fields
+        if (!config.rpcUrl || !config.signer || (!config.txServiceUrl && !this.usesLocalStore())) {
+            throw new Error('Configuration is incomplete. Please ensure required fields are filled (RPC URL, Transaction Service URL, Signer)!');
+        }
+
+        if (!owners || owners.length === 0) {
+            throw new Error('At least one owner is required');
+        }
+
+        if (threshold < 1 || threshold > owners.length) {
+            throw new Error('Threshold must be between 1 and the number of owners');
+        }
+
+        for (const owner of owners) {
+            if (!isAddress(owner)) {
+                throw new Error(`Invalid owner address: ${owner}`);
+            }
+        }
+
+        const contractNetworks = getContractNetworks(config.chainId);
+        const predictedSafe: PredictedSafeProps = {
+            safeAccountConfig: { owners, threshold },
+            // The devnet only has the contracts of one version
+            safeDeploymentConfig: contractNetworks ? { saltNonce, safeVersion: DEVNET_SAFE_VERSION } : { saltNonce }
+        };
+
+        onProgress('Creating Protocol Kit instance...');
+        const signer = await this.initializeSigner();
+        const credentials = await signer.getSafeSdkCredentials();
+        const protocolKit = await Safe.init({
+            provider: credentials.provider,
+            signer: credentials.signer,
+            predictedSafe,
+            contractNetworks
+        });
+
+        const predictedSafeAddress = await protocolKit.getAddress();
+        this.log('Predicted Safe address:', predictedSafeAddress);
+
+        if (await protocolKit.isSafeDeployed()) {
+            throw new Error(`Safe with these parameters is already deployed at address: ${predictedSafeAddress}`);
+        }
+
+        onProgress('Creating deployment transaction...');
+        const deploymentTransaction = await protocolKit.createSafeDeploymentTransaction();
+
+        onProgress('Executing deployment transaction...');
+        const transactionHash = await signer.sendTransaction({
+            to: deploymentTransaction.to,
+            value: BigInt(deploymentTransaction.value),
+            data: deploymentTransaction.data
+        });
+
+        onProgress('Waiting for transaction confirmation...');
+        const publicClient = createPublicClient({ transport: http(config.rpcUrl) });
+        const transactionReceipt = await waitForTransactionReceipt(publicClient, { hash: transactionHash });
+        this.log('Deployment transaction confirmed:', transactionReceipt);
+
+        onProgress('Connecting to deployed Safe...');
+        const deployedProtocolKit = await protocolKit.connect({ safeAddress: predictedSafeAddress });
+        if (!await deployedProtocolKit.isSafeDeployed()) {
+            throw new Error('Safe deployment verification failed');
+        }
+
+        const safeInfo: SafeInfo = {
+            address: await deployedProtocolKit.getAddress(),
+            nonce: await deployedProtocolKit.getNonce(),
+            threshold: await deployedProtocolKit.getThreshold(),
+            owners: await deployedProtocolKit.getOwners(),
+            modules: [],
+            fallbackHandler: '',
+            guard: '',
+            version: deployedProtocolKit.getContractVersion()
+        };
+        this.log('Safe deployed successfully:', safeInfo);
+
+        this.currentConfig = { ...config, safeAddress: predictedSafeAddress };
+        this.emit('configChanged', this.currentConfig);
+
+        // Create a new Safe client for the deployed Safe
+        this.currentSafeClient = !this.usesSafeClient() ? null : await createSafeClient({
+            provider: credentials.provider,
+            txServiceUrl: getTxServiceApiUrl(config.txServiceUrl),
+            signer: credentials.signer,
+            safeAddress: predictedSafeAddress
+        });
+
+        this.currentTransactions = [];
+        this.setSafeInfo(safeInfo);
+        return safeInfo;
+    }
+
+    /**
+     * True when Safe events are pushed by the node instead of polled
+     */
+    get watchesBySubscription(): boolean {
+        return !!this.eventWatcher?.isSubscription;
+    }
+
+    /**
+     * Watch the Safe's on-chain events. Setting changes refresh the Safe info, every event
+     * refreshes the queue. The interval only applies to HTTP log polling
+     */
+    startWatching(pollingIntervalSeconds?: number): void {
+        const config = this.requireConfig();
+        if (!config.safeAddress) return;
+
+        this.stopWatching();
+        this.eventWatcher = new SafeEventWatcher(
+            config.wsRpcUrl || config.rpcUrl,
+            config.safeAddress,
+            (summary) => this.handleSafeEvents(summary),
+            (error) => this.emit('error', { context: 'Watching Safe events', error })
+        );
+        this.eventWatcher.start(pollingIntervalSeconds);
+    }
+
+    stopWatching(): void {
+        if (this.eventWatcher) {
+            this.eventWatcher.stop();
+            this.eventWatcher = null;
+        }
+    }
+
+    private async handleSafeEvents(summary: SafeEventSummary): Promise<void> {
+        this.emit('safeEvents', summary);
+
+        try {
+            if (summary.settingsChanged) {
+                await this.refreshSafeState();
+            }
+            await this.refreshQueue();
+        } catch (error: any) {
+            this.emit('error', { context: 'Refreshing after Safe events', error });
+        }
+    }
+}
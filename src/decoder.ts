@@ -0,0 +1,170 @@
+/**
+ * Calldata decoding
+ * Resolves method names and arguments from the service's `dataDecoded`, saved ABIs or the
+ * offline selector database, expanding MultiSend batches into their calls
+ */
+
+import { Abi, AbiFunction, decodeFunctionData, parseAbiItem, toFunctionSelector, slice } from 'viem';
+import { AbiStore } from './abiStore';
+import { KNOWN_SIGNATURES } from './selectorDatabase';
+import { decodeMultiSendData } from './multiSend';
+
+export type DecodeSource = 'service' | 'abi' | 'selector';
+
+export interface DecodedParameter {
+    name: string;
+    type: string;
+    /** Display value; bigints are converted to decimal strings */
+    value: unknown;
+}
+
+export interface DecodedBatchCall {
+    to: string;
+    value: string;
+    data: string;
+    operation: number;
+    decoded: DecodedCall | null;
+}
+
+export interface DecodedCall {
+    method: string;
+    parameters: DecodedParameter[];
+    source: DecodeSource;
+    /** Calls of a MultiSend batch */
+    calls?: DecodedBatchCall[];
+}
+
+export interface DecodeTarget {
+    to: string;
+    data: string | null;
+    /** `dataDecoded` as returned by the Transaction Service */
+    dataDecoded?: any | null;
+    /** ABI known for this call only, e.g. from an imported batch file */
+    abi?: Abi | null;
+}
+
+let selectorIndex: Map<string, AbiFunction[]> | null = null;
+
+/**
+ * Index the bundled signatures by selector on first use
+ */
+function getSelectorIndex(): Map<string, AbiFunction[]> {
+    if (!selectorIndex) {
+        selectorIndex = new Map();
+        for (const signature of KNOWN_SIGNATURES) {
+            const item = parseAbiItem(signature) as AbiFunction;
+            const selector = toFunctionSelector(item);
+            selectorIndex.set(selector, [...(selectorIndex.get(selector) || []), item]);
+        }
+    }
+    return selectorIndex;
+}
+
+/**
+ * Convert decoded values to display-friendly JSON values
+ */
+function toDisplayValue(value: unknown): unknown {
+    if (typeof value === 'bigint') {
+        return value.toString();
+    }
+    if (Array.isArray(value)) {
+        return value.map(toDisplayValue);
+    }
+    if (value && typeof value === 'object') {
+        return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, toDisplayValue(item)]));
+    }
+    return value;
+}
+
+/**
+ * Decode calldata against an ABI, or return null when no function matches
+ */
+function decodeWithAbi(abi: Abi, data: `0x${string}`, source: DecodeSource): DecodedCall | null {
+    try {
+        const { functionName, args } = decodeFunctionData({ abi, data });
+        const selector = slice(data, 0, 4);
+        const item = abi.find(entry =>
+            entry.type === 'function' && entry.name === functionName && toFunctionSelector(entry) === selector
+        ) as AbiFunction | undefined;
+
+        const parameters = (item?.inputs || []).map((input, index) => ({
+            name: input.name || `arg${index}`,
+            type: input.type,
+            value: toDisplayValue((args || [])[index])
+        }));
+
+        return { method: functionName, parameters, source };
+    } catch {
+        return null;
+    }
+}
+
+/**
+ * Normalize the service's `dataDecoded`, including its nested MultiSend `valueDecoded`
+ */
+function fromServiceDecoded(dataDecoded: any): DecodedCall {
+    let calls: DecodedBatchCall[] | undefined;
+
+    const parameters = (dataDecoded.parameters || []).map((parameter: any) => {
+        if (Array.isArray(parameter.valueDecoded)) {
+            calls = parameter.valueDecoded.map((call: any) => ({
+                to: call.to,
+                value: call.value || '0',
+                data: call.data || '0x',
+                operation: call.operation || 0,
+                decoded: call.dataDecoded ? fromServiceDecoded(call.dataDecoded) : null
+            }));
+        }
+        return { name: parameter.name, type: parameter.type, value: parameter.value };
+    });
+
+    return { method: dataDecoded.method, parameters, source: 'service', calls };
+}
+
+/**
+ * Decode a transaction's calldata. Returns null for empty calldata or an unknown method
+ */
+export function decodeTransactionData(target: DecodeTarget, chainId: number, abiStore?: AbiStore): DecodedCall | null {
+    const data = target.data as `0x${string}` | null;
+    if (!data || data === '0x' || data.length < 10) {
+        return null;
+    }
+
+    if (target.dataDecoded?.method) {
+        const decoded = fromServiceDecoded(target.dataDecoded);
+        if (decoded.method !== 'multiSend' || decoded.calls) {
+            return decoded;
+        }
+    }
+
+    let decoded: DecodedCall | null = target.abi ? decodeWithAbi(target.abi, data, 'abi') : null;
+
+    const savedAbi = decoded ? null : abiStore?.get(chainId, target.to);
+    if (savedAbi) {
+        decoded = decodeWithAbi(savedAbi, data, 'abi');
+    }
+
+    if (!decoded) {
+        const candidates = getSelectorIndex().get(slice(data, 0, 4)) || [];
+        for (const candidate of candidates) {
+            decoded = decodeWithAbi([candidate], data, 'selector');
+            if (decoded) break;
+        }
+    }
+
+    if (decoded?.method === 'multiSend') {
+        decoded.calls = (decodeMultiSendData(data) || []).map(call => ({
+            ...call,
+            decoded: decodeTransactionData({ to: call.to, data: call.data }, chainId, abiStore)
+        }));
+    }
+
+    return decoded;
+}
+
+/**
+ * Format a decoded value for display
+ */
+export function formatDecodedValue(value: unknown): string {
+    return typeof value === 'string' ? value : JSON.stringify(value);
+}
@@ -0,0 +1,54 @@
+/**
+ * Local devnet
+ * Safe v1.4.1 contracts deployed by `npm run devnet` on the local Hardhat chain. They sit at the
+ * canonical addresses, but the Safe SDK has no deployment entries for chain 31337, so it is
+ * given the addresses explicitly
+ */
+
+import { ContractNetworkConfig, ContractNetworksConfig } from '@safe-global/protocol-kit';
+import {
+    getSafeSingletonDeployment,
+    getProxyFactoryDeployment,
+    getMultiSendDeployment,
+    getMultiSendCallOnlyDeployment,
+    getCompatibilityFallbackHandlerDeployment,
+    getSignMessageLibDeployment,
+    getCreateCallDeployment,
+    getSimulateTxAccessorDeployment
+} from '@safe-global/safe-deployments';
+
+export const DEVNET_CHAIN_ID = 31337;
+
+/** Version of the contracts deployed on the devnet and of the Safes created there */
+export const DEVNET_SAFE_VERSION = '1.4.1';
+
+/**
+ * Canonical addresses of the devnet contracts, in protocol-kit's format
+ */
+export function getDevnetContracts(): ContractNetworkConfig {
+    const address = (getDeployment: typeof getSafeSingletonDeployment) => {
+        const deployment = getDeployment({ version: DEVNET_SAFE_VERSION });
+        if (!deployment) {
+            throw new Error(`No canonical ${DEVNET_SAFE_VERSION} deployment known`);
+        }
+        return deployment.defaultAddress;
+    };
+
+    return {
+        safeSingletonAddress: address(getSafeSingletonDeployment),
+        safeProxyFactoryAddress: address(getProxyFactoryDeployment),
+        multiSendAddress: address(getMultiSendDeployment),
+        multiSendCallOnlyAddress: address(getMultiSendCallOnlyDeployment),
+        fallbackHandlerAddress: address(getCompatibilityFallbackHandlerDeployment),
+        signMessageLibAddress: address(getSignMessageLibDeployment),
+        createCallAddress: address(getCreateCallDeployment),
+        simulateTxAccessorAddress: address(getSimulateTxAccessorDeployment)
+    };
+}
+
+/**
+ * `contractNetworks` option of Safe.init for a chain; undefined where the SDK knows the deployments
+ */
+export function getContractNetworks(chainId: number): ContractNetworksConfig | undefined {
+    return chainId === DEVNET_CHAIN_ID ? { [chainId]: getDevnetContracts() } : undefined;
+}
@@ -0,0 +1,343 @@
+/**
+ * Queue dry-run
+ * Executes every queued transaction in nonce order on a local Hardhat fork, impersonating owners,
+ * and reports outcomes, events and the Safe's balance changes
+ */
+
+import {
+    createPublicClient,
+    createTestClient,
+    createWalletClient,
+    decodeEventLog,
+    encodeFunctionData,
+    http,
+    parseAbi,
+    parseEther,
+    Log,
+    PublicClient
+} from 'viem';
+import { PendingTransaction } from './types';
+import { SAFE_EXECUTION_ABI, buildPreValidatedSignature, encodeExecTransaction, isExecutionSuccessful, packSignatures } from './execution';
+import { ZERO_ADDRESS } from './safeTxHash';
+
+const SAFE_DRY_RUN_ABI = parseAbi([
+    'function getOwners() view returns (address[])',
+    'function getThreshold() view returns (uint256)',
+    'function nonce() view returns (uint256)',
+    'function approveHash(bytes32 hashToApprove)',
+    'function getTransactionHash(address to, uint256 value, bytes data, uint8 operation, uint256 safeTxGas, uint256 baseGas, uint256 gasPrice, address gasToken, address refundReceiver, uint256 _nonce) view returns (bytes32)'
+]);
+
+const TOKEN_ABI = parseAbi([
+    'function balanceOf(address owner) view returns (uint256)',
+    'function symbol() view returns (string)',
+    'function decimals() view returns (uint8)'
+]);
+
+/** Events decoded in the report; anything else is listed by address and topic */
+const KNOWN_EVENTS_ABI = [
+    ...SAFE_EXECUTION_ABI.filter(item => item.type === 'event'),
+    ...parseAbi([
+        'event AddedOwner(address indexed owner)',
+        'event RemovedOwner(address indexed owner)',
+        'event ChangedThreshold(uint256 threshold)',
+        'event EnabledModule(address indexed module)',
+        'event DisabledModule(address indexed module)',
+        'event ChangedGuard(address indexed guard)',
+        'event ChangedFallbackHandler(address indexed handler)',
+        'event ApproveHash(bytes32 indexed approvedHash, address indexed owner)',
+        'event SafeReceived(address indexed sender, uint256 value)',
+        'event Transfer(address indexed from, address indexed to, uint256 value)',
+        'event Approval(address indexed owner, address indexed spender, uint256 value)',
+        'event ApprovalForAll(address indexed owner, address indexed operator, bool approved)'
+    ])
+];
+
+const TRANSFER_TOPIC = '0xddf252ad1be2c89b69c2b068fc378daa952ba7f163c4a11628f55a4df523b3ef';
+
+export interface DryRunEvent {
+    address: string;
+    name: string;
+    args: Record<string, string>;
+}
+
+export interface BalanceChange {
+    /** Token contract, null for the native currency */
+    token: string | null;
+    symbol: string;
+    decimals: number;
+    before: bigint;
+    after: bigint;
+}
+
+export interface DryRunStep {
+    nonce: number;
+    safeTxHash: string;
+    status: 'success' | 'failed' | 'reverted' | 'skipped';
+    reason: string | null;
+    gasUsed: bigint | null;
+    events: DryRunEvent[];
+    balanceChanges: BalanceChange[];
+}
+
+export interface DryRunReport {
+    forkBlock: bigint;
+    steps: DryRunStep[];
+    /** Balance changes of the whole queue */
+    totalChanges: BalanceChange[];
+}
+
+export interface DryRunParams {
+    /** Local Hardhat node used for the fork */
+    forkRpcUrl: string;
+    /** Configured RPC URL the fork is created from */
+    upstreamRpcUrl: string;
+    safeAddress: string;
+    transactions: PendingTransaction[];
+    onProgress?: (message: string) => void;
+}
+
+interface TokenMeta {
+    symbol: string;
+    decimals: number;
+}
+
+/**
+ * Order the queue by nonce; at equal nonces the best-confirmed proposal goes first
+ */
+export function orderQueue(transactions: PendingTransaction[]): PendingTransaction[] {
+    return [...transactions].sort((a, b) =>
+        a.nonce - b.nonce || (b.confirmations?.length || 0) - (a.confirmations?.length || 0)
+    );
+}
+
+function decodeLog(log: Log): DryRunEvent {
+    // ERC-721 Transfer shares the ERC-20 topic but indexes the token ID
+    if (log.topics[0] === TRANSFER_TOPIC && log.topics.length === 4) {
+        const [, from, to, tokenId] = log.topics as `0x${string}`[];
+        return {
+            address: log.address,
+            name: 'Transfer',
+            args: { from: `0x${from.slice(26)}`, to: `0x${to.slice(26)}`, tokenId: BigInt(tokenId).toString() }
+        };
+    }
+
+    try {
+        // Non-strict: Safe versions before 1.4.0 log owner, module and txHash arguments as data
+        const event = decodeEventLog({ abi: KNOWN_EVENTS_ABI, data: log.data, topics: log.topics, strict: false });
+        const args = Object.fromEntries(
+            Object.entries((event.args || {}) as Record<string, unknown>).map(([key, value]) => [key, String(value)])
+        );
+        return { address: log.address, name: event.eventName, args };
+    } catch {
+        return { address: log.address, name: log.topics[0] || 'anonymous', args: {} };
+    }
+}
+
+/**
+ * Tokens whose Transfer events touched the Safe
+ */
+function collectTokens(logs: Log[], safeAddress: string): string[] {
+    const safeTopic = `0x${safeAddress.slice(2).toLowerCase().padStart(64, '0')}`;
+    const tokens = logs
+        .filter(log => log.topics[0] === TRANSFER_TOPIC && (log.topics[1] === safeTopic || log.topics[2] === safeTopic))
+        .map(log => log.address.toLowerCase());
+    return [...new Set(tokens)];
+}
+
+async function getTokenMeta(client: PublicClient, token: string, cache: Map<string, TokenMeta>): Promise<TokenMeta> {
+    const cached = cache.get(token);
+    if (cached) return cached;
+
+    const address = token as `0x${string}`;
+    const symbol = await client.readContract({ address, abi: TOKEN_ABI, functionName: 'symbol' }).catch(() => token.slice(0, 10));
+    // ERC-721 has no decimals; its balance is a token count
+    const decimals = await client.readContract({ address, abi: TOKEN_ABI, functionName: 'decimals' }).catch(() => 0);
+
+    const meta = { symbol, decimals: Number(decimals) };
+    cache.set(token, meta);
+    return meta;
+}
+
+async function getBalances(
+    client: PublicClient,
+    safeAddress: string,
+    tokens: string[],
+    blockNumber: bigint,
+    nativeSymbol: string,
+    cache: Map<string, TokenMeta>
+): Promise<Map<string, BalanceChange>> {
+    const balances = new Map<string, BalanceChange>();
+    const safe = safeAddress as `0x${string}`;
+
+    const native = await client.getBalance({ address: safe, blockNumber });
+    balances.set('native', { token: null, symbol: nativeSymbol, decimals: 18, before: native, after: native });
+
+    for (const token of tokens) {
+        const meta = await getTokenMeta(client, token, cache);
+        const balance = await client.readContract({
+            address: token as `0x${string}`,
+            abi: TOKEN_ABI,
+            functionName: 'balanceOf',
+            args: [safe],
+            blockNumber
+        }).catch(() => 0n);
+        balances.set(token, { token, ...meta, before: balance, after: balance });
+    }
+    return balances;
+}
+
+/**
+ * Compare balances at two blocks and keep the ones that changed
+ */
+async function diffBalances(
+    client: PublicClient,
+    safeAddress: string,
+    tokens: string[],
+    fromBlock: bigint,
+    toBlock: bigint,
+    nativeSymbol: string,
+    cache: Map<string, TokenMeta>
+): Promise<BalanceChange[]> {
+    const before = await getBalances(client, safeAddress, tokens, fromBlock, nativeSymbol, cache);
+    const after = await getBalances(client, safeAddress, tokens, toBlock, nativeSymbol, cache);
+
+    return [...before.entries()]
+        .map(([key, change]) => ({ ...change, after: after.get(key)?.after ?? change.before }))
+        .filter(change => change.before !== change.after);
+}
+
+/**
+ * Fork the upstream RPC into the local node and execute the queue
+ */
+export async function runQueueDryRun(params: DryRunParams, nativeSymbol: string = 'ETH'): Promise<DryRunReport> {
+    const { forkRpcUrl, upstreamRpcUrl, safeAddress, transactions, onProgress } = params;
+
+    if (forkRpcUrl.replace(/\/+$/, '') === upstreamRpcUrl.replace(/\/+$/, '')) {
+        throw new Error('The dry-run needs a separate local Hardhat node, not the configured RPC');
+    }
+
+    const transport = http(forkRpcUrl);
+    const testClient = createTestClient({ mode: 'hardhat', transport });
+    const publicClient = createPublicClient({ transport });
+    const walletClient = createWalletClient({ transport });
+    const safe = safeAddress as `0x${string}`;
+    const tokenCache = new Map<string, TokenMeta>();
+
+    onProgress?.('Forking the configured RPC...');
+    await testClient.reset({ jsonRpcUrl: upstreamRpcUrl });
+    const forkBlock = await publicClient.getBlockNumber();
+
+    const steps: DryRunStep[] = [];
+    const allTokens = new Set<string>();
+
+    for (const transaction of orderQueue(transactions)) {
+        const step: DryRunStep = {
+            nonce: transaction.nonce,
+            safeTxHash: transaction.safeTxHash,
+            status: 'skipped',
+            reason: null,
+            gasUsed: null,
+            events: [],
+            balanceChanges: []
+        };
+        steps.push(step);
+
+        // Owners and threshold are read per step, as earlier transactions may change them
+        const nonce = Number(await publicClient.readContract({ address: safe, abi: SAFE_DRY_RUN_ABI, functionName: 'nonce' }));
+        if (transaction.nonce !== nonce) {
+            step.reason = transaction.nonce < nonce
+                ? `Nonce ${transaction.nonce} was already used`
+                : `Waiting for nonce ${nonce}`;
+            continue;
+        }
+
+        onProgress?.(`Executing nonce ${transaction.nonce}...`);
+
+        const owners = await publicClient.readContract({ address: safe, abi: SAFE_DRY_RUN_ABI, functionName: 'getOwners' });
+        const threshold = Number(await publicClient.readContract({ address: safe, abi: SAFE_DRY_RUN_ABI, functionName: 'getThreshold' }));
+
+        // Prefer owners who already confirmed, then fill up to the threshold
+        const confirmed = (transaction.confirmations || []).map(conf => conf.owner.toLowerCase());
+        const signers = [...owners]
+            .sort((a, b) => Number(!confirmed.includes(a.toLowerCase())) - Number(!confirmed.includes(b.toLowerCase())))
+            .slice(0, threshold);
+
+        // The fork has its own chain ID, so the hash is read from the Safe rather than the service
+        const hash = await publicClient.readContract({
+            address: safe,
+            abi: SAFE_DRY_RUN_ABI,
+            functionName: 'getTransactionHash',
+            args: [
+                transaction.to as `0x${string}`,
+                BigInt(transaction.value || 0),
+                (transaction.data || '0x') as `0x${string}`,
+                transaction.operation || 0,
+                BigInt(transaction.safeTxGas || 0),
+                BigInt(transaction.baseGas || 0),
+                BigInt(transaction.gasPrice || 0),
+                (transaction.gasToken || ZERO_ADDRESS) as `0x${string}`,
+                (transaction.refundReceiver || ZERO_ADDRESS) as `0x${string}`,
+                BigInt(nonce)
+            ]
+        });
+
+        try {
+            for (const owner of signers) {
+                await testClient.impersonateAccount({ address: owner });
+                await testClient.setBalance({ address: owner, value: parseEther('10') });
+            }
+
+            // Every signer but the submitter approves the hash on-chain
+            const [submitter, ...approvers] = signers;
+            for (const owner of approvers) {
+                await walletClient.sendTransaction({
+                    account: owner,
+                    chain: null,
+                    to: safe,
+                    data: encodeFunctionData({ abi: SAFE_DRY_RUN_ABI, functionName: 'approveHash', args: [hash] })
+                });
+            }
+
+            const signatures = packSignatures(signers.map(owner => ({
+                owner,
+                signature: buildPreValidatedSignature(owner),
+                signatureType: 'APPROVED_HASH'
+            })));
+
+            const blockBefore = await publicClient.getBlockNumber();
+            const txHash = await walletClient.sendTransaction({
+                account: submitter,
+                chain: null,
+                to: safe,
+                data: encodeExecTransaction(transaction, signatures)
+            });
+            const receipt = await publicClient.waitForTransactionReceipt({ hash: txHash });
+
+            step.gasUsed = receipt.gasUsed;
+            step.events = receipt.logs.map(decodeLog);
+            if (isExecutionSuccessful(receipt, safeAddress)) {
+                step.status = 'success';
+            } else {
+                step.status = 'failed';
+                step.reason = receipt.status === 'success' ? 'Inner call failed (ExecutionFailure)' : 'Transaction reverted';
+            }
+
+            const tokens = collectTokens(receipt.logs, safeAddress);
+            tokens.forEach(token => allTokens.add(token));
+            step.balanceChanges = await diffBalances(publicClient, safeAddress, tokens, blockBefore, receipt.blockNumber, nativeSymbol, tokenCache);
+        } catch (error: any) {
+            step.status = 'reverted';
+            step.reason = error.shortMessage || error.message;
+        } finally {
+            for (const owner of signers) {
+                await testClient.stopImpersonatingAccount({ address: owner }).catch(() => undefined);
+            }
+        }
+    }
+
+    const latestBlock = await publicClient.getBlockNumber();
+    const totalChanges = await diffBalances(publicClient, safeAddress, [...allTokens], forkBlock, latestBlock, nativeSymbol, tokenCache);
+
+    return { forkBlock, steps, totalChanges };
+}
@@ -0,0 +1,37 @@
+/**
+ * Typed events
+ * Minimal event emitter whose event names and payloads are checked by the compiler
+ */
+
+export type Listener<T> = (payload: T) => void;
+
+export class TypedEventEmitter<Events extends object> {
+    private listeners: { [K in keyof Events]?: Set<Listener<Events[K]>> } = {};
+
+    /**
+     * Subscribe to an event. Returns a function that removes the listener
+     */
+    on<K extends keyof Events>(event: K, listener: Listener<Events[K]>): () => void {
+        const listeners = this.listeners[event] || new Set<Listener<Events[K]>>();
+        listeners.add(listener);
+        this.listeners[event] = listeners;
+        return () => this.off(event, listener);
+    }
+
+    off<K extends keyof Events>(event: K, listener: Listener<Events[K]>): void {
+        this.listeners[event]?.delete(listener);
+    }
+
+    /**
+     * Call every listener of an event. A throwing listener does not stop the others
+     */
+    protected emit<K extends keyof Events>(event: K, payload: Events[K]): void {
+        for (const listener of Array.from(this.listeners[event] || [])) {
+            try {
+                listener(payload);
+            } catch (error) {
+                console.error(`Listener of "${String(event)}" failed:`, error);
+            }
+        }
+    }
+}
@@ -0,0 +1,112 @@
+/**
+ * Direct Safe execution
+ * Packs owner signatures and builds the `execTransaction` call without the Safe SDK
+ */
+
+import { encodeFunctionData, parseAbi, concat, pad, size, slice, toHex, hexToBigInt, decodeEventLog, TransactionReceipt } from 'viem';
+import { SafeConfirmation, PendingTransaction } from './types';
+import { ZERO_ADDRESS } from './safeTxHash';
+
+/** Safe 1.4.x layout; earlier versions log `txHash` as data, so events are decoded non-strictly */
+export const SAFE_EXECUTION_ABI = parseAbi([
+    'function execTransaction(address to, uint256 value, bytes data, uint8 operation, uint256 safeTxGas, uint256 baseGas, uint256 gasPrice, address gasToken, address refundReceiver, bytes signatures) payable returns (bool success)',
+    'event ExecutionSuccess(bytes32 indexed txHash, uint256 payment)',
+    'event ExecutionFailure(bytes32 indexed txHash, uint256 payment)'
+]);
+
+/**
+ * Signature accepted by the Safe because `msg.sender` is the owner (v = 1, r = owner)
+ */
+export function buildPreValidatedSignature(owner: string): `0x${string}` {
+    return concat([pad(owner as `0x${string}`, { size: 32 }), pad('0x', { size: 32 }), '0x01']);
+}
+
+/**
+ * Pack confirmations into the `signatures` bytes expected by `execTransaction`.
+ * Signatures are ordered by ascending owner address; EIP-1271 contract signatures keep their
+ * 65-byte static part in place and move the signature data into the dynamic part.
+ */
+export function packSignatures(confirmations: Array<Pick<SafeConfirmation, 'owner' | 'signature' | 'signatureType'>>): `0x${string}` {
+    const sorted = [...confirmations].sort((a, b) => {
+        const left = hexToBigInt(a.owner as `0x${string}`);
+        const right = hexToBigInt(b.owner as `0x${string}`);
+        return left < right ? -1 : left > right ? 1 : 0;
+    });
+
+    const staticParts: `0x${string}`[] = [];
+    const dynamicParts: `0x${string}`[] = [];
+    let dynamicOffset = sorted.length * 65;
+
+    for (const confirmation of sorted) {
+        const signature = confirmation.signature as `0x${string}`;
+
+        if (confirmation.signatureType === 'CONTRACT_SIGNATURE') {
+            // Static part: r = verifier, s = offset of the dynamic data, v = 0
+            const dynamicData = size(signature) > 65 ? slice(signature, 65) : '0x';
+            const data = size(dynamicData) >= 32 ? slice(dynamicData, 32) : '0x';
+            const dynamicPart = concat([pad(toHex(size(data)), { size: 32 }), data]);
+
+            staticParts.push(concat([
+                pad(confirmation.owner as `0x${string}`, { size: 32 }),
+                pad(toHex(dynamicOffset), { size: 32 }),
+                '0x00'
+            ]));
+            dynamicParts.push(dynamicPart);
+            dynamicOffset += size(dynamicPart);
+            continue;
+        }
+
+        if (size(signature) !== 65) {
+            throw new Error(`Invalid signature length for owner ${confirmation.owner}`);
+        }
+        staticParts.push(signature);
+    }
+
+    return concat([...staticParts, ...dynamicParts]);
+}
+
+/**
+ * Encode the `execTransaction` call for a fully confirmed Safe transaction
+ */
+export function encodeExecTransaction(transaction: PendingTransaction, signatures: `0x${string}`): `0x${string}` {
+    return encodeFunctionData({
+        abi: SAFE_EXECUTION_ABI,
+        functionName: 'execTransaction',
+        args: [
+            transaction.to as `0x${string}`,
+            BigInt(transaction.value || 0),
+            (transaction.data || '0x') as `0x${string}`,
+            transaction.operation || 0,
+            BigInt(transaction.safeTxGas || 0),
+            BigInt(transaction.baseGas || 0),
+            BigInt(transaction.gasPrice || 0),
+            (transaction.gasToken || ZERO_ADDRESS) as `0x${string}`,
+            (transaction.refundReceiver || ZERO_ADDRESS) as `0x${string}`,
+            signatures
+        ]
+    });
+}
+
+/**
+ * Check the receipt for the Safe's ExecutionFailure event, which does not revert the outer call
+ */
+export function isExecutionSuccessful(receipt: TransactionReceipt, safeAddress: string): boolean {
+    if (receipt.status !== 'success') {
+        return false;
+    }
+
+    for (const log of receipt.logs) {
+        if (log.address.toLowerCase() !== safeAddress.toLowerCase()) {
+            continue;
+        }
+        try {
+            const event = decodeEventLog({ abi: SAFE_EXECUTION_ABI, data: log.data, topics: log.topics, strict: false });
+            if (event.eventName === 'ExecutionFailure') {
+                return false;
+            }
+        } catch {
+            // Not an execution event
+        }
+    }
+    return true;
+}
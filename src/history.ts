@@ -0,0 +1,58 @@
+/**
+ * Transaction history
+ * Paginated reads of executed multisig transactions, incoming transfers and module transactions
+ */
+
+import { PendingTransaction, IncomingTransfer, ModuleTransaction } from './types';
+
+export type HistoryKind = 'multisig' | 'incoming' | 'module';
+
+export interface HistoryItemMap {
+    multisig: PendingTransaction;
+    incoming: IncomingTransfer;
+    module: ModuleTransaction;
+}
+
+export interface HistoryPage<K extends HistoryKind> {
+    results: HistoryItemMap[K][];
+    /** Cursor URL of the next page, null on the last page */
+    next: string | null;
+}
+
+const HISTORY_PAGE_SIZE = 20;
+
+/**
+ * First-page URL of a history list on the Transaction Service
+ */
+export function getHistoryUrl(txServiceUrl: string, safeAddress: string, kind: HistoryKind): string {
+    const base = `${txServiceUrl}/api`;
+    switch (kind) {
+        case 'multisig':
+            return `${base}/v2/safes/${safeAddress}/multisig-transactions/?executed=true&ordering=-nonce&limit=${HISTORY_PAGE_SIZE}`;
+        case 'incoming':
+            return `${base}/v1/safes/${safeAddress}/incoming-transfers/?limit=${HISTORY_PAGE_SIZE}`;
+        case 'module':
+            return `${base}/v1/safes/${safeAddress}/module-transactions/?limit=${HISTORY_PAGE_SIZE}`;
+    }
+}
+
+/**
+ * Fetch one history page. Pass the previous page's `next` cursor to continue
+ */
+export async function fetchHistoryPage<K extends HistoryKind>(
+    txServiceUrl: string,
+    safeAddress: string,
+    kind: K,
+    cursor?: string | null
+): Promise<HistoryPage<K>> {
+    const response = await fetch(cursor || getHistoryUrl(txServiceUrl, safeAddress, kind));
+    if (!response.ok) {
+        throw new Error(`Failed to fetch history: ${response.statusText}`);
+    }
+
+    const data = await response.json();
+    return {
+        results: data.results || [],
+        next: data.next || null
+    };
+}
@@ -0,0 +1,105 @@
+/**
+ * Web3 Secret Storage (JSON keystore v3) decryption
+ * Supports scrypt and pbkdf2 key derivation with aes-128-ctr, as written by geth, ethers and Foundry
+ */
+
+import { scryptAsync } from '@noble/hashes/scrypt';
+import { keccak256, bytesToHex, hexToBytes, concat } from 'viem';
+
+interface KeystoreV3 {
+    version: number;
+    address?: string;
+    crypto: {
+        cipher: string;
+        ciphertext: string;
+        cipherparams: { iv: string };
+        kdf: 'scrypt' | 'pbkdf2';
+        kdfparams: {
+            dklen: number;
+            salt: string;
+            n?: number;
+            r?: number;
+            p?: number;
+            c?: number;
+            prf?: string;
+        };
+        mac: string;
+    };
+}
+
+/**
+ * Parse keystore JSON text, accepting the legacy upper-case `Crypto` key
+ */
+export function parseKeystore(json: string): KeystoreV3 {
+    const parsed = JSON.parse(json);
+    const crypto = parsed.crypto || parsed.Crypto;
+
+    if (!crypto || parsed.version !== 3) {
+        throw new Error('Unsupported keystore format (expected version 3)');
+    }
+
+    return { ...parsed, crypto };
+}
+
+/**
+ * Derive the keystore encryption key from the password
+ */
+async function deriveKey(keystore: KeystoreV3, password: string): Promise<Uint8Array> {
+    const { kdf, kdfparams } = keystore.crypto;
+    const passwordBytes = new TextEncoder().encode(password.normalize('NFKC'));
+    const salt = hexToBytes(`0x${kdfparams.salt}`);
+
+    if (kdf === 'scrypt') {
+        return await scryptAsync(passwordBytes, salt, {
+            N: kdfparams.n!,
+            r: kdfparams.r!,
+            p: kdfparams.p!,
+            dkLen: kdfparams.dklen
+        });
+    }
+
+    if (kdf === 'pbkdf2') {
+        if (kdfparams.prf && kdfparams.prf !== 'hmac-sha256') {
+            throw new Error(`Unsupported keystore PRF: ${kdfparams.prf}`);
+        }
+        const baseKey = await crypto.subtle.importKey('raw', passwordBytes, 'PBKDF2', false, ['deriveBits']);
+        const bits = await crypto.subtle.deriveBits(
+            { name: 'PBKDF2', salt, iterations: kdfparams.c!, hash: 'SHA-256' },
+            baseKey,
+            kdfparams.dklen * 8
+        );
+        return new Uint8Array(bits);
+    }
+
+    throw new Error(`Unsupported keystore KDF: ${kdf}`);
+}
+
+/**
+ * Decrypt a keystore and return the private key
+ */
+export async function decryptKeystore(json: string, password: string): Promise<`0x${string}`> {
+    const keystore = parseKeystore(json);
+    const { cipher, ciphertext, cipherparams, mac } = keystore.crypto;
+
+    if (cipher !== 'aes-128-ctr') {
+        throw new Error(`Unsupported keystore cipher: ${cipher}`);
+    }
+
+    const derivedKey = await deriveKey(keystore, password);
+    const ciphertextHex = `0x${ciphertext}` as `0x${string}`;
+
+    // MAC is keccak256 of the second half of the derived key followed by the ciphertext
+    const expectedMac = keccak256(concat([bytesToHex(derivedKey.slice(16, 32)), ciphertextHex]));
+    if (expectedMac.slice(2).toLowerCase() !== mac.toLowerCase()) {
+        throw new Error('Incorrect keystore password');
+    }
+
+    const aesKey = await crypto.subtle.importKey('raw', derivedKey.slice(0, 16), 'AES-CTR', false, ['decrypt']);
+    const plaintext = await crypto.subtle.decrypt(
+        { name: 'AES-CTR', counter: hexToBytes(`0x${cipherparams.iv}`), length: 128 },
+        aesKey,
+        hexToBytes(ciphertextHex)
+    );
+
+    return bytesToHex(new Uint8Array(plaintext));
+}
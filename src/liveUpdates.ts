@@ -0,0 +1,165 @@
+/**
+ * Live queue updates
+ * Diffs refreshed queues against the rendered one, watches the Safe's on-chain events and
+ * schedules polling with a back-off while the page is hidden
+ */
+
+import { Log, createPublicClient, http, parseAbi, parseEventLogs, webSocket } from 'viem';
+import { PendingTransaction } from './types';
+
+/** Polling interval while the page is visible */
+export const REFRESH_INTERVAL_SECONDS = 10;
+
+/** Upper bound of the hidden-page back-off */
+export const MAX_HIDDEN_REFRESH_INTERVAL_SECONDS = 300;
+
+export const SAFE_EVENTS_ABI = parseAbi([
+    'event ExecutionSuccess(bytes32 txHash, uint256 payment)',
+    'event ExecutionFailure(bytes32 txHash, uint256 payment)',
+    'event ExecutionFromModuleSuccess(address indexed module)',
+    'event ExecutionFromModuleFailure(address indexed module)',
+    'event ApproveHash(bytes32 indexed approvedHash, address indexed owner)',
+    'event AddedOwner(address owner)',
+    'event RemovedOwner(address owner)',
+    'event ChangedThreshold(uint256 threshold)',
+    'event EnabledModule(address module)',
+    'event DisabledModule(address module)',
+    'event ChangedGuard(address guard)',
+    'event ChangedFallbackHandler(address handler)'
+]);
+
+// Storage slots of the fallback handler and guard, keccak256("fallback_manager.handler.address") and keccak256("guard_manager.guard.address")
+export const FALLBACK_HANDLER_SLOT = '0x6c9a6c4a39284e37ed1cf53d337577d14212a4870fb976a4366c693b939918d5';
+export const GUARD_SLOT = '0x4a204f620c8c5ccdca3fd54d003badd85ba500436a431f0cbda4f558c93c34c8';
+
+/** Events that change owners, threshold, modules or handlers rather than the queue */
+const SETTINGS_EVENTS = new Set([
+    'AddedOwner', 'RemovedOwner', 'ChangedThreshold', 'EnabledModule', 'DisabledModule', 'ChangedGuard', 'ChangedFallbackHandler'
+]);
+
+export interface QueueChanges {
+    added: PendingTransaction[];
+    /** safeTxHashes no longer in the queue */
+    removed: string[];
+    changed: PendingTransaction[];
+}
+
+export interface SafeEventSummary {
+    /** Names of the decoded events, in log order */
+    events: string[];
+    /** Owners, threshold, modules or handlers changed */
+    settingsChanged: boolean;
+}
+
+/**
+ * Fields that affect how a queued transaction is rendered
+ */
+function transactionFingerprint(transaction: PendingTransaction): string {
+    const owners = (transaction.confirmations || []).map(confirmation => confirmation.owner.toLowerCase()).sort();
+    return JSON.stringify([
+        transaction.nonce,
+        transaction.isExecuted,
+        transaction.isSuccessful,
+        transaction.confirmationsRequired,
+        transaction.modified,
+        owners
+    ]);
+}
+
+/**
+ * Compare a refreshed queue with the previous one, matching transactions by safeTxHash
+ */
+export function diffTransactions(previous: PendingTransaction[], next: PendingTransaction[]): QueueChanges {
+    const before = new Map(previous.map(transaction => [transaction.safeTxHash, transaction]));
+    const changes: QueueChanges = { added: [], removed: [], changed: [] };
+
+    for (const transaction of next) {
+        const old = before.get(transaction.safeTxHash);
+        if (!old) {
+            changes.added.push(transaction);
+        } else if (transactionFingerprint(old) !== transactionFingerprint(transaction)) {
+            changes.changed.push(transaction);
+        }
+        before.delete(transaction.safeTxHash);
+    }
+    changes.removed = Array.from(before.keys());
+
+    return changes;
+}
+
+/**
+ * True when a diff contains anything to render
+ */
+export function hasQueueChanges(changes: QueueChanges): boolean {
+    return changes.added.length > 0 || changes.removed.length > 0 || changes.changed.length > 0;
+}
+
+/**
+ * Seconds until the next refresh. Hidden pages double the interval after every unchanged refresh
+ */
+export function nextRefreshDelay(hidden: boolean, idleRefreshes: number): number {
+    if (!hidden) {
+        return REFRESH_INTERVAL_SECONDS;
+    }
+    return Math.min(REFRESH_INTERVAL_SECONDS * 2 ** Math.min(idleRefreshes + 1, 10), MAX_HIDDEN_REFRESH_INTERVAL_SECONDS);
+}
+
+/**
+ * Decode the Safe events contained in a batch of logs
+ */
+export function summarizeSafeEvents(logs: Log[]): SafeEventSummary {
+    const events = parseEventLogs({ abi: SAFE_EVENTS_ABI, logs, strict: false }).map(log => log.eventName);
+    return { events, settingsChanged: events.some(event => SETTINGS_EVENTS.has(event)) };
+}
+
+/**
+ * Watches the logs emitted by a Safe. WebSocket RPC URLs use eth_subscribe, HTTP URLs poll a log
+ * filter at the given interval
+ */
+export class SafeEventWatcher {
+    private unwatch: (() => void) | null = null;
+
+    constructor(
+        private rpcUrl: string,
+        private safeAddress: string,
+        private onEvents: (summary: SafeEventSummary) => void,
+        private onError: (error: Error) => void = (error) => console.warn('Safe event watcher error:', error)
+    ) {}
+
+    /**
+     * True when events are pushed by the node instead of polled
+     */
+    get isSubscription(): boolean {
+        return /^wss?:\/\//i.test(this.rpcUrl);
+    }
+
+    /**
+     * Start watching, replacing any running watch. The interval only applies to HTTP polling
+     */
+    start(pollingIntervalSeconds: number = REFRESH_INTERVAL_SECONDS): void {
+        this.stop();
+
+        const publicClient = createPublicClient({
+            transport: this.isSubscription ? webSocket(this.rpcUrl) : http(this.rpcUrl),
+            pollingInterval: pollingIntervalSeconds * 1000
+        });
+
+        this.unwatch = publicClient.watchEvent({
+            address: this.safeAddress as `0x${string}`,
+            onLogs: (logs) => {
+                const summary = summarizeSafeEvents(logs);
+                if (summary.events.length > 0) {
+                    this.onEvents(summary);
+                }
+            },
+            onError: this.onError
+        });
+    }
+
+    stop(): void {
+        if (this.unwatch) {
+            this.unwatch();
+            this.unwatch = null;
+        }
+    }
+}
@@ -0,0 +1,180 @@
+/**
+ * Off-chain Safe messages (EIP-1271)
+ * Hashes messages and EIP-712 typed data into SafeMessages, talks to the Transaction Service
+ * messages endpoints and verifies combined signatures with `isValidSignature`
+ */
+
+import { createPublicClient, hashMessage, hashTypedData, http, parseAbi, TypedDataDefinition } from 'viem';
+import { SafeConfirmation } from './types';
+import { buildSafeTxDomain } from './safeTxHash';
+import { packSignatures } from './execution';
+
+/** Return value of `isValidSignature` for a valid signature (EIP-1271) */
+export const EIP1271_MAGIC_VALUE = '0x1626ba7e';
+
+const EIP1271_ABI = parseAbi([
+    'function isValidSignature(bytes32 _dataHash, bytes _signature) view returns (bytes4)'
+]);
+
+/**
+ * Message content: plain text (EIP-191) or EIP-712 typed data
+ */
+export type SafeMessageContent = string | TypedDataDefinition;
+
+export interface SafeMessageRecord {
+    /** SafeMessage EIP-712 hash, the service's identifier */
+    messageHash: string;
+    message: SafeMessageContent;
+    proposedBy: string;
+    created: string;
+    modified: string;
+    safeAppId: number | null;
+    confirmations: SafeConfirmation[];
+    /** Combined signature once the threshold is reached */
+    preparedSignature: string | null;
+}
+
+/**
+ * Hash the content the way dapps pass it to `isValidSignature`
+ */
+export function hashMessageContent(message: SafeMessageContent): `0x${string}` {
+    return typeof message === 'string' ? hashMessage(message) : hashTypedData(message);
+}
+
+/**
+ * Parse user input: a JSON object is treated as EIP-712 typed data, anything else as text
+ */
+export function parseMessageInput(input: string): SafeMessageContent {
+    const trimmed = input.trim();
+    if (trimmed.startsWith('{')) {
+        const typedData = JSON.parse(trimmed);
+        if (!typedData.types || !typedData.primaryType || !typedData.message) {
+            throw new Error('Typed data must contain types, primaryType and message');
+        }
+        return typedData;
+    }
+    return input;
+}
+
+const SAFE_MESSAGE_TYPES = {
+    SafeMessage: [{ name: 'message', type: 'bytes' }]
+} as const;
+
+/**
+ * EIP-712 SafeMessage wrapping a message hash, as signed by each owner
+ */
+export function buildSafeMessageTypedData(
+    chainId: number,
+    safeAddress: string,
+    safeVersion: string,
+    dataHash: `0x${string}`
+): TypedDataDefinition<typeof SAFE_MESSAGE_TYPES, 'SafeMessage'> {
+    return {
+        domain: buildSafeTxDomain(chainId, safeAddress, safeVersion),
+        types: SAFE_MESSAGE_TYPES,
+        primaryType: 'SafeMessage',
+        message: { message: dataHash }
+    };
+}
+
+/**
+ * SafeMessage hash of a message content for a given Safe
+ */
+export function calculateSafeMessageHash(
+    chainId: number,
+    safeAddress: string,
+    safeVersion: string,
+    message: SafeMessageContent
+): `0x${string}` {
+    return hashTypedData(buildSafeMessageTypedData(chainId, safeAddress, safeVersion, hashMessageContent(message)));
+}
+
+/**
+ * Combine owner signatures into the bytes passed to `isValidSignature`
+ */
+export function combineMessageSignatures(confirmations: SafeConfirmation[]): `0x${string}` {
+    return packSignatures(confirmations);
+}
+
+/**
+ * List the Safe's messages
+ */
+export async function fetchSafeMessages(txServiceUrl: string, safeAddress: string): Promise<SafeMessageRecord[]> {
+    const response = await fetch(`${txServiceUrl}/api/v1/safes/${safeAddress}/messages/?ordering=-created`);
+    if (!response.ok) {
+        throw new Error(`Failed to fetch messages: ${response.statusText}`);
+    }
+
+    const data = await response.json();
+    return data.results || [];
+}
+
+/**
+ * Create a message on the service with the proposer's signature
+ */
+export async function proposeSafeMessage(
+    txServiceUrl: string,
+    safeAddress: string,
+    message: SafeMessageContent,
+    signature: string
+): Promise<void> {
+    const response = await fetch(`${txServiceUrl}/api/v1/safes/${safeAddress}/messages/`, {
+        method: 'POST',
+        headers: {
+            'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+            message,
+            safeAppId: null,
+            signature
+        })
+    });
+
+    if (!response.ok) {
+        const errorText = await response.text();
+        throw new Error(`Failed to create message: ${response.statusText} - ${errorText}`);
+    }
+}
+
+/**
+ * Add an owner signature to an existing message
+ */
+export async function confirmSafeMessage(txServiceUrl: string, messageHash: string, signature: string): Promise<void> {
+    const response = await fetch(`${txServiceUrl}/api/v1/messages/${messageHash}/signatures/`, {
+        method: 'POST',
+        headers: {
+            'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ signature })
+    });
+
+    if (!response.ok) {
+        const errorText = await response.text();
+        throw new Error(`Failed to sign message: ${response.statusText} - ${errorText}`);
+    }
+}
+
+/**
+ * Check a combined signature with the Safe's `isValidSignature(bytes32, bytes)`
+ */
+export async function verifySafeMessageSignature(
+    rpcUrl: string,
+    safeAddress: string,
+    message: SafeMessageContent,
+    signature: string
+): Promise<boolean> {
+    const publicClient = createPublicClient({ transport: http(rpcUrl) });
+
+    try {
+        const result = await publicClient.readContract({
+            address: safeAddress as `0x${string}`,
+            abi: EIP1271_ABI,
+            functionName: 'isValidSignature',
+            args: [hashMessageContent(message), signature as `0x${string}`]
+        });
+        return result.toLowerCase() === EIP1271_MAGIC_VALUE;
+    } catch {
+        // The fallback handler reverts on invalid signatures
+        return false;
+    }
+}
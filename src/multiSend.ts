@@ -0,0 +1,133 @@
+/**
+ * MultiSend batching
+ * Encodes several calls into one MultiSend / MultiSendCallOnly transaction and decodes them back
+ */
+
+import { getMultiSendDeployment, getMultiSendCallOnlyDeployment } from '@safe-global/safe-deployments';
+import {
+    encodeFunctionData,
+    decodeFunctionData,
+    encodePacked,
+    parseAbi,
+    size,
+    slice,
+    hexToBigInt,
+    hexToNumber,
+    getAddress
+} from 'viem';
+
+export const MULTI_SEND_ABI = parseAbi(['function multiSend(bytes transactions) payable']);
+
+export type BatchMode = 'callOnly' | 'multiSend';
+
+export interface MultiSendCall {
+    to: string;
+    /** Value in wei */
+    value: string;
+    data: string;
+    /** 0 = Call, 1 = DelegateCall */
+    operation: number;
+}
+
+/**
+ * Address of the MultiSend (or MultiSendCallOnly) contract for a chain and Safe version
+ */
+export function getMultiSendAddress(chainId: number, safeVersion: string, mode: BatchMode): string {
+    const version = safeVersion.split('+')[0];
+    const filter = { network: String(chainId), version };
+    // Chains without deployment entries (e.g. the local devnet) use the version's canonical address
+    const deployment = mode === 'callOnly'
+        ? getMultiSendCallOnlyDeployment(filter) || getMultiSendCallOnlyDeployment({ version }) || getMultiSendCallOnlyDeployment({ version: '1.3.0' })
+        : getMultiSendDeployment(filter) || getMultiSendDeployment({ version }) || getMultiSendDeployment({ version: '1.3.0' });
+
+    if (!deployment) {
+        throw new Error(`No ${mode === 'callOnly' ? 'MultiSendCallOnly' : 'MultiSend'} deployment found`);
+    }
+
+    const networkAddress = deployment.networkAddresses[String(chainId)] as string | string[] | undefined;
+    return Array.isArray(networkAddress) ? networkAddress[0] : networkAddress || deployment.defaultAddress;
+}
+
+/**
+ * Encode calls into the packed `transactions` bytes of `multiSend`
+ */
+export function encodeMultiSendData(calls: MultiSendCall[]): `0x${string}` {
+    const packed = calls.map(call => {
+        const data = (call.data || '0x') as `0x${string}`;
+        return encodePacked(
+            ['uint8', 'address', 'uint256', 'uint256', 'bytes'],
+            [call.operation, call.to as `0x${string}`, BigInt(call.value || 0), BigInt(size(data)), data]
+        );
+    });
+
+    return `0x${packed.map(item => item.slice(2)).join('')}`;
+}
+
+/**
+ * Build the single Safe transaction executing all calls through MultiSend
+ */
+export function buildMultiSendTransaction(
+    calls: MultiSendCall[],
+    chainId: number,
+    safeVersion: string,
+    mode: BatchMode
+): MultiSendCall {
+    if (mode === 'callOnly' && calls.some(call => call.operation === 1)) {
+        throw new Error('MultiSendCallOnly cannot batch DelegateCall operations; use MultiSend instead');
+    }
+
+    return {
+        to: getMultiSendAddress(chainId, safeVersion, mode),
+        value: '0',
+        data: encodeFunctionData({
+            abi: MULTI_SEND_ABI,
+            functionName: 'multiSend',
+            args: [encodeMultiSendData(calls)]
+        }),
+        // MultiSend must run in the Safe's context
+        operation: 1
+    };
+}
+
+/**
+ * Decode `multiSend(bytes)` calldata into its calls, or return null for any other calldata,
+ * including packed transactions that are truncated or overrun their length
+ */
+export function decodeMultiSendData(data: string): MultiSendCall[] | null {
+    if (!data || data.length < 10) {
+        return null;
+    }
+
+    let transactions: `0x${string}`;
+    try {
+        const decoded = decodeFunctionData({ abi: MULTI_SEND_ABI, data: data as `0x${string}` });
+        transactions = decoded.args[0];
+    } catch {
+        return null;
+    }
+
+    const calls: MultiSendCall[] = [];
+    const total = size(transactions);
+    let offset = 0;
+
+    // Each entry: operation (1) + to (20) + value (32) + data length (32) + data
+    while (offset < total) {
+        if (offset + 85 > total) {
+            return null;
+        }
+        const operation = hexToNumber(slice(transactions, offset, offset + 1));
+        const to = getAddress(slice(transactions, offset + 1, offset + 21));
+        const value = hexToBigInt(slice(transactions, offset + 21, offset + 53));
+        const dataLengthValue = hexToBigInt(slice(transactions, offset + 53, offset + 85));
+        if (dataLengthValue > BigInt(total - offset - 85)) {
+            return null;
+        }
+        const dataLength = Number(dataLengthValue);
+        const callData = dataLength > 0 ? slice(transactions, offset + 85, offset + 85 + dataLength) : '0x';
+
+        calls.push({ to, value: value.toString(), data: callData, operation });
+        offset += 85 + dataLength;
+    }
+
+    return calls;
+}
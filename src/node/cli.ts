@@ -0,0 +1,280 @@
+/**
+ * Safe CLI
+ * Command-line companion of the web UI, built on the same SafeCore. Results are printed to stdout
+ * as JSON for piping; logs and errors go to stderr and failures exit with status 1.
+ *
+ * Usage: npm run cli -- <command> [options]
+ *   info                                 Safe owners, threshold, nonce and version
+ *   list                                 Pending transactions
+ *   propose --to <address> [--value <wei>] [--data <hex>] [--operation 0|1]
+ *           [--safe-tx-gas <gas>] [--nonce <nonce>]
+ *   propose --batch <file>               Transaction Builder JSON, proposed as one MultiSend
+ *   confirm <safeTxHash>
+ *   execute <safeTxHash>
+ *   create --owners <a,b,...> --threshold <n> [--salt-nonce <n>]
+ *
+ * Configuration (flags override environment variables, which override the configuration file):
+ *   --config / SAFE_CONFIG_FILE (SafeConfig JSON, e.g. written by `npm run devnet`),
+ *   --safe / SAFE_ADDRESS, --rpc-url / SAFE_RPC_URL, --chain-id / SAFE_CHAIN_ID (read from the RPC
+ *   when unset), --tx-service-url / SAFE_TX_SERVICE_URL (chain preset when unset)
+ * Signer, first match wins (the configuration file's signer comes last):
+ *   SAFE_SIGNER_PRIVATE_KEY
+ *   --keystore <file> / SAFE_KEYSTORE with SAFE_KEYSTORE_PASSWORD
+ *   --remote-signer <url> / SAFE_REMOTE_SIGNER_URL
+ */
+
+import { readFile } from 'node:fs/promises';
+import { parseArgs } from 'node:util';
+import { createPublicClient, http, isAddress, isHex } from 'viem';
+import 'dotenv/config';
+import { SafeCore } from '../core';
+import { SafeConfig, PendingTransaction } from '../types';
+import { SignerConfig } from '../signers';
+import { MultiSendCall } from '../multiSend';
+import { parseBatchFile } from '../txBuilder';
+import { getExecutionBlocker } from '../queue';
+import { getChain, normalizeTxServiceUrl } from '../chains';
+
+type Options = Record<string, string | undefined>;
+
+/**
+ * Write a result as JSON. Bigints are printed as decimal strings
+ */
+function print(value: unknown): void {
+    process.stdout.write(JSON.stringify(value, (_, item) => typeof item === 'bigint' ? item.toString() : item, 2) + '\n');
+}
+
+/**
+ * Signer from the environment or flags
+ */
+async function readSignerConfig(options: Options, fileConfig: Partial<SafeConfig> | null): Promise<{ signer: SignerConfig; keystorePassword: string }> {
+    if (process.env.SAFE_SIGNER_PRIVATE_KEY) {
+        return { signer: { type: 'privateKey', privateKey: process.env.SAFE_SIGNER_PRIVATE_KEY }, keystorePassword: '' };
+    }
+
+    const keystoreFile = options.keystore || process.env.SAFE_KEYSTORE;
+    if (keystoreFile) {
+        const keystorePassword = process.env.SAFE_KEYSTORE_PASSWORD || '';
+        if (!keystorePassword) {
+            throw new Error('SAFE_KEYSTORE_PASSWORD is required to unlock the keystore');
+        }
+        return { signer: { type: 'keystore', keystore: await readFile(keystoreFile, 'utf8') }, keystorePassword };
+    }
+
+    const remoteUrl = options['remote-signer'] || process.env.SAFE_REMOTE_SIGNER_URL;
+    if (remoteUrl) {
+        return { signer: { type: 'remote', url: remoteUrl }, keystorePassword: '' };
+    }
+
+    if (fileConfig?.signer) {
+        return { signer: fileConfig.signer, keystorePassword: process.env.SAFE_KEYSTORE_PASSWORD || '' };
+    }
+
+    throw new Error('No signer: set SAFE_SIGNER_PRIVATE_KEY, SAFE_KEYSTORE (with SAFE_KEYSTORE_PASSWORD) or SAFE_REMOTE_SIGNER_URL');
+}
+
+/**
+ * Build the core configuration. The Safe address may be empty for `create`
+ */
+async function readConfig(options: Options, requireSafe: boolean): Promise<{ config: SafeConfig; keystorePassword: string }> {
+    const configFile = options.config || process.env.SAFE_CONFIG_FILE;
+    const fileConfig: Partial<SafeConfig> | null = configFile ? JSON.parse(await readFile(configFile, 'utf8')) : null;
+
+    const safeAddress = options.safe || process.env.SAFE_ADDRESS || fileConfig?.safeAddress || '';
+    const rpcUrl = options['rpc-url'] || process.env.SAFE_RPC_URL || fileConfig?.rpcUrl || '';
+
+    if (!rpcUrl) {
+        throw new Error('Set --rpc-url or SAFE_RPC_URL');
+    }
+    if (requireSafe && !isAddress(safeAddress)) {
+        throw new Error('Set --safe or SAFE_ADDRESS to the Safe address');
+    }
+
+    const chainIdText = options['chain-id'] || process.env.SAFE_CHAIN_ID || fileConfig?.chainId?.toString();
+    const chainId = chainIdText
+        ? parseInt(chainIdText)
+        : await createPublicClient({ transport: http(rpcUrl) }).getChainId();
+
+    const txServiceUrl = normalizeTxServiceUrl(
+        options['tx-service-url'] || process.env.SAFE_TX_SERVICE_URL || fileConfig?.txServiceUrl || getChain(chainId)?.txServiceUrl || ''
+    );
+    if (!txServiceUrl) {
+        throw new Error(`No Transaction Service known for chain ${chainId}: set --tx-service-url or SAFE_TX_SERVICE_URL`);
+    }
+
+    const { signer, keystorePassword } = await readSignerConfig(options, fileConfig);
+    return {
+        config: { safeAddress, rpcUrl, chainId, txServiceUrl, transactionStore: 'service', signer },
+        keystorePassword
+    };
+}
+
+/**
+ * Compact view of a queued transaction
+ */
+function summarizeTransaction(transaction: PendingTransaction, safeNonce: number) {
+    const confirmations = transaction.confirmations || [];
+    return {
+        safeTxHash: transaction.safeTxHash,
+        nonce: Number(transaction.nonce),
+        to: transaction.to,
+        value: transaction.value,
+        data: transaction.data || '0x',
+        operation: transaction.operation,
+        confirmations: confirmations.map(confirmation => confirmation.owner),
+        confirmationsRequired: transaction.confirmationsRequired,
+        executable: confirmations.length >= transaction.confirmationsRequired && !getExecutionBlocker(transaction, safeNonce),
+        blocker: getExecutionBlocker(transaction, safeNonce),
+        proposer: transaction.proposer,
+        submissionDate: transaction.submissionDate
+    };
+}
+
+/**
+ * Optional non-negative integer flag
+ */
+function readIntegerOption(options: Options, name: string): number | undefined {
+    const text = options[name];
+    if (text === undefined) {
+        return undefined;
+    }
+    if (!/^\d+$/.test(text) || !Number.isSafeInteger(Number(text))) {
+        throw new Error(`--${name} must be a non-negative integer`);
+    }
+    return Number(text);
+}
+
+/**
+ * Calls of a `propose` command
+ */
+async function readProposeCalls(options: Options, chainId: number): Promise<MultiSendCall[]> {
+    if (options.batch) {
+        const imported = parseBatchFile(await readFile(options.batch, 'utf8'), chainId);
+        if (imported.checksumValid === false) {
+            console.error('Warning: the batch checksum does not match; the file was edited after export');
+        }
+        return imported.calls.map(item => item.call);
+    }
+
+    if (!options.to || !isAddress(options.to)) {
+        throw new Error('propose needs --to <address> or --batch <file>');
+    }
+    const data = options.data || '0x';
+    if (!isHex(data)) {
+        throw new Error(`Invalid --data: ${data}`);
+    }
+    const operation = parseInt(options.operation || '0');
+    if (operation !== 0 && operation !== 1) {
+        throw new Error('--operation must be 0 (call) or 1 (delegatecall)');
+    }
+
+    return [{ to: options.to, value: BigInt(options.value || '0').toString(), data, operation }];
+}
+
+async function main(): Promise<void> {
+    const { values, positionals } = parseArgs({
+        allowPositionals: true,
+        options: {
+            'config': { type: 'string' },
+            'safe': { type: 'string' },
+            'rpc-url': { type: 'string' },
+            'chain-id': { type: 'string' },
+            'tx-service-url': { type: 'string' },
+            'keystore': { type: 'string' },
+            'remote-signer': { type: 'string' },
+            'to': { type: 'string' },
+            'value': { type: 'string' },
+            'data': { type: 'string' },
+            'operation': { type: 'string' },
+            'safe-tx-gas': { type: 'string' },
+            'nonce': { type: 'string' },
+            'batch': { type: 'string' },
+            'owners': { type: 'string' },
+            'threshold': { type: 'string' },
+            'salt-nonce': { type: 'string' }
+        }
+    });
+    const options = values as Options;
+    const [command, argument] = positionals;
+
+    if (!command) {
+        throw new Error('Usage: cli <info|list|propose|confirm|execute|create> [options]');
+    }
+
+    const { config, keystorePassword } = await readConfig(options, command !== 'create');
+    // Keep stdout for JSON results; core logs go to stderr
+    const core = new SafeCore({ logger: console.error });
+    core.on('error', ({ context, error }) => console.error(`${context} failed:`, error.message));
+    core.configure(config, keystorePassword);
+
+    if (command === 'create') {
+        const owners = (options.owners || '').split(',').map(owner => owner.trim()).filter(Boolean);
+        const threshold = parseInt(options.threshold || '');
+        if (owners.length === 0 || !threshold) {
+            throw new Error('create needs --owners <a,b,...> and --threshold <n>');
+        }
+
+        const safeInfo = await core.createSafe(owners, threshold, options['salt-nonce'] || String(Date.now()), (message) => console.error(message));
+        print(safeInfo);
+        return;
+    }
+
+    const safeInfo = await core.connect();
+    const requireHash = () => {
+        if (!argument || !/^0x[0-9a-fA-F]{64}$/.test(argument)) {
+            throw new Error(`${command} needs a safeTxHash argument`);
+        }
+        return argument;
+    };
+
+    switch (command) {
+        case 'info':
+            print({ ...safeInfo, chainId: config.chainId, signer: core.signerAddress });
+            break;
+        case 'list': {
+            const { transactions } = await core.refreshQueue();
+            const nonce = core.safeInfo?.nonce ?? safeInfo.nonce;
+            print({
+                safe: safeInfo.address,
+                nonce,
+                threshold: safeInfo.threshold,
+                transactions: transactions.map(transaction => summarizeTransaction(transaction, nonce))
+            });
+            break;
+        }
+        case 'propose': {
+            const calls = await readProposeCalls(options, config.chainId);
+            const safeTxHash = await core.proposeTransaction({
+                calls,
+                safeTxGas: readIntegerOption(options, 'safe-tx-gas'),
+                nonce: readIntegerOption(options, 'nonce')
+            });
+            print({ safeTxHash, calls: calls.length, proposer: core.signerAddress });
+            break;
+        }
+        case 'confirm': {
+            const safeTxHash = requireHash();
+            await core.refreshQueue();
+            await core.confirmTransaction(safeTxHash);
+            print({ safeTxHash, confirmedBy: core.signerAddress });
+            break;
+        }
+        case 'execute': {
+            const safeTxHash = requireHash();
+            await core.refreshQueue();
+            await core.executeTransaction(safeTxHash);
+            print({ safeTxHash, executed: true, executor: core.signerAddress });
+            break;
+        }
+        default:
+            throw new Error(`Unknown command: ${command}`);
+    }
+}
+
+main().then(
+    () => process.exit(0),
+    (error) => {
+        console.error(JSON.stringify({ error: error instanceof Error ? error.message : String(error) }));
+        process.exit(1);
+    }
+);
@@ -0,0 +1,241 @@
+/**
+ * Local devnet
+ * One command for a self-contained playground: starts a Hardhat node, deploys the Safe v1.4.1
+ * contracts at their canonical addresses through the Safe singleton factory, funds test owners,
+ * creates a Safe they own and runs the mock Transaction Service. The Safe's configuration is
+ * written to a JSON file for the CLI and printed for the web UI. Stop with Ctrl+C.
+ *
+ * Usage: npm run devnet
+ *   DEVNET_PORT            Hardhat node port, 8545 by default
+ *   DEVNET_RPC_URL         Use an already running node (Hardhat or Anvil) instead of starting one
+ *   DEVNET_OWNERS          Number of test owners, 3 by default
+ *   DEVNET_THRESHOLD       Threshold of the created Safe, 2 by default
+ *   DEVNET_CONFIG_FILE     Where the SafeConfig is written, devnet.json by default
+ *   MOCK_TX_SERVICE_PORT   Mock Transaction Service port, 8000 by default
+ */
+
+import { ChildProcess, spawn } from 'node:child_process';
+import { readFile, writeFile } from 'node:fs/promises';
+import { createRequire } from 'node:module';
+import { fileURLToPath } from 'node:url';
+import { concat, createPublicClient, createTestClient, createWalletClient, http, keccak256, parseEther, toHex } from 'viem';
+import { mnemonicToAccount, privateKeyToAccount } from 'viem/accounts';
+import { hardhat } from 'viem/chains';
+import {
+    getSafeSingletonDeployments,
+    getProxyFactoryDeployments,
+    getMultiSendDeployments,
+    getMultiSendCallOnlyDeployments,
+    getCompatibilityFallbackHandlerDeployments,
+    getSignMessageLibDeployments,
+    getCreateCallDeployments,
+    getSimulateTxAccessorDeployments
+} from '@safe-global/safe-deployments';
+import 'dotenv/config';
+import { SafeCore } from '../core';
+import { SafeConfig } from '../types';
+import { DEVNET_CHAIN_ID, DEVNET_SAFE_VERSION } from '../devnet';
+
+const port = parseInt(process.env.DEVNET_PORT || '8545');
+const rpcUrl = process.env.DEVNET_RPC_URL || `http://127.0.0.1:${port}`;
+const ownerCount = parseInt(process.env.DEVNET_OWNERS || '3');
+const threshold = parseInt(process.env.DEVNET_THRESHOLD || '2');
+const configFile = process.env.DEVNET_CONFIG_FILE || 'devnet.json';
+const txServicePort = parseInt(process.env.MOCK_TX_SERVICE_PORT || '8000');
+const txServiceUrl = `http://localhost:${txServicePort}`;
+
+/** Mnemonic of Hardhat's and Anvil's default accounts, so the owners match the node's printout */
+const TEST_MNEMONIC = 'test test test test test test test test test test test junk';
+
+/** Funds given to every owner */
+const OWNER_BALANCE = parseEther('10000');
+
+// Safe singleton factory (same code as the deterministic deployment proxy). Its deployment
+// transaction is signed per chain, so the runtime code is installed directly
+const SINGLETON_FACTORY_ADDRESS = '0x914d7Fec6aaC8cd542e72Bca78B30650d45643d7';
+const SINGLETON_FACTORY_CODE = '0x7fffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffe03601600081602082378035828234f58015156039578182fd5b8082525050506014600cf3';
+/** The canonical deployments used a zero salt */
+const DEPLOYMENT_SALT = toHex(0, { size: 32 });
+
+/** Contracts to deploy: Safe contracts build artifact and safe-deployments entry */
+const CONTRACTS: Array<[string, typeof getSafeSingletonDeployments]> = [
+    ['Safe.sol/Safe', getSafeSingletonDeployments],
+    ['proxies/SafeProxyFactory.sol/SafeProxyFactory', getProxyFactoryDeployments],
+    ['libraries/MultiSend.sol/MultiSend', getMultiSendDeployments],
+    ['libraries/MultiSendCallOnly.sol/MultiSendCallOnly', getMultiSendCallOnlyDeployments],
+    ['handler/CompatibilityFallbackHandler.sol/CompatibilityFallbackHandler', getCompatibilityFallbackHandlerDeployments],
+    ['libraries/SignMessageLib.sol/SignMessageLib', getSignMessageLibDeployments],
+    ['libraries/CreateCall.sol/CreateCall', getCreateCallDeployments],
+    ['accessors/SimulateTxAccessor.sol/SimulateTxAccessor', getSimulateTxAccessorDeployments]
+];
+
+const children: ChildProcess[] = [];
+let stopping = false;
+const publicClient = createPublicClient({ chain: hardhat, transport: http(rpcUrl) });
+const testClient = createTestClient({ chain: hardhat, mode: 'hardhat', transport: http(rpcUrl) });
+
+/**
+ * Start a child process that is stopped together with this script
+ */
+function startChild(command: string, args: string[], env: Record<string, string> = {}): ChildProcess {
+    const child = spawn(command, args, { env: { ...process.env, ...env }, stdio: ['ignore', 'ignore', 'inherit'] });
+    children.push(child);
+    child.on('exit', (code) => {
+        if (!stopping) {
+            console.error(`${command} ${args.join(' ')} exited with status ${code}`);
+            stop(1);
+        }
+    });
+    return child;
+}
+
+function stop(status: number): void {
+    stopping = true;
+    children.forEach(child => child.kill());
+    process.exit(status);
+}
+
+/**
+ * Wait until the node answers, then make sure it is the devnet chain
+ */
+async function waitForNode(): Promise<void> {
+    const deadline = Date.now() + 60_000;
+    let chainId: number | null = null;
+
+    while (chainId === null) {
+        chainId = await publicClient.getChainId().catch(() => null);
+        if (chainId === null) {
+            if (Date.now() > deadline) {
+                throw new Error(`No node answered at ${rpcUrl}`);
+            }
+            await new Promise(resolve => setTimeout(resolve, 500));
+        }
+    }
+
+    if (chainId !== DEVNET_CHAIN_ID) {
+        throw new Error(`The node at ${rpcUrl} serves chain ${chainId}, the devnet must be chain ${DEVNET_CHAIN_ID}`);
+    }
+}
+
+/**
+ * Deployed bytecode of a Safe contracts build artifact
+ */
+async function readArtifact(name: string): Promise<`0x${string}`> {
+    const require = createRequire(import.meta.url);
+    const file = require.resolve(`@safe-global/safe-contracts/build/artifacts/contracts/${name}.json`);
+    return JSON.parse(await readFile(file, 'utf8')).bytecode;
+}
+
+/**
+ * Deploy the Safe contracts through the singleton factory. Contracts already present are kept,
+ * and every address and code hash is checked against the canonical deployment
+ */
+async function deployContracts(deployerKey: `0x${string}`): Promise<void> {
+    const walletClient = createWalletClient({ account: privateKeyToAccount(deployerKey), chain: hardhat, transport: http(rpcUrl) });
+
+    if (!await publicClient.getCode({ address: SINGLETON_FACTORY_ADDRESS })) {
+        await testClient.setCode({ address: SINGLETON_FACTORY_ADDRESS, bytecode: SINGLETON_FACTORY_CODE });
+    }
+
+    for (const [artifact, getDeployments] of CONTRACTS) {
+        const deployment = getDeployments({ version: DEVNET_SAFE_VERSION })?.deployments.canonical;
+        if (!deployment) {
+            throw new Error(`No canonical ${DEVNET_SAFE_VERSION} deployment of ${artifact}`);
+        }
+        const address = deployment.address as `0x${string}`;
+
+        if (!await publicClient.getCode({ address })) {
+            const hash = await walletClient.sendTransaction({
+                to: SINGLETON_FACTORY_ADDRESS,
+                data: concat([DEPLOYMENT_SALT, await readArtifact(artifact)])
+            });
+            await publicClient.waitForTransactionReceipt({ hash });
+        }
+
+        const code = await publicClient.getCode({ address });
+        if (!code || keccak256(code) !== deployment.codeHash) {
+            throw new Error(`${artifact} at ${address} does not match the canonical ${DEVNET_SAFE_VERSION} deployment`);
+        }
+        console.log(`  ${artifact.split('/').pop()}: ${address}`);
+    }
+}
+
+/**
+ * Create the test Safe, or reuse it when a running node already has it
+ */
+async function createSafe(config: SafeConfig, owners: string[]): Promise<string> {
+    const core = new SafeCore();
+    core.configure(config);
+
+    try {
+        const safeInfo = await core.createSafe(owners, threshold, '0');
+        return safeInfo.address;
+    } catch (error: any) {
+        const existing = String(error.message).match(/already deployed at address: (0x[0-9a-fA-F]{40})/);
+        if (existing) {
+            return existing[1];
+        }
+        throw error;
+    }
+}
+
+async function main(): Promise<void> {
+    if (!(ownerCount >= 1) || !(threshold >= 1 && threshold <= ownerCount)) {
+        throw new Error('DEVNET_THRESHOLD must be between 1 and DEVNET_OWNERS');
+    }
+
+    if (!process.env.DEVNET_RPC_URL) {
+        console.log(`Starting Hardhat node on port ${port}...`);
+        startChild('npx', ['hardhat', 'node', '--port', String(port)]);
+    }
+    await waitForNode();
+
+    const ownerKeys = Array.from({ length: ownerCount }, (_, addressIndex) =>
+        toHex(mnemonicToAccount(TEST_MNEMONIC, { addressIndex }).getHdKey().privateKey!)
+    );
+    const owners = ownerKeys.map(key => privateKeyToAccount(key).address);
+    for (const owner of owners) {
+        await testClient.setBalance({ address: owner, value: OWNER_BALANCE });
+    }
+
+    console.log(`Deploying Safe ${DEVNET_SAFE_VERSION} contracts...`);
+    await deployContracts(ownerKeys[0]);
+
+    const config: SafeConfig = {
+        safeAddress: '',
+        rpcUrl,
+        chainId: DEVNET_CHAIN_ID,
+        txServiceUrl,
+        transactionStore: 'sandbox',
+        signer: { type: 'privateKey', privateKey: ownerKeys[0] }
+    };
+    config.safeAddress = await createSafe(config, owners);
+    await writeFile(configFile, JSON.stringify(config, null, 2) + '\n');
+
+    startChild(process.execPath, ['--loader', 'ts-node/esm', fileURLToPath(new URL('./mockTxService.ts', import.meta.url))], {
+        MOCK_TX_SERVICE_PORT: String(txServicePort),
+        MOCK_TX_SERVICE_RPC_URL: rpcUrl
+    });
+
+    console.log(`
+Devnet ready
+  RPC URL:                  ${rpcUrl} (chain ${DEVNET_CHAIN_ID})
+  Transaction Service URL:  ${txServiceUrl} (Sandbox store)
+  Safe:                     ${config.safeAddress} (${threshold} of ${ownerCount})
+  Configuration:            ${configFile}
+
+Owners (test keys, never use them elsewhere):
+${owners.map((owner, index) => `  ${owner}  ${ownerKeys[index]}`).join('\n')}
+
+Web UI: pick the "Local Devnet" network, the Sandbox store, the Safe above and a Private Key signer.
+CLI:    SAFE_CONFIG_FILE=${configFile} npm run -s cli -- info
+`);
+}
+
+process.on('SIGINT', () => stop(0));
+process.on('SIGTERM', () => stop(0));
+
+main().catch((error) => {
+    console.error(error instanceof Error ? error.message : error);
+    stop(1);
+});
@@ -0,0 +1,541 @@
+/**
+ * Mock Transaction Service
+ * Local stand-in for the Safe Transaction Service, used by the app's "Sandbox" store to work
+ * offline against a local node. Implements the endpoints the app and the Safe API Kit call:
+ * Safe info, multisig transactions (list, propose, get, delete) and confirmations.
+ * Like the hosted service it recomputes SafeTx hashes, only accepts signatures from current
+ * owners and marks transactions executed from the Safe's ExecutionSuccess / ExecutionFailure events.
+ *
+ * Usage: npm run mock-tx-service
+ *   MOCK_TX_SERVICE_PORT      Listening port, 8000 by default
+ *   MOCK_TX_SERVICE_RPC_URL   Node RPC, http://127.0.0.1:8545 by default
+ *   MOCK_TX_SERVICE_FILE      JSON file to keep data across restarts; in memory when unset
+ */
+
+import { createServer, IncomingMessage, ServerResponse } from 'node:http';
+import { readFile, writeFile } from 'node:fs/promises';
+import { BaseError, createPublicClient, getAddress, http, isAddress, parseAbi, recoverTypedDataAddress, slice } from 'viem';
+import 'dotenv/config';
+import { SafeConfirmation } from '../types';
+import { SafeTxData, ZERO_ADDRESS, calculateSafeTxHash } from '../safeTxHash';
+import { SafeState, buildDeleteRequestTypedData, readSafeState, verifySafeSignature } from '../transactionStore';
+import { FALLBACK_HANDLER_SLOT, GUARD_SLOT, SAFE_EVENTS_ABI } from '../liveUpdates';
+
+const port = parseInt(process.env.MOCK_TX_SERVICE_PORT || '8000');
+const rpcUrl = process.env.MOCK_TX_SERVICE_RPC_URL || 'http://127.0.0.1:8545';
+const dataFile = process.env.MOCK_TX_SERVICE_FILE || '';
+
+const DEFAULT_PAGE_SIZE = 100;
+
+const SAFE_INFO_ABI = parseAbi([
+    'function getModulesPaginated(address start, uint256 pageSize) view returns (address[] array, address next)'
+]);
+
+const EXECUTION_EVENTS = SAFE_EVENTS_ABI.filter(item => item.name === 'ExecutionSuccess' || item.name === 'ExecutionFailure');
+
+interface StoredExecution {
+    transactionHash: string;
+    blockNumber: number;
+    executionDate: string;
+    executor: string;
+    isSuccessful: boolean;
+}
+
+interface StoredTransaction {
+    safe: string;
+    /** Lowercase */
+    safeTxHash: string;
+    safeTx: SafeTxData;
+    proposer: string;
+    origin: string;
+    submissionDate: string;
+    modified: string;
+    confirmations: SafeConfirmation[];
+    execution: StoredExecution | null;
+}
+
+interface MockDatabase {
+    chainId: number;
+    transactions: Record<string, StoredTransaction>;
+}
+
+/**
+ * Failure answered with an HTTP status and a `detail` message, as the hosted service does
+ */
+class ServiceError extends Error {
+    constructor(readonly status: number, message: string) {
+        super(message);
+    }
+}
+
+const publicClient = createPublicClient({ transport: http(rpcUrl, { batch: true }) });
+let database: MockDatabase = { chainId: 0, transactions: {} };
+/** Next block to scan for executions, per lowercase Safe address */
+const indexedBlocks = new Map<string, bigint>();
+
+/**
+ * Load the data file when it belongs to the node's chain
+ */
+async function loadDatabase(chainId: number): Promise<void> {
+    database = { chainId, transactions: {} };
+    if (!dataFile) return;
+
+    try {
+        const saved: MockDatabase = JSON.parse(await readFile(dataFile, 'utf8'));
+        if (saved.chainId === chainId) {
+            database.transactions = saved.transactions || {};
+        } else {
+            console.warn(`${dataFile} holds data of chain ${saved.chainId}, starting empty`);
+        }
+    } catch (error: any) {
+        if (error.code !== 'ENOENT') {
+            throw error;
+        }
+    }
+}
+
+async function saveDatabase(): Promise<void> {
+    if (dataFile) {
+        await writeFile(dataFile, JSON.stringify(database, null, 2));
+    }
+}
+
+/**
+ * Checksummed Safe address, or 404 when nothing is deployed there
+ */
+async function requireSafe(address: string): Promise<SafeState & { address: string }> {
+    const safe = getAddress(address);
+    const code = await publicClient.getCode({ address: safe });
+    if (!code || code === '0x') {
+        throw new ServiceError(404, `Safe=${safe} not found`);
+    }
+    return { address: safe, ...await readSafeState(rpcUrl, safe) };
+}
+
+function requireTransaction(safeTxHash: string): StoredTransaction {
+    const transaction = database.transactions[safeTxHash.toLowerCase()];
+    if (!transaction) {
+        throw new ServiceError(404, 'No MultisigTransaction matches the given query.');
+    }
+    return transaction;
+}
+
+/**
+ * Record executions of stored transactions from the Safe's events since the last scan
+ */
+async function indexExecutions(safe: string): Promise<void> {
+    const key = safe.toLowerCase();
+    const latest = await publicClient.getBlockNumber();
+    let fromBlock = indexedBlocks.get(key) ?? 0n;
+    // The node was restarted with a fresh chain
+    if (fromBlock > latest + 1n) {
+        fromBlock = 0n;
+    }
+    if (fromBlock > latest) return;
+
+    const logs = await publicClient.getLogs({
+        address: safe as `0x${string}`,
+        events: EXECUTION_EVENTS,
+        fromBlock,
+        toBlock: latest
+    });
+    indexedBlocks.set(key, latest + 1n);
+
+    let updated = false;
+    for (const log of logs) {
+        // Safe 1.4.x indexes txHash, earlier versions log it as data
+        const txHash = log.topics[1] || slice(log.data, 0, 32);
+        const transaction = database.transactions[txHash.toLowerCase()];
+        if (!transaction || transaction.execution) continue;
+
+        const [block, sent] = await Promise.all([
+            publicClient.getBlock({ blockNumber: log.blockNumber }),
+            publicClient.getTransaction({ hash: log.transactionHash })
+        ]);
+        transaction.execution = {
+            transactionHash: log.transactionHash,
+            blockNumber: Number(log.blockNumber),
+            executionDate: new Date(Number(block.timestamp) * 1000).toISOString(),
+            executor: sent.from,
+            isSuccessful: log.eventName === 'ExecutionSuccess'
+        };
+        transaction.modified = new Date().toISOString();
+        updated = true;
+    }
+
+    if (updated) {
+        await saveDatabase();
+    }
+}
+
+/**
+ * Transaction in the hosted service's response format
+ */
+function toServiceTransaction(transaction: StoredTransaction, threshold: number) {
+    const { safeTx, execution } = transaction;
+    return {
+        safe: transaction.safe,
+        to: safeTx.to,
+        value: safeTx.value,
+        data: safeTx.data,
+        operation: safeTx.operation,
+        gasToken: safeTx.gasToken,
+        safeTxGas: Number(safeTx.safeTxGas),
+        baseGas: Number(safeTx.baseGas),
+        gasPrice: safeTx.gasPrice,
+        refundReceiver: safeTx.refundReceiver,
+        nonce: safeTx.nonce,
+        executionDate: execution?.executionDate || null,
+        submissionDate: transaction.submissionDate,
+        modified: transaction.modified,
+        blockNumber: execution?.blockNumber || null,
+        transactionHash: execution?.transactionHash || null,
+        safeTxHash: transaction.safeTxHash,
+        proposer: transaction.proposer,
+        proposedByDelegate: null,
+        executor: execution?.executor || null,
+        isExecuted: !!execution,
+        isSuccessful: execution ? execution.isSuccessful : null,
+        ethGasPrice: null,
+        maxFeePerGas: null,
+        maxPriorityFeePerGas: null,
+        gasUsed: null,
+        fee: null,
+        origin: transaction.origin,
+        dataDecoded: null,
+        confirmationsRequired: threshold,
+        confirmations: transaction.confirmations,
+        trusted: true,
+        signatures: null
+    };
+}
+
+/**
+ * Paginated list response. `next` and `previous` keep the request's other query parameters
+ */
+function paginate<T>(items: T[], url: URL, host: string) {
+    const limit = parseInt(url.searchParams.get('limit') || '') || DEFAULT_PAGE_SIZE;
+    const offset = parseInt(url.searchParams.get('offset') || '') || 0;
+    const pageUrl = (pageOffset: number) => {
+        const page = new URL(url.pathname + url.search, `http://${host}`);
+        page.searchParams.set('limit', String(limit));
+        page.searchParams.set('offset', String(pageOffset));
+        return page.toString();
+    };
+
+    return {
+        count: items.length,
+        next: offset + limit < items.length ? pageUrl(offset + limit) : null,
+        previous: offset > 0 ? pageUrl(Math.max(offset - limit, 0)) : null,
+        results: items.slice(offset, offset + limit)
+    };
+}
+
+async function getSafeInfo(address: string) {
+    const safe = await requireSafe(address);
+    const storageAddress = (slot: `0x${string}`) => publicClient.getStorageAt({ address: safe.address as `0x${string}`, slot })
+        .then(value => value && BigInt(value) !== 0n ? getAddress(`0x${value.slice(-40)}`) : ZERO_ADDRESS);
+
+    const [[modules], masterCopy, fallbackHandler, guard] = await Promise.all([
+        publicClient.readContract({
+            address: safe.address as `0x${string}`,
+            abi: SAFE_INFO_ABI,
+            functionName: 'getModulesPaginated',
+            // Module pages start at the sentinel address
+            args: ['0x0000000000000000000000000000000000000001', 100n]
+        }),
+        storageAddress('0x0000000000000000000000000000000000000000000000000000000000000000'),
+        storageAddress(FALLBACK_HANDLER_SLOT),
+        storageAddress(GUARD_SLOT)
+    ]);
+
+    return {
+        address: safe.address,
+        nonce: safe.nonce,
+        threshold: safe.threshold,
+        owners: safe.owners,
+        masterCopy,
+        modules: [...modules],
+        fallbackHandler,
+        guard,
+        version: safe.version
+    };
+}
+
+async function listTransactions(address: string, url: URL, host: string) {
+    const safe = await requireSafe(address);
+    await indexExecutions(safe.address);
+
+    const executed = url.searchParams.get('executed');
+    const nonce = url.searchParams.get('nonce');
+    const nonceGte = url.searchParams.get('nonce__gte');
+    const ordering = url.searchParams.get('ordering') || '-nonce';
+
+    const transactions = Object.values(database.transactions)
+        .filter(transaction => transaction.safe === safe.address)
+        .filter(transaction => executed === null || String(!!transaction.execution) === executed)
+        .filter(transaction => nonce === null || transaction.safeTx.nonce === parseInt(nonce))
+        .filter(transaction => nonceGte === null || transaction.safeTx.nonce >= parseInt(nonceGte));
+
+    const field = ordering.replace(/^-/, '');
+    const direction = ordering.startsWith('-') ? -1 : 1;
+    const sortKey = (transaction: StoredTransaction): number | string => {
+        if (field === 'nonce') return transaction.safeTx.nonce;
+        if (field === 'modified') return transaction.modified;
+        if (field === 'executionDate') return transaction.execution?.executionDate || '';
+        return transaction.submissionDate;
+    };
+    transactions.sort((a, b) => {
+        const left = sortKey(a);
+        const right = sortKey(b);
+        // Same nonce: oldest proposal first, as the hosted service does
+        return (left < right ? -1 : left > right ? 1 : 0) * direction || a.submissionDate.localeCompare(b.submissionDate);
+    });
+
+    return paginate(transactions.map(transaction => toServiceTransaction(transaction, safe.threshold)), url, host);
+}
+
+async function getTransaction(safeTxHash: string) {
+    const transaction = requireTransaction(safeTxHash);
+    const safe = await requireSafe(transaction.safe);
+    await indexExecutions(safe.address);
+    return toServiceTransaction(transaction, safe.threshold);
+}
+
+/**
+ * Validate and store a proposal. Proposing an existing transaction again adds the sender's signature
+ */
+async function proposeTransaction(address: string, body: any): Promise<void> {
+    const safe = await requireSafe(address);
+    await indexExecutions(safe.address);
+
+    for (const field of ['to', 'nonce', 'contractTransactionHash', 'sender', 'signature']) {
+        if (body?.[field] === undefined || body[field] === null || body[field] === '') {
+            throw new ServiceError(422, `${field} is required`);
+        }
+    }
+    if (!isAddress(body.to) || !isAddress(body.sender)) {
+        throw new ServiceError(422, 'to and sender must be addresses');
+    }
+
+    const safeTx: SafeTxData = {
+        to: getAddress(body.to),
+        value: String(body.value || '0'),
+        data: body.data || '0x',
+        operation: Number(body.operation || 0),
+        safeTxGas: String(body.safeTxGas || '0'),
+        baseGas: String(body.baseGas || '0'),
+        gasPrice: String(body.gasPrice || '0'),
+        gasToken: getAddress(body.gasToken || ZERO_ADDRESS),
+        refundReceiver: getAddress(body.refundReceiver || ZERO_ADDRESS),
+        nonce: Number(body.nonce)
+    };
+    if (safeTx.operation !== 0 && safeTx.operation !== 1) {
+        throw new ServiceError(422, 'operation must be 0 (call) or 1 (delegatecall)');
+    }
+    if (safeTx.nonce < safe.nonce) {
+        throw new ServiceError(422, `Nonce=${safeTx.nonce} too low for safe=${safe.address}`);
+    }
+
+    const safeTxHash = calculateSafeTxHash(database.chainId, safe.address, safe.version, safeTx).toLowerCase();
+    if (safeTxHash !== String(body.contractTransactionHash).toLowerCase()) {
+        throw new ServiceError(422, `Contract-transaction-hash=${safeTxHash} does not match provided contract-tx-hash=${body.contractTransactionHash}`);
+    }
+
+    const sender = getAddress(body.sender);
+    if (!safe.owners.some(owner => owner.toLowerCase() === sender.toLowerCase())) {
+        throw new ServiceError(422, `Sender=${sender} is not an owner`);
+    }
+    const confirmation = await verifySafeSignature(rpcUrl, safe.address, safeTxHash, body.signature, safe.owners)
+        .catch((error: Error) => { throw new ServiceError(422, `Invalid signature: ${error.message}`); });
+    if (confirmation.owner.toLowerCase() !== sender.toLowerCase()) {
+        throw new ServiceError(422, `Signature is from ${confirmation.owner}, not the sender ${sender}`);
+    }
+
+    const now = new Date().toISOString();
+    const existing = database.transactions[safeTxHash];
+    if (existing?.execution) {
+        throw new ServiceError(422, `Tx with safe-tx-hash=${safeTxHash} for safe=${safe.address} was already executed`);
+    }
+    if (existing) {
+        if (!existing.confirmations.some(item => item.owner === confirmation.owner)) {
+            existing.confirmations.push(confirmation);
+            existing.modified = now;
+        }
+    } else {
+        database.transactions[safeTxHash] = {
+            safe: safe.address,
+            safeTxHash,
+            safeTx,
+            proposer: sender,
+            origin: typeof body.origin === 'string' ? body.origin : '',
+            submissionDate: now,
+            modified: now,
+            confirmations: [confirmation],
+            execution: null
+        };
+    }
+    await saveDatabase();
+}
+
+async function confirmTransaction(safeTxHash: string, body: any): Promise<{ signature: string }> {
+    const transaction = requireTransaction(safeTxHash);
+    const safe = await requireSafe(transaction.safe);
+    await indexExecutions(safe.address);
+
+    if (transaction.execution) {
+        throw new ServiceError(422, `Transaction with safe-tx-hash=${transaction.safeTxHash} was already executed`);
+    }
+    if (!body?.signature) {
+        throw new ServiceError(422, 'signature is required');
+    }
+
+    const confirmation = await verifySafeSignature(rpcUrl, safe.address, transaction.safeTxHash, body.signature, safe.owners)
+        .catch((error: Error) => { throw new ServiceError(422, `Invalid signature: ${error.message}`); });
+    if (transaction.confirmations.some(item => item.owner === confirmation.owner)) {
+        throw new ServiceError(422, `Signature for owner=${confirmation.owner} already exists`);
+    }
+
+    transaction.confirmations.push(confirmation);
+    transaction.modified = new Date().toISOString();
+    await saveDatabase();
+    return { signature: body.signature };
+}
+
+/**
+ * Delete a proposal. The proposer signs a DeleteRequest for the current or the previous hour
+ */
+async function deleteTransaction(safeTxHash: string, body: any): Promise<void> {
+    const transaction = requireTransaction(safeTxHash);
+    await indexExecutions(transaction.safe);
+
+    if (transaction.execution) {
+        throw new ServiceError(422, 'Executed transactions cannot be deleted');
+    }
+    if (!body?.signature) {
+        throw new ServiceError(422, 'signature is required');
+    }
+
+    const typedData = buildDeleteRequestTypedData(database.chainId, transaction.safe, transaction.safeTxHash);
+    const { totp } = typedData.message;
+    for (const hour of [totp, totp - 1n]) {
+        const signer = await recoverTypedDataAddress({
+            ...typedData,
+            message: { ...typedData.message, totp: hour },
+            signature: body.signature
+        }).catch(() => '');
+        if (signer.toLowerCase() === transaction.proposer.toLowerCase()) {
+            delete database.transactions[transaction.safeTxHash];
+            await saveDatabase();
+            return;
+        }
+    }
+    throw new ServiceError(422, 'Provided signer is not the proposer or the signature expired');
+}
+
+/**
+ * Dispatch a request to its endpoint. Returns the status and JSON body of the response
+ */
+async function route(method: string, url: URL, host: string, readJson: () => Promise<any>): Promise<[number, unknown]> {
+    const path = url.pathname.replace(/\/?$/, '/');
+    let match: RegExpMatchArray | null;
+
+    if (method === 'GET' && path === '/api/v1/about/') {
+        return [200, { name: 'Safe Transaction Service (mock)', version: '0.0.0', apiVersion: 'v1', settings: {} }];
+    }
+
+    if ((match = path.match(/^\/api\/v[12]\/safes\/(0x[0-9a-fA-F]{40})\/$/)) && method === 'GET') {
+        return [200, await getSafeInfo(match[1])];
+    }
+
+    if ((match = path.match(/^\/api\/v[12]\/safes\/(0x[0-9a-fA-F]{40})\/multisig-transactions\/$/))) {
+        if (method === 'GET') return [200, await listTransactions(match[1], url, host)];
+        if (method === 'POST') {
+            await proposeTransaction(match[1], await readJson());
+            return [201, null];
+        }
+    }
+
+    // Lists the app reads on other tabs; the mock never has entries for them
+    if ((match = path.match(/^\/api\/v[12]\/safes\/(0x[0-9a-fA-F]{40})\/(incoming-transfers|module-transactions|messages)\/$/)) && method === 'GET') {
+        await requireSafe(match[1]);
+        return [200, paginate([], url, host)];
+    }
+
+    if ((match = path.match(/^\/api\/v[12]\/multisig-transactions\/(0x[0-9a-fA-F]{64})\/$/))) {
+        if (method === 'GET') return [200, await getTransaction(match[1])];
+        if (method === 'DELETE') {
+            await deleteTransaction(match[1], await readJson());
+            return [204, null];
+        }
+    }
+
+    if ((match = path.match(/^\/api\/v[12]\/multisig-transactions\/(0x[0-9a-fA-F]{64})\/confirmations\/$/))) {
+        if (method === 'GET') return [200, paginate(requireTransaction(match[1]).confirmations, url, host)];
+        if (method === 'POST') return [201, await confirmTransaction(match[1], await readJson())];
+    }
+
+    throw new ServiceError(404, `${method} ${url.pathname} is not implemented by the mock service`);
+}
+
+/**
+ * Read the full request body
+ */
+async function readBody(req: IncomingMessage): Promise<string> {
+    let body = '';
+    for await (const chunk of req) {
+        body += chunk;
+    }
+    return body;
+}
+
+const server = createServer(async (req: IncomingMessage, res: ServerResponse) => {
+    res.setHeader('Access-Control-Allow-Origin', '*');
+    res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Authorization');
+    res.setHeader('Access-Control-Allow-Methods', 'GET, POST, DELETE, OPTIONS');
+
+    if (req.method === 'OPTIONS') {
+        res.writeHead(204).end();
+        return;
+    }
+
+    const host = req.headers.host || `localhost:${port}`;
+    const url = new URL(req.url || '/', `http://${host}`);
+    const readJson = async () => {
+        const body = await readBody(req);
+        try {
+            return body ? JSON.parse(body) : {};
+        } catch {
+            throw new ServiceError(400, 'Request body is not valid JSON');
+        }
+    };
+
+    try {
+        const [status, body] = await route(req.method || 'GET', url, host, readJson);
+        if (body === null) {
+            res.writeHead(status).end();
+        } else {
+            res.writeHead(status, { 'Content-Type': 'application/json' });
+            res.end(JSON.stringify(body));
+        }
+    } catch (error) {
+        const status = error instanceof ServiceError ? error.status : 500;
+        const message = error instanceof BaseError ? error.shortMessage : error instanceof Error ? error.message : String(error);
+        if (status === 500) {
+            console.error(`${req.method} ${url.pathname} failed:`, error);
+        }
+        res.writeHead(status, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify({ detail: message }));
+    }
+});
+
+publicClient.getChainId().then(async (chainId) => {
+    await loadDatabase(chainId);
+    server.listen(port, () => {
+        console.log(`Mock Transaction Service listening on http://localhost:${port} (chain ${chainId}, RPC ${rpcUrl})`);
+        console.log(dataFile ? `  Data file: ${dataFile}` : '  Data is kept in memory');
+    });
+}, (error) => {
+    console.error(`Cannot reach the node at ${rpcUrl}:`, error.shortMessage || error.message);
+    process.exit(1);
+});
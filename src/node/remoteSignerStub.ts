@@ -0,0 +1,114 @@
+/**
+ * Remote signer stub
+ * Minimal HTTP signing service for local testing of the "Remote Signer" option.
+ * Keys are read from REMOTE_SIGNER_KEYS (comma-separated hex private keys).
+ *
+ * Usage: REMOTE_SIGNER_KEYS=0x... npm run signer-stub
+ */
+
+import { createServer, IncomingMessage, ServerResponse } from 'node:http';
+import { hexToBigInt, hexToNumber } from 'viem';
+import { privateKeyToAccount, PrivateKeyAccount } from 'viem/accounts';
+import 'dotenv/config';
+
+const port = parseInt(process.env.REMOTE_SIGNER_PORT || '8550');
+const keys = (process.env.REMOTE_SIGNER_KEYS || '').split(',').map(key => key.trim()).filter(Boolean);
+
+if (keys.length === 0) {
+    console.error('REMOTE_SIGNER_KEYS is not set');
+    process.exit(1);
+}
+
+const accounts: PrivateKeyAccount[] = keys.map(key => privateKeyToAccount(key as `0x${string}`));
+
+/**
+ * Find the account managing an address
+ */
+function getAccount(address: string): PrivateKeyAccount {
+    const account = accounts.find(item => item.address.toLowerCase() === String(address).toLowerCase());
+    if (!account) {
+        throw new Error(`Unknown account: ${address}`);
+    }
+    return account;
+}
+
+/**
+ * Convert JSON-RPC hex quantities back into a viem serializable transaction
+ */
+function fromRpcTransaction(tx: Record<string, any>): any {
+    const bigint = (value?: string) => value === undefined ? undefined : hexToBigInt(value as `0x${string}`);
+
+    return {
+        type: tx.type,
+        chainId: tx.chainId ? hexToNumber(tx.chainId) : undefined,
+        nonce: tx.nonce ? hexToNumber(tx.nonce) : undefined,
+        to: tx.to,
+        data: tx.data,
+        value: bigint(tx.value),
+        gas: bigint(tx.gas),
+        gasPrice: bigint(tx.gasPrice),
+        maxFeePerGas: bigint(tx.maxFeePerGas),
+        maxPriorityFeePerGas: bigint(tx.maxPriorityFeePerGas)
+    };
+}
+
+/**
+ * Dispatch a JSON-RPC call
+ */
+async function handle(method: string, params: any[]): Promise<unknown> {
+    switch (method) {
+        case 'eth_accounts':
+            return accounts.map(account => account.address);
+        case 'personal_sign':
+            return await getAccount(params[1]).signMessage({ message: { raw: params[0] } });
+        case 'eth_signTypedData_v4': {
+            const typedData = typeof params[1] === 'string' ? JSON.parse(params[1]) : params[1];
+            const { EIP712Domain, ...types } = typedData.types;
+            return await getAccount(params[0]).signTypedData({ ...typedData, types });
+        }
+        case 'eth_signTransaction':
+            return await getAccount(params[0].from).signTransaction(fromRpcTransaction(params[0]));
+        default:
+            throw new Error(`Method not supported: ${method}`);
+    }
+}
+
+/**
+ * Read the full request body
+ */
+async function readBody(req: IncomingMessage): Promise<string> {
+    let body = '';
+    for await (const chunk of req) {
+        body += chunk;
+    }
+    return body;
+}
+
+const server = createServer(async (req: IncomingMessage, res: ServerResponse) => {
+    res.setHeader('Access-Control-Allow-Origin', '*');
+    res.setHeader('Access-Control-Allow-Headers', 'Content-Type');
+    res.setHeader('Access-Control-Allow-Methods', 'POST, OPTIONS');
+
+    if (req.method === 'OPTIONS') {
+        res.writeHead(204).end();
+        return;
+    }
+
+    let id: unknown = null;
+    try {
+        const payload = JSON.parse(await readBody(req));
+        id = payload.id;
+        const result = await handle(payload.method, payload.params || []);
+        res.writeHead(200, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify({ jsonrpc: '2.0', id, result }));
+    } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        res.writeHead(200, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify({ jsonrpc: '2.0', id, error: { code: -32000, message } }));
+    }
+});
+
+server.listen(port, () => {
+    console.log(`Remote signer stub listening on http://localhost:${port}`);
+    accounts.forEach(account => console.log(`  ${account.address}`));
+});
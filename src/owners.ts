@@ -0,0 +1,141 @@
+/**
+ * Owner and threshold management
+ * Validates owner changes against the current Safe state and builds them with the Protocol Kit
+ */
+
+import Safe from '@safe-global/protocol-kit';
+import { isAddress } from 'viem';
+import { SafeInfo } from './types';
+import { ZERO_ADDRESS } from './safeTxHash';
+import { MultiSendCall } from './multiSend';
+
+/** Head of the Safe's owner linked list, never a valid owner */
+const SENTINEL_OWNERS = '0x0000000000000000000000000000000000000001';
+
+export type OwnerAction = 'addOwner' | 'removeOwner' | 'swapOwner' | 'changeThreshold';
+
+export interface OwnerChange {
+    action: OwnerAction;
+    /** Owner to add (addOwner) or the existing owner to remove / replace */
+    owner?: string;
+    /** Replacement owner (swapOwner) */
+    newOwner?: string;
+    /** Threshold after the change; ignored by swapOwner */
+    threshold?: number;
+}
+
+function isOwner(owners: string[], address: string): boolean {
+    return owners.some(owner => owner.toLowerCase() === address.toLowerCase());
+}
+
+function assertNewOwner(owners: string[], address: string | undefined): string {
+    if (!address || !isAddress(address)) {
+        throw new Error(`Invalid owner address: ${address || '(empty)'}`);
+    }
+    if (address.toLowerCase() === ZERO_ADDRESS || address.toLowerCase() === SENTINEL_OWNERS) {
+        throw new Error(`${address} cannot be a Safe owner`);
+    }
+    if (isOwner(owners, address)) {
+        throw new Error(`${address} is already an owner`);
+    }
+    return address;
+}
+
+function assertExistingOwner(owners: string[], address: string | undefined): string {
+    if (!address || !isOwner(owners, address)) {
+        throw new Error(`${address || '(empty)'} is not an owner of this Safe`);
+    }
+    return address;
+}
+
+function assertThreshold(threshold: number | undefined, ownerCount: number): number {
+    if (threshold === undefined || !Number.isInteger(threshold) || threshold < 1 || threshold > ownerCount) {
+        throw new Error(`Threshold must be between 1 and ${ownerCount}`);
+    }
+    return threshold;
+}
+
+/**
+ * Check an owner change against the Safe's current owners and threshold
+ */
+export function validateOwnerChange(safeInfo: Pick<SafeInfo, 'owners' | 'threshold'>, change: OwnerChange): void {
+    const { owners } = safeInfo;
+
+    switch (change.action) {
+        case 'addOwner':
+            assertNewOwner(owners, change.owner);
+            assertThreshold(change.threshold, owners.length + 1);
+            break;
+        case 'removeOwner':
+            assertExistingOwner(owners, change.owner);
+            if (owners.length === 1) {
+                throw new Error('Cannot remove the only owner of the Safe');
+            }
+            assertThreshold(change.threshold, owners.length - 1);
+            break;
+        case 'swapOwner':
+            assertExistingOwner(owners, change.owner);
+            assertNewOwner(owners, change.newOwner);
+            break;
+        case 'changeThreshold':
+            assertThreshold(change.threshold, owners.length);
+            if (change.threshold === safeInfo.threshold) {
+                throw new Error(`Threshold is already ${safeInfo.threshold}`);
+            }
+            break;
+        default:
+            throw new Error(`Unsupported owner action: ${(change as OwnerChange).action}`);
+    }
+}
+
+/**
+ * Build the Safe call for a validated owner change using the Protocol Kit transaction builders
+ */
+export async function buildOwnerChangeCall(protocolKit: Safe, change: OwnerChange): Promise<MultiSendCall> {
+    let safeTransaction;
+
+    switch (change.action) {
+        case 'addOwner':
+            safeTransaction = await protocolKit.createAddOwnerTx({
+                ownerAddress: change.owner!,
+                threshold: change.threshold
+            });
+            break;
+        case 'removeOwner':
+            safeTransaction = await protocolKit.createRemoveOwnerTx({
+                ownerAddress: change.owner!,
+                threshold: change.threshold
+            });
+            break;
+        case 'swapOwner':
+            safeTransaction = await protocolKit.createSwapOwnerTx({
+                oldOwnerAddress: change.owner!,
+                newOwnerAddress: change.newOwner!
+            });
+            break;
+        case 'changeThreshold':
+            safeTransaction = await protocolKit.createChangeThresholdTx(change.threshold!);
+            break;
+        default:
+            throw new Error(`Unsupported owner action: ${(change as OwnerChange).action}`);
+    }
+
+    const { to, value, data, operation } = safeTransaction.data;
+    return { to, value, data, operation };
+}
+
+/**
+ * Short description of an owner change for confirmations and toasts
+ */
+export function describeOwnerChange(change: OwnerChange): string {
+    switch (change.action) {
+        case 'addOwner':
+            return `Add owner ${change.owner} with threshold ${change.threshold}`;
+        case 'removeOwner':
+            return `Remove owner ${change.owner} with threshold ${change.threshold}`;
+        case 'swapOwner':
+            return `Replace owner ${change.owner} with ${change.newOwner}`;
+        case 'changeThreshold':
+            return `Change threshold to ${change.threshold}`;
+    }
+}
@@ -0,0 +1,142 @@
+/**
+ * Saved Safe profiles
+ * Named configurations (Safe address, chain, signer) kept in localStorage
+ */
+
+import { StoredSafeConfig } from './types';
+
+const PROFILES_KEY = 'safeProfiles';
+const LEGACY_CONFIG_KEY = 'safeConfig';
+
+export interface SafeProfile {
+    id: string;
+    name: string;
+    config: StoredSafeConfig | null;
+}
+
+interface ProfileState {
+    activeProfileId: string;
+    profiles: SafeProfile[];
+}
+
+/**
+ * localStorage-backed list of profiles with one active entry
+ */
+export class ProfileStore {
+    private state: ProfileState;
+
+    constructor() {
+        this.state = this.read();
+    }
+
+    /**
+     * Read profiles, importing the single configuration saved by older versions
+     */
+    private read(): ProfileState {
+        const saved = localStorage.getItem(PROFILES_KEY);
+        if (saved) {
+            try {
+                const state = JSON.parse(saved) as ProfileState;
+                if (Array.isArray(state.profiles) && state.profiles.length > 0) {
+                    return state;
+                }
+            } catch (error) {
+                console.error('Failed to parse saved profiles:', error);
+            }
+        }
+
+        const profile: SafeProfile = {
+            id: this.generateId(),
+            name: 'Default',
+            config: this.readLegacyConfig()
+        };
+        const state = { activeProfileId: profile.id, profiles: [profile] };
+
+        localStorage.setItem(PROFILES_KEY, JSON.stringify(state));
+        localStorage.removeItem(LEGACY_CONFIG_KEY);
+        return state;
+    }
+
+    /**
+     * Configuration saved by older versions; unreadable JSON is dropped
+     */
+    private readLegacyConfig(): StoredSafeConfig | null {
+        const legacy = localStorage.getItem(LEGACY_CONFIG_KEY);
+        if (!legacy) {
+            return null;
+        }
+        try {
+            return JSON.parse(legacy);
+        } catch (error) {
+            console.error('Failed to parse the legacy Safe configuration:', error);
+            return null;
+        }
+    }
+
+    private write(): void {
+        localStorage.setItem(PROFILES_KEY, JSON.stringify(this.state));
+    }
+
+    private generateId(): string {
+        return crypto.randomUUID();
+    }
+
+    list(): SafeProfile[] {
+        return [...this.state.profiles];
+    }
+
+    getActive(): SafeProfile {
+        return this.state.profiles.find(profile => profile.id === this.state.activeProfileId) || this.state.profiles[0];
+    }
+
+    setActive(id: string): SafeProfile {
+        const profile = this.state.profiles.find(item => item.id === id);
+        if (!profile) {
+            throw new Error(`Profile not found: ${id}`);
+        }
+        this.state.activeProfileId = id;
+        this.write();
+        return profile;
+    }
+
+    /**
+     * Add an empty profile and make it active
+     */
+    create(name: string): SafeProfile {
+        const profile: SafeProfile = { id: this.generateId(), name, config: null };
+        this.state.profiles.push(profile);
+        this.state.activeProfileId = profile.id;
+        this.write();
+        return profile;
+    }
+
+    /**
+     * Store the configuration of the active profile
+     */
+    saveActive(config: StoredSafeConfig): void {
+        this.getActive().config = config;
+        this.write();
+    }
+
+    renameActive(name: string): void {
+        this.getActive().name = name;
+        this.write();
+    }
+
+    /**
+     * Delete a profile. The last remaining profile is cleared instead of removed
+     */
+    remove(id: string): SafeProfile {
+        if (this.state.profiles.length === 1) {
+            this.state.profiles[0].config = null;
+        } else {
+            this.state.profiles = this.state.profiles.filter(profile => profile.id !== id);
+        }
+
+        if (!this.state.profiles.some(profile => profile.id === this.state.activeProfileId)) {
+            this.state.activeProfileId = this.state.profiles[0].id;
+        }
+        this.write();
+        return this.getActive();
+    }
+}
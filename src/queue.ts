@@ -0,0 +1,78 @@
+/**
+ * Nonce-aware transaction queue
+ * Groups pending proposals by nonce, flags conflicting proposals and builds rejections
+ */
+
+import { PendingTransaction } from './types';
+import { MultiSendCall } from './multiSend';
+
+export interface NonceGroup {
+    nonce: number;
+    transactions: PendingTransaction[];
+    /** Several proposals share the nonce, so at most one of them can execute */
+    hasConflict: boolean;
+    /** The nonce is the Safe's current nonce, so its transactions can execute now */
+    isNext: boolean;
+    /** The nonce was already used on-chain, so its transactions can never execute */
+    isStale: boolean;
+}
+
+/**
+ * Group transactions by nonce, lowest nonce first. Proposals within a group keep submission order
+ */
+export function groupByNonce(transactions: PendingTransaction[], safeNonce: number): NonceGroup[] {
+    const groups = new Map<number, PendingTransaction[]>();
+
+    for (const transaction of transactions) {
+        const nonce = Number(transaction.nonce);
+        groups.set(nonce, [...(groups.get(nonce) || []), transaction]);
+    }
+
+    return Array.from(groups.entries())
+        .sort(([a], [b]) => a - b)
+        .map(([nonce, items]) => ({
+            nonce,
+            transactions: items.sort((a, b) => (a.submissionDate || '').localeCompare(b.submissionDate || '')),
+            hasConflict: items.length > 1,
+            isNext: nonce === safeNonce,
+            isStale: nonce < safeNonce
+        }));
+}
+
+/**
+ * Reason a transaction cannot be executed now because of its nonce, or null
+ */
+export function getExecutionBlocker(transaction: Pick<PendingTransaction, 'nonce'>, safeNonce: number): string | null {
+    const nonce = Number(transaction.nonce);
+    if (nonce < safeNonce) {
+        return `Nonce ${nonce} was already used (the Safe is at nonce ${safeNonce}); this transaction can never execute`;
+    }
+    if (nonce > safeNonce) {
+        return `Nonce ${safeNonce}${nonce - safeNonce > 1 ? ` to ${nonce - 1}` : ''} must be executed first`;
+    }
+    return null;
+}
+
+/**
+ * Reason a transaction should not be confirmed because it can never execute, or null
+ */
+export function getConfirmationBlocker(transaction: Pick<PendingTransaction, 'nonce'>, safeNonce: number): string | null {
+    return Number(transaction.nonce) < safeNonce ? getExecutionBlocker(transaction, safeNonce) : null;
+}
+
+/**
+ * True for an empty call from the Safe to itself, the conventional rejection transaction
+ */
+export function isRejection(transaction: Pick<PendingTransaction, 'to' | 'value' | 'data' | 'operation'>, safeAddress: string): boolean {
+    return transaction.to.toLowerCase() === safeAddress.toLowerCase()
+        && BigInt(transaction.value || 0) === 0n
+        && (!transaction.data || transaction.data === '0x')
+        && (transaction.operation || 0) === 0;
+}
+
+/**
+ * Empty self-call which, executed at a proposal's nonce, cancels that proposal
+ */
+export function buildRejectionCall(safeAddress: string): MultiSendCall {
+    return { to: safeAddress, value: '0', data: '0x', operation: 0 };
+}
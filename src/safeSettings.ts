@@ -0,0 +1,138 @@
+/**
+ * Module, guard and fallback handler management
+ * Validates Safe setting changes and builds them with the Protocol Kit
+ */
+
+import Safe from '@safe-global/protocol-kit';
+import { isAddress } from 'viem';
+import { SafeInfo } from './types';
+import { ZERO_ADDRESS, compareVersions } from './safeTxHash';
+import { MultiSendCall } from './multiSend';
+
+const SENTINEL_MODULES = '0x0000000000000000000000000000000000000001';
+
+export type SettingAction = 'enableModule' | 'disableModule' | 'setGuard' | 'setFallbackHandler';
+
+export interface SettingChange {
+    action: SettingAction;
+    /** Module, guard or handler address. An empty guard or handler removes it */
+    address: string;
+}
+
+/**
+ * Risks shown before a setting change is proposed
+ */
+export const SETTING_WARNINGS: Record<SettingAction, string> = {
+    enableModule: 'An enabled module can execute any transaction from the Safe without owner signatures, bypassing the multisig entirely. Only enable audited modules you fully trust.',
+    disableModule: 'Disabling a module stops anything that depends on it, such as recovery or spending allowances.',
+    setGuard: 'A guard checks every Safe transaction. A faulty or malicious guard can block all transactions, including the one needed to remove it, and lock the Safe permanently.',
+    setFallbackHandler: 'The fallback handler receives every call the Safe does not implement, including EIP-1271 signature checks. A malicious handler can approve signatures on behalf of the Safe, bypassing the multisig entirely.'
+};
+
+/**
+ * True when the address is unset (empty or the zero address)
+ */
+export function isUnset(address: string | undefined): boolean {
+    return !address || address.toLowerCase() === ZERO_ADDRESS;
+}
+
+function sameAddress(a: string, b: string): boolean {
+    return a.toLowerCase() === b.toLowerCase();
+}
+
+/**
+ * Check a setting change against the Safe's current modules, guard, handler and version
+ */
+export function validateSettingChange(
+    safeInfo: Pick<SafeInfo, 'modules' | 'guard' | 'fallbackHandler' | 'version'>,
+    change: SettingChange
+): void {
+    const address = change.address.trim();
+
+    if (address && !isAddress(address)) {
+        throw new Error(`Invalid address: ${address}`);
+    }
+
+    switch (change.action) {
+        case 'enableModule':
+            if (isUnset(address) || sameAddress(address, SENTINEL_MODULES)) {
+                throw new Error('Module address is required');
+            }
+            if (safeInfo.modules.some(module => sameAddress(module, address))) {
+                throw new Error(`Module ${address} is already enabled`);
+            }
+            break;
+        case 'disableModule':
+            if (!safeInfo.modules.some(module => sameAddress(module, address))) {
+                throw new Error(`Module ${address || '(empty)'} is not enabled`);
+            }
+            break;
+        case 'setGuard':
+            if (safeInfo.version && compareVersions(safeInfo.version, '1.3.0') < 0) {
+                throw new Error(`Guards require Safe 1.3.0 or later (this Safe is ${safeInfo.version})`);
+            }
+            if (isUnset(address) ? isUnset(safeInfo.guard) : sameAddress(address, safeInfo.guard || '')) {
+                throw new Error(isUnset(address) ? 'No guard is set' : `Guard is already ${address}`);
+            }
+            break;
+        case 'setFallbackHandler':
+            if (safeInfo.version && compareVersions(safeInfo.version, '1.1.0') < 0) {
+                throw new Error(`Fallback handlers require Safe 1.1.0 or later (this Safe is ${safeInfo.version})`);
+            }
+            if (isUnset(address) ? isUnset(safeInfo.fallbackHandler) : sameAddress(address, safeInfo.fallbackHandler || '')) {
+                throw new Error(isUnset(address) ? 'No fallback handler is set' : `Fallback handler is already ${address}`);
+            }
+            break;
+        default:
+            throw new Error(`Unsupported setting action: ${(change as SettingChange).action}`);
+    }
+}
+
+/**
+ * Build the Safe call for a validated setting change using the Protocol Kit transaction builders
+ */
+export async function buildSettingChangeCall(protocolKit: Safe, change: SettingChange): Promise<MultiSendCall> {
+    const address = change.address.trim();
+    let safeTransaction;
+
+    switch (change.action) {
+        case 'enableModule':
+            safeTransaction = await protocolKit.createEnableModuleTx(address);
+            break;
+        case 'disableModule':
+            safeTransaction = await protocolKit.createDisableModuleTx(address);
+            break;
+        case 'setGuard':
+            safeTransaction = isUnset(address)
+                ? await protocolKit.createDisableGuardTx()
+                : await protocolKit.createEnableGuardTx(address);
+            break;
+        case 'setFallbackHandler':
+            safeTransaction = isUnset(address)
+                ? await protocolKit.createDisableFallbackHandlerTx()
+                : await protocolKit.createEnableFallbackHandlerTx(address);
+            break;
+        default:
+            throw new Error(`Unsupported setting action: ${(change as SettingChange).action}`);
+    }
+
+    const { to, value, data, operation } = safeTransaction.data;
+    return { to, value, data, operation };
+}
+
+/**
+ * Short description of a setting change for toasts
+ */
+export function describeSettingChange(change: SettingChange): string {
+    const address = change.address.trim();
+    switch (change.action) {
+        case 'enableModule':
+            return `Enable module ${address}`;
+        case 'disableModule':
+            return `Disable module ${address}`;
+        case 'setGuard':
+            return isUnset(address) ? 'Remove guard' : `Set guard to ${address}`;
+        case 'setFallbackHandler':
+            return isUnset(address) ? 'Remove fallback handler' : `Set fallback handler to ${address}`;
+    }
+}
@@ -0,0 +1,141 @@
+/**
+ * EIP-712 SafeTx hashing
+ * Builds the typed data a Safe contract signs over and computes the safeTxHash
+ */
+
+import { hashTypedData, getAddress, TypedDataDefinition } from 'viem';
+
+export const ZERO_ADDRESS = '0x0000000000000000000000000000000000000000';
+
+/**
+ * All fields of a Safe multi-signature transaction, as stored by the Transaction Service
+ */
+export interface SafeTxData {
+    to: string;
+    value: string;
+    data: string;
+    operation: number;
+    safeTxGas: string | number;
+    baseGas: string | number;
+    gasPrice: string;
+    gasToken: string;
+    refundReceiver: string;
+    nonce: number;
+}
+
+/**
+ * SafeTx struct definition since Safe 1.0.0
+ */
+export const SAFE_TX_TYPES = {
+    SafeTx: [
+        { name: 'to', type: 'address' },
+        { name: 'value', type: 'uint256' },
+        { name: 'data', type: 'bytes' },
+        { name: 'operation', type: 'uint8' },
+        { name: 'safeTxGas', type: 'uint256' },
+        { name: 'baseGas', type: 'uint256' },
+        { name: 'gasPrice', type: 'uint256' },
+        { name: 'gasToken', type: 'address' },
+        { name: 'refundReceiver', type: 'address' },
+        { name: 'nonce', type: 'uint256' }
+    ]
+} as const;
+
+/**
+ * SafeTx struct definition before 1.0.0, which named `baseGas` as `dataGas`
+ */
+export const LEGACY_SAFE_TX_TYPES = {
+    SafeTx: [
+        { name: 'to', type: 'address' },
+        { name: 'value', type: 'uint256' },
+        { name: 'data', type: 'bytes' },
+        { name: 'operation', type: 'uint8' },
+        { name: 'safeTxGas', type: 'uint256' },
+        { name: 'dataGas', type: 'uint256' },
+        { name: 'gasPrice', type: 'uint256' },
+        { name: 'gasToken', type: 'address' },
+        { name: 'refundReceiver', type: 'address' },
+        { name: 'nonce', type: 'uint256' }
+    ]
+} as const;
+
+/**
+ * EIP-712 payload for a SafeTx, ready for hashing or signTypedData
+ */
+export type SafeTxTypedData = TypedDataDefinition<typeof SAFE_TX_TYPES, 'SafeTx'> | LegacySafeTxTypedData;
+
+type LegacySafeTxTypedData = TypedDataDefinition<typeof LEGACY_SAFE_TX_TYPES, 'SafeTx'>;
+
+function isLegacySafeTx(typedData: SafeTxTypedData): typedData is LegacySafeTxTypedData {
+    return typedData.types === LEGACY_SAFE_TX_TYPES;
+}
+
+/**
+ * Compare two semver-like version strings ("1.3.0", "1.4.1+L2")
+ */
+export function compareVersions(a: string, b: string): number {
+    const parse = (version: string) => version.split('+')[0].split('.').map(part => parseInt(part, 10) || 0);
+    const left = parse(a);
+    const right = parse(b);
+
+    for (let i = 0; i < Math.max(left.length, right.length); i++) {
+        const diff = (left[i] || 0) - (right[i] || 0);
+        if (diff !== 0) {
+            return diff;
+        }
+    }
+    return 0;
+}
+
+/**
+ * Build the EIP-712 domain. Safes before 1.3.0 do not include the chain ID
+ */
+export function buildSafeTxDomain(chainId: number, safeAddress: string, safeVersion: string): { chainId?: number; verifyingContract: `0x${string}` } {
+    const verifyingContract = getAddress(safeAddress);
+
+    if (compareVersions(safeVersion, '1.3.0') >= 0) {
+        return { chainId, verifyingContract };
+    }
+    return { verifyingContract };
+}
+
+/**
+ * Build the full EIP-712 typed data for a SafeTx
+ */
+export function buildSafeTxTypedData(
+    chainId: number,
+    safeAddress: string,
+    safeVersion: string,
+    tx: SafeTxData
+): SafeTxTypedData {
+    const domain = buildSafeTxDomain(chainId, safeAddress, safeVersion);
+    const fields = {
+        to: getAddress(tx.to),
+        value: BigInt(tx.value || 0),
+        data: (tx.data && tx.data !== '' ? tx.data : '0x') as `0x${string}`,
+        operation: tx.operation || 0,
+        safeTxGas: BigInt(tx.safeTxGas || 0),
+        gasPrice: BigInt(tx.gasPrice || 0),
+        gasToken: getAddress(tx.gasToken || ZERO_ADDRESS),
+        refundReceiver: getAddress(tx.refundReceiver || ZERO_ADDRESS),
+        nonce: BigInt(tx.nonce)
+    };
+
+    if (compareVersions(safeVersion, '1.0.0') >= 0) {
+        return { domain, types: SAFE_TX_TYPES, primaryType: 'SafeTx', message: { ...fields, baseGas: BigInt(tx.baseGas || 0) } };
+    }
+    return { domain, types: LEGACY_SAFE_TX_TYPES, primaryType: 'SafeTx', message: { ...fields, dataGas: BigInt(tx.baseGas || 0) } };
+}
+
+/**
+ * Calculate the safeTxHash exactly as `Safe.getTransactionHash` does on-chain
+ */
+export function calculateSafeTxHash(
+    chainId: number,
+    safeAddress: string,
+    safeVersion: string,
+    tx: SafeTxData
+): `0x${string}` {
+    const typedData = buildSafeTxTypedData(chainId, safeAddress, safeVersion, tx);
+    return isLegacySafeTx(typedData) ? hashTypedData(typedData) : hashTypedData(typedData);
+}
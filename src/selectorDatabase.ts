@@ -0,0 +1,62 @@
+/**
+ * Offline function-selector database
+ * Common function signatures used to decode calldata when neither the service nor a saved ABI can
+ */
+
+export const KNOWN_SIGNATURES: string[] = [
+    // ERC-20
+    'function transfer(address to, uint256 amount)',
+    'function transferFrom(address from, address to, uint256 amount)',
+    'function approve(address spender, uint256 amount)',
+    'function increaseAllowance(address spender, uint256 addedValue)',
+    'function decreaseAllowance(address spender, uint256 subtractedValue)',
+    'function permit(address owner, address spender, uint256 value, uint256 deadline, uint8 v, bytes32 r, bytes32 s)',
+    'function mint(address to, uint256 amount)',
+    'function burn(uint256 amount)',
+    'function burnFrom(address account, uint256 amount)',
+
+    // Wrapped native token
+    'function deposit()',
+    'function withdraw(uint256 amount)',
+
+    // ERC-721
+    'function safeTransferFrom(address from, address to, uint256 tokenId)',
+    'function safeTransferFrom(address from, address to, uint256 tokenId, bytes data)',
+    'function setApprovalForAll(address operator, bool approved)',
+
+    // ERC-1155
+    'function safeTransferFrom(address from, address to, uint256 id, uint256 amount, bytes data)',
+    'function safeBatchTransferFrom(address from, address to, uint256[] ids, uint256[] amounts, bytes data)',
+
+    // Ownable / AccessControl
+    'function transferOwnership(address newOwner)',
+    'function renounceOwnership()',
+    'function grantRole(bytes32 role, address account)',
+    'function revokeRole(bytes32 role, address account)',
+    'function renounceRole(bytes32 role, address account)',
+
+    // Pausable / proxies
+    'function pause()',
+    'function unpause()',
+    'function upgradeTo(address newImplementation)',
+    'function upgradeToAndCall(address newImplementation, bytes data)',
+
+    // Safe
+    'function addOwnerWithThreshold(address owner, uint256 _threshold)',
+    'function removeOwner(address prevOwner, address owner, uint256 _threshold)',
+    'function swapOwner(address prevOwner, address oldOwner, address newOwner)',
+    'function changeThreshold(uint256 _threshold)',
+    'function enableModule(address module)',
+    'function disableModule(address prevModule, address module)',
+    'function setGuard(address guard)',
+    'function setFallbackHandler(address handler)',
+    'function approveHash(bytes32 hashToApprove)',
+    'function execTransaction(address to, uint256 value, bytes data, uint8 operation, uint256 safeTxGas, uint256 baseGas, uint256 gasPrice, address gasToken, address refundReceiver, bytes signatures)',
+    'function signMessage(bytes _data)',
+    'function multiSend(bytes transactions)',
+
+    // Multicall
+    'function multicall(bytes[] data)',
+    'function aggregate((address target, bytes callData)[] calls)',
+    'function aggregate3((address target, bool allowFailure, bytes callData)[] calls)'
+];
@@ -0,0 +1,423 @@
+/**
+ * Signer abstraction
+ * One interface for every way an owner can sign: raw key, browser wallet, keystore file or remote signer
+ */
+
+import { Eip1193Provider } from '@safe-global/protocol-kit';
+import {
+    createWalletClient,
+    custom,
+    http,
+    toHex,
+    hexToBigInt,
+    Account,
+    SignableMessage,
+    TypedDataDefinition,
+    WalletClient
+} from 'viem';
+import { privateKeyToAccount, toAccount } from 'viem/accounts';
+import { decryptKeystore } from './keystore';
+
+export type SignerType = 'privateKey' | 'injected' | 'keystore' | 'remote';
+
+/**
+ * Persisted signer settings. Secrets (keystore password) are never part of it
+ */
+export type SignerConfig =
+    | { type: 'privateKey'; privateKey: string }
+    | { type: 'injected' }
+    | { type: 'keystore'; keystore: string }
+    | { type: 'remote'; url: string; address?: string };
+
+/**
+ * Plain transaction sent by a signer (Safe execution, Safe deployment)
+ */
+export interface SignerTransaction {
+    to: string;
+    data: string;
+    value?: bigint;
+}
+
+/**
+ * Provider and signer arguments understood by the Safe SDK kits
+ */
+export interface SafeSdkCredentials {
+    provider: Eip1193Provider | string;
+    signer: string;
+}
+
+/**
+ * EIP-712 payload accepted by signers, e.g. a SafeTx, a SafeMessage or a service request
+ */
+export type TypedDataPayload = TypedDataDefinition;
+
+export interface Signer {
+    readonly type: SignerType;
+
+    /** Address of the owner this signer controls */
+    getAddress(): Promise<`0x${string}`>;
+
+    /** Sign EIP-712 typed data (e.g. a SafeTx) and return a 65-byte ECDSA signature */
+    signTypedData(typedData: TypedDataPayload): Promise<`0x${string}`>;
+
+    /** Sign a message with the EIP-191 prefix, as `personal_sign` does */
+    signMessage(message: SignableMessage): Promise<`0x${string}`>;
+
+    /** Send a transaction from the signer account and return its hash */
+    sendTransaction(transaction: SignerTransaction): Promise<`0x${string}`>;
+
+    /** Arguments for createSafeClient / Safe.init */
+    getSafeSdkCredentials(): Promise<SafeSdkCredentials>;
+}
+
+export interface SignerOptions {
+    rpcUrl: string;
+    injectedProvider?: Eip1193Provider;
+    keystorePassword?: string;
+}
+
+interface WalletContext {
+    client: WalletClient;
+    account: Account | `0x${string}`;
+}
+
+/**
+ * Signer backed by a viem account and a wallet client
+ */
+abstract class WalletClientSigner implements Signer {
+    abstract readonly type: SignerType;
+    protected abstract getWalletClient(): Promise<WalletContext>;
+
+    async getAddress(): Promise<`0x${string}`> {
+        const { account } = await this.getWalletClient();
+        return typeof account === 'string' ? account : account.address;
+    }
+
+    async signTypedData(typedData: TypedDataPayload): Promise<`0x${string}`> {
+        const { client, account } = await this.getWalletClient();
+        return await client.signTypedData({ account, ...typedData });
+    }
+
+    async signMessage(message: SignableMessage): Promise<`0x${string}`> {
+        const { client, account } = await this.getWalletClient();
+        return await client.signMessage({ account, message });
+    }
+
+    async sendTransaction(transaction: SignerTransaction): Promise<`0x${string}`> {
+        const { client, account } = await this.getWalletClient();
+        return await client.sendTransaction({
+            account,
+            chain: null,
+            to: transaction.to as `0x${string}`,
+            data: transaction.data as `0x${string}`,
+            value: transaction.value ?? 0n
+        });
+    }
+
+    abstract getSafeSdkCredentials(): Promise<SafeSdkCredentials>;
+}
+
+/**
+ * Raw hex private key held in memory
+ */
+export class PrivateKeySigner extends WalletClientSigner {
+    readonly type: SignerType = 'privateKey';
+    private readonly privateKey: `0x${string}`;
+    private readonly client: WalletClient;
+    private readonly account: Account;
+
+    constructor(privateKey: string, private readonly rpcUrl: string) {
+        super();
+        this.privateKey = (privateKey.startsWith('0x') ? privateKey : `0x${privateKey}`) as `0x${string}`;
+        this.account = privateKeyToAccount(this.privateKey);
+        this.client = createWalletClient({ account: this.account, transport: http(rpcUrl) });
+    }
+
+    protected async getWalletClient(): Promise<WalletContext> {
+        return { client: this.client, account: this.account };
+    }
+
+    async getSafeSdkCredentials(): Promise<SafeSdkCredentials> {
+        return { provider: this.rpcUrl, signer: this.privateKey };
+    }
+}
+
+/**
+ * Browser wallet exposed as an EIP-1193 provider (MetaMask, Rabby, Frame...)
+ */
+export class InjectedSigner extends WalletClientSigner {
+    readonly type: SignerType = 'injected';
+    private address: `0x${string}` | null = null;
+    private readonly client: WalletClient;
+
+    constructor(private readonly provider: Eip1193Provider) {
+        super();
+        this.client = createWalletClient({ transport: custom(provider) });
+    }
+
+    protected async getWalletClient(): Promise<WalletContext> {
+        if (!this.address) {
+            const [address] = await this.client.requestAddresses();
+            if (!address) {
+                throw new Error('Browser wallet returned no accounts');
+            }
+            this.address = address;
+        }
+        return { client: this.client, account: this.address };
+    }
+
+    async getSafeSdkCredentials(): Promise<SafeSdkCredentials> {
+        return { provider: this.provider, signer: await this.getAddress() };
+    }
+}
+
+/**
+ * Encrypted JSON keystore, decrypted lazily on first use
+ */
+export class KeystoreSigner implements Signer {
+    readonly type: SignerType = 'keystore';
+    private inner: PrivateKeySigner | null = null;
+
+    constructor(
+        private readonly keystore: string,
+        private readonly password: string,
+        private readonly rpcUrl: string
+    ) {}
+
+    private async unlock(): Promise<PrivateKeySigner> {
+        if (!this.inner) {
+            const privateKey = await decryptKeystore(this.keystore, this.password);
+            this.inner = new PrivateKeySigner(privateKey, this.rpcUrl);
+        }
+        return this.inner;
+    }
+
+    async getAddress(): Promise<`0x${string}`> {
+        return await (await this.unlock()).getAddress();
+    }
+
+    async signTypedData(typedData: TypedDataPayload): Promise<`0x${string}`> {
+        return await (await this.unlock()).signTypedData(typedData);
+    }
+
+    async signMessage(message: SignableMessage): Promise<`0x${string}`> {
+        return await (await this.unlock()).signMessage(message);
+    }
+
+    async sendTransaction(transaction: SignerTransaction): Promise<`0x${string}`> {
+        return await (await this.unlock()).sendTransaction(transaction);
+    }
+
+    async getSafeSdkCredentials(): Promise<SafeSdkCredentials> {
+        return await (await this.unlock()).getSafeSdkCredentials();
+    }
+}
+
+/**
+ * Remote signing service speaking a JSON-RPC subset over HTTP:
+ * `eth_accounts`, `personal_sign`, `eth_signTypedData_v4` and `eth_signTransaction`.
+ * Keys never leave the remote process; transactions are broadcast through the configured RPC.
+ */
+export class RemoteSigner extends WalletClientSigner {
+    readonly type: SignerType = 'remote';
+    private account: Account | null = null;
+    private requestId = 0;
+
+    constructor(
+        private readonly url: string,
+        private readonly rpcUrl: string,
+        private readonly preferredAddress?: string
+    ) {
+        super();
+    }
+
+    /**
+     * Call a method on the remote signer
+     */
+    async request<T>(method: string, params: unknown[] = []): Promise<T> {
+        const response = await fetch(this.url, {
+            method: 'POST',
+            headers: {
+                'Content-Type': 'application/json',
+            },
+            body: JSON.stringify({ jsonrpc: '2.0', id: ++this.requestId, method, params }, jsonReplacer)
+        });
+
+        if (!response.ok) {
+            throw new Error(`Remote signer request failed: ${response.status} ${response.statusText}`);
+        }
+
+        const data = await response.json();
+        if (data.error) {
+            throw new Error(`Remote signer error: ${data.error.message}`);
+        }
+        return data.result as T;
+    }
+
+    private async getAccount(): Promise<Account> {
+        if (this.account) {
+            return this.account;
+        }
+
+        const accounts = await this.request<string[]>('eth_accounts');
+        const address = this.preferredAddress
+            ? accounts.find(account => account.toLowerCase() === this.preferredAddress!.toLowerCase())
+            : accounts[0];
+        if (!address) {
+            throw new Error(this.preferredAddress
+                ? `Remote signer does not manage ${this.preferredAddress}`
+                : 'Remote signer returned no accounts');
+        }
+
+        this.account = toAccount({
+            address: address as `0x${string}`,
+            signMessage: async ({ message }) => {
+                const payload = typeof message === 'string' ? toHex(message) : (typeof message.raw === 'string' ? message.raw : toHex(message.raw));
+                return await this.request<`0x${string}`>('personal_sign', [payload, address]);
+            },
+            signTypedData: async (typedData) => {
+                return await this.request<`0x${string}`>('eth_signTypedData_v4', [address, JSON.stringify(typedData, jsonReplacer)]);
+            },
+            signTransaction: async (transaction) => {
+                return await this.request<`0x${string}`>('eth_signTransaction', [toRpcTransaction(address, transaction)]);
+            }
+        });
+        return this.account;
+    }
+
+    protected async getWalletClient(): Promise<WalletContext> {
+        const account = await this.getAccount();
+        return { client: createWalletClient({ account, transport: http(this.rpcUrl) }), account };
+    }
+
+    async getSafeSdkCredentials(): Promise<SafeSdkCredentials> {
+        return { provider: createSignerProvider(this, this.rpcUrl), signer: await this.getAddress() };
+    }
+}
+
+/**
+ * Serialize bigints as decimal strings for JSON payloads
+ */
+function jsonReplacer(_key: string, value: unknown): unknown {
+    return typeof value === 'bigint' ? value.toString() : value;
+}
+
+/**
+ * Convert a viem serializable transaction into JSON-RPC hex quantities
+ */
+function toRpcTransaction(from: string, transaction: Record<string, any>): Record<string, unknown> {
+    const quantity = (value: unknown) => value === undefined || value === null ? undefined : toHex(value as bigint | number);
+
+    return {
+        from,
+        type: transaction.type,
+        chainId: quantity(transaction.chainId),
+        nonce: quantity(transaction.nonce),
+        to: transaction.to,
+        data: transaction.data,
+        value: quantity(transaction.value),
+        gas: quantity(transaction.gas),
+        gasPrice: quantity(transaction.gasPrice),
+        maxFeePerGas: quantity(transaction.maxFeePerGas),
+        maxPriorityFeePerGas: quantity(transaction.maxPriorityFeePerGas)
+    };
+}
+
+/**
+ * Wrap a signer into an EIP-1193 provider: account and signing methods go to the signer,
+ * everything else is forwarded to the JSON-RPC node
+ */
+export function createSignerProvider(signer: Signer, rpcUrl: string): Eip1193Provider {
+    let requestId = 0;
+
+    return {
+        request: async ({ method, params }) => {
+            const args: readonly unknown[] = Array.isArray(params) ? params : [];
+
+            switch (method) {
+                case 'eth_accounts':
+                case 'eth_requestAccounts':
+                    return [await signer.getAddress()];
+                case 'eth_signTypedData_v4': {
+                    // [address, typed data as JSON]
+                    const [, typedData] = args as [string, string];
+                    return await signer.signTypedData(JSON.parse(typedData));
+                }
+                case 'personal_sign': {
+                    // [message, address]
+                    const [message] = args as [`0x${string}`, string];
+                    return await signer.signMessage({ raw: message });
+                }
+                case 'eth_sign': {
+                    // [address, message]
+                    const [, message] = args as [string, `0x${string}`];
+                    return await signer.signMessage({ raw: message });
+                }
+                case 'eth_sendTransaction': {
+                    const [transaction] = args as [{ to: string; data?: string; value?: `0x${string}` }];
+                    return await signer.sendTransaction({
+                        to: transaction.to,
+                        data: transaction.data || '0x',
+                        value: transaction.value ? hexToBigInt(transaction.value) : 0n
+                    });
+                }
+            }
+
+            const response = await fetch(rpcUrl, {
+                method: 'POST',
+                headers: {
+                    'Content-Type': 'application/json',
+                },
+                body: JSON.stringify({ jsonrpc: '2.0', id: ++requestId, method, params: args })
+            });
+            const data = await response.json();
+            if (data.error) {
+                throw new Error(`RPC error: ${data.error.message}`);
+            }
+            return data.result;
+        }
+    };
+}
+
+/**
+ * Build a signer from its persisted settings
+ */
+export function createSigner(config: SignerConfig, options: SignerOptions): Signer {
+    switch (config.type) {
+        case 'privateKey':
+            return new PrivateKeySigner(config.privateKey, options.rpcUrl);
+        case 'injected':
+            if (!options.injectedProvider) {
+                throw new Error('No browser wallet detected');
+            }
+            return new InjectedSigner(options.injectedProvider);
+        case 'keystore':
+            if (!options.keystorePassword) {
+                throw new Error('Keystore password is required');
+            }
+            return new KeystoreSigner(config.keystore, options.keystorePassword, options.rpcUrl);
+        case 'remote':
+            return new RemoteSigner(config.url, options.rpcUrl, config.address);
+    }
+}
+
+/**
+ * Validate signer settings, returning an error message or null
+ */
+export function validateSignerConfig(config: SignerConfig): string | null {
+    switch (config.type) {
+        case 'privateKey':
+            return /^0x[a-fA-F0-9]{64}$/.test(config.privateKey) ? null : 'Invalid private key format';
+        case 'injected':
+            return null;
+        case 'keystore':
+            try {
+                JSON.parse(config.keystore);
+                return null;
+            } catch {
+                return 'Invalid keystore JSON';
+            }
+        case 'remote':
+            return /^https?:\/\//.test(config.url) ? null : 'Invalid remote signer URL';
+    }
+}
@@ -0,0 +1,271 @@
+/**
+ * Pre-execution simulation
+ * Runs `execTransaction` through `eth_call` on plain JSON-RPC, overriding the threshold when
+ * signatures are still missing and the nonce for queued transactions, and decodes the revert reason
+ */
+
+import { decodeErrorResult, decodeFunctionResult, pad, toHex } from 'viem';
+import { PendingTransaction, SafeConfirmation } from './types';
+import { SAFE_EXECUTION_ABI, buildPreValidatedSignature, encodeExecTransaction, packSignatures } from './execution';
+
+/** Storage slot of `threshold` in every Safe singleton since 1.0.0 */
+const THRESHOLD_STORAGE_SLOT = pad('0x04', { size: 32 });
+
+/** Storage slot of `nonce`, which `execTransaction` hashes the SafeTx with */
+const NONCE_STORAGE_SLOT = pad('0x05', { size: 32 });
+
+/**
+ * Descriptions of the Safe contracts' GSxxx error codes
+ */
+const SAFE_ERROR_CODES: Record<string, string> = {
+    GS000: 'Could not finish initialization',
+    GS001: 'Threshold needs to be defined',
+    GS010: 'Not enough gas to execute Safe transaction',
+    GS011: 'Could not pay gas costs with ether',
+    GS012: 'Could not pay gas costs with token',
+    GS013: 'Safe transaction failed when gasPrice and safeTxGas were 0',
+    GS020: 'Signatures data too short',
+    GS021: 'Invalid contract signature location: inside static part',
+    GS022: 'Invalid contract signature location: length not present',
+    GS023: 'Invalid contract signature location: data not complete',
+    GS024: 'Invalid contract signature provided',
+    GS025: 'Hash has not been approved',
+    GS026: 'Invalid owner provided',
+    GS030: 'Only owners can approve a hash',
+    GS031: 'Method can only be called from this contract',
+    GS104: 'Method can only be called from an enabled module',
+    GS300: 'Guard does not implement IERC165'
+};
+
+export interface SimulationResult {
+    success: boolean;
+    /** Decoded revert reason, null on success */
+    revertReason: string | null;
+    /** Gas estimate for the `execTransaction` call (or the inner call), null when it could not be estimated */
+    gasEstimate: bigint | null;
+    /** True when the threshold was overridden because signatures are missing */
+    thresholdOverridden: boolean;
+    /**
+     * `execTransaction` when the full Safe call was simulated; `innerCall` when the node rejected
+     * state overrides and only the target call was simulated from the Safe
+     */
+    mode: 'execTransaction' | 'innerCall';
+}
+
+export interface SimulationParams {
+    rpcUrl: string;
+    safeAddress: string;
+    transaction: PendingTransaction;
+    owners: string[];
+    threshold: number;
+    /** The Safe's current nonce; later transactions are simulated as if they were next */
+    nonce: number;
+    /** Account that would submit the transaction */
+    executor: string;
+}
+
+interface RpcError {
+    code: number;
+    message: string;
+    data?: unknown;
+}
+
+interface RpcResponse {
+    result?: string;
+    error?: RpcError;
+}
+
+async function rpcRequest(rpcUrl: string, method: string, params: unknown[]): Promise<RpcResponse> {
+    const response = await fetch(rpcUrl, {
+        method: 'POST',
+        headers: {
+            'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+            jsonrpc: '2.0',
+            method,
+            params,
+            id: 1
+        })
+    });
+
+    if (!response.ok) {
+        throw new Error(`RPC request failed: ${response.statusText}`);
+    }
+    return await response.json();
+}
+
+/**
+ * Extract revert data from an RPC error. Nodes nest it differently (Geth: `data`,
+ * Hardhat: `data` or `data.data`)
+ */
+function getRevertData(error: RpcError): `0x${string}` | null {
+    const data = typeof error.data === 'object' && error.data !== null && 'data' in error.data ? error.data.data : error.data;
+    return typeof data === 'string' && data.startsWith('0x') ? data as `0x${string}` : null;
+}
+
+function isRevert(error: RpcError): boolean {
+    return getRevertData(error) !== null || /revert/i.test(error.message);
+}
+
+/**
+ * Turn revert data (or the node's message) into a readable reason, expanding Safe error codes
+ */
+export function decodeRevertReason(error: RpcError): string {
+    const data = getRevertData(error);
+    let reason = error.message;
+
+    if (data && data !== '0x') {
+        try {
+            const decoded = decodeErrorResult({ abi: [], data });
+            reason = decoded.errorName === 'Panic'
+                ? `Panic(${decoded.args?.[0]})`
+                : String(decoded.args?.[0] ?? decoded.errorName);
+        } catch {
+            reason = `Custom error ${data.slice(0, 10)}`;
+        }
+    } else {
+        reason = reason.replace(/^.*reverted( with reason string)?:?\s*/i, '').replace(/^'(.*)'$/, '$1') || 'Execution reverted';
+    }
+
+    const code = reason.match(/GS\d{3}/)?.[0];
+    return code && SAFE_ERROR_CODES[code] ? `${code}: ${SAFE_ERROR_CODES[code]}` : reason;
+}
+
+/**
+ * Signatures to simulate with: the real confirmations when they reach the threshold, otherwise
+ * a pre-validated signature of one owner combined with a threshold override of 1
+ */
+function prepareSignatures(params: SimulationParams): { from: string; signatures: `0x${string}`; overrideThreshold: boolean } {
+    const { transaction, owners, threshold, executor } = params;
+    const isOwner = (address: string) => owners.some(owner => owner.toLowerCase() === address.toLowerCase());
+    const confirmations: SafeConfirmation[] = [...(transaction.confirmations || [])];
+
+    if (isOwner(executor) && !confirmations.some(conf => conf.owner.toLowerCase() === executor.toLowerCase())) {
+        confirmations.push({
+            owner: executor,
+            submissionDate: new Date().toISOString(),
+            transactionHash: null,
+            signature: buildPreValidatedSignature(executor),
+            signatureType: 'APPROVED_HASH'
+        });
+    }
+
+    if (confirmations.length >= threshold) {
+        return { from: executor, signatures: packSignatures(confirmations), overrideThreshold: false };
+    }
+
+    const owner = isOwner(executor) ? executor : owners[0];
+    if (!owner) {
+        throw new Error('Safe has no owners to simulate with');
+    }
+    return { from: owner, signatures: buildPreValidatedSignature(owner), overrideThreshold: true };
+}
+
+async function estimateGas(rpcUrl: string, call: Record<string, string>, stateOverride?: unknown): Promise<bigint | null> {
+    try {
+        const params: unknown[] = stateOverride ? [call, 'latest', stateOverride] : [call];
+        const response = await rpcRequest(rpcUrl, 'eth_estimateGas', params);
+        return response.result ? BigInt(response.result) : null;
+    } catch {
+        return null;
+    }
+}
+
+/**
+ * Simulate the target call alone, sent from the Safe. Used for the inner revert reason and for
+ * nodes without state override support
+ */
+async function simulateInnerCall(params: SimulationParams): Promise<{ success: boolean; revertReason: string | null; gasEstimate: bigint | null }> {
+    const { rpcUrl, safeAddress, transaction } = params;
+
+    // A DelegateCall runs the target's code on the Safe's storage, which eth_call cannot reproduce
+    if (transaction.operation === 1) {
+        return { success: false, revertReason: null, gasEstimate: null };
+    }
+
+    const call = {
+        from: safeAddress,
+        to: transaction.to,
+        value: toHex(BigInt(transaction.value || 0)),
+        data: transaction.data || '0x'
+    };
+
+    const response = await rpcRequest(rpcUrl, 'eth_call', [call, 'latest']);
+    if (response.error) {
+        return { success: false, revertReason: decodeRevertReason(response.error), gasEstimate: null };
+    }
+    return { success: true, revertReason: null, gasEstimate: await estimateGas(rpcUrl, call) };
+}
+
+/**
+ * Simulate executing a Safe transaction with `eth_call`
+ */
+export async function simulateSafeTransaction(params: SimulationParams): Promise<SimulationResult> {
+    const { rpcUrl, safeAddress, transaction } = params;
+    const { from, signatures, overrideThreshold } = prepareSignatures(params);
+
+    const call = {
+        from,
+        to: safeAddress,
+        data: encodeExecTransaction(transaction, signatures)
+    };
+
+    const stateDiff: Record<string, `0x${string}`> = {};
+    if (overrideThreshold) {
+        stateDiff[THRESHOLD_STORAGE_SLOT] = pad(toHex(1), { size: 32 });
+    }
+    if (Number(transaction.nonce) !== params.nonce) {
+        stateDiff[NONCE_STORAGE_SLOT] = pad(toHex(BigInt(transaction.nonce)), { size: 32 });
+    }
+    const stateOverride = Object.keys(stateDiff).length > 0 ? { [safeAddress]: { stateDiff } } : undefined;
+
+    const response = await rpcRequest(rpcUrl, 'eth_call', stateOverride ? [call, 'latest', stateOverride] : [call, 'latest']);
+
+    // The node does not understand the override parameter: fall back to the inner call
+    if (response.error && stateOverride && !isRevert(response.error)) {
+        if (transaction.operation === 1) {
+            throw new Error('This RPC node does not support state overrides, so a DelegateCall cannot be simulated');
+        }
+        const inner = await simulateInnerCall(params);
+        return { ...inner, thresholdOverridden: false, mode: 'innerCall' };
+    }
+
+    const result: SimulationResult = {
+        success: false,
+        revertReason: null,
+        gasEstimate: null,
+        thresholdOverridden: overrideThreshold,
+        mode: 'execTransaction'
+    };
+
+    if (response.error) {
+        result.revertReason = decodeRevertReason(response.error);
+    } else {
+        const success = decodeFunctionResult({
+            abi: SAFE_EXECUTION_ABI,
+            functionName: 'execTransaction',
+            data: response.result as `0x${string}`
+        });
+        result.success = success;
+        if (!success) {
+            result.revertReason = 'Inner call failed (ExecutionFailure)';
+        }
+    }
+
+    // The Safe hides the inner revert reason; recover it by simulating the call itself
+    if (!result.success && (result.revertReason?.startsWith('GS013') || result.revertReason?.includes('ExecutionFailure'))) {
+        const inner = await simulateInnerCall(params);
+        if (inner.revertReason) {
+            result.revertReason = `${result.revertReason} - ${inner.revertReason}`;
+        }
+    }
+
+    // Nodes without overrides in eth_estimateGas get the inner call's estimate instead
+    if (result.success) {
+        result.gasEstimate = await estimateGas(rpcUrl, call, stateOverride)
+            ?? (stateOverride ? (await simulateInnerCall(params)).gasEstimate : null);
+    }
+
+    return result;
+}
@@ -0,0 +1,109 @@
+/**
+ * Token lists
+ * Tokens shown in the Safe assets panel, kept per chain. Accepts Uniswap-style token list JSON
+ * or one address per line
+ */
+
+import { getAddress, isAddress } from 'viem';
+
+const TOKEN_LISTS_KEY = 'tokenLists';
+
+export interface TokenListEntry {
+    kind: 'erc20' | 'erc721';
+    address: string;
+    /** Optional metadata; read from the contract when missing */
+    symbol?: string;
+    name?: string;
+    decimals?: number;
+}
+
+/**
+ * Parse a token list for a chain. Text lists take one `address` or `erc721:address` per line;
+ * `#` starts a comment
+ */
+export function parseTokenList(text: string, chainId: number): TokenListEntry[] {
+    const trimmed = text.trim();
+    if (!trimmed) {
+        return [];
+    }
+
+    if (trimmed.startsWith('{') || trimmed.startsWith('[')) {
+        const parsed = JSON.parse(trimmed);
+        const tokens: any[] = Array.isArray(parsed) ? parsed : parsed.tokens;
+        if (!Array.isArray(tokens)) {
+            throw new Error('Token list JSON must contain a "tokens" array');
+        }
+
+        return tokens
+            .filter(token => token.chainId === undefined || Number(token.chainId) === chainId)
+            .map((token, index) => {
+                if (!isAddress(token.address || '')) {
+                    throw new Error(`Token #${index + 1}: invalid address "${token.address}"`);
+                }
+                return {
+                    kind: token.kind === 'erc721' || token.standard === 'ERC721' ? 'erc721' : 'erc20',
+                    address: getAddress(token.address),
+                    symbol: token.symbol,
+                    name: token.name,
+                    decimals: token.decimals === undefined ? undefined : Number(token.decimals)
+                };
+            });
+    }
+
+    return trimmed.split('\n')
+        .map(line => line.split('#')[0].trim())
+        .filter(line => line.length > 0)
+        .map(line => {
+            const [prefix, address] = line.includes(':') ? line.split(':').map(part => part.trim()) : ['erc20', line];
+            if (prefix !== 'erc20' && prefix !== 'erc721') {
+                throw new Error(`Unknown token type "${prefix}" in "${line}"`);
+            }
+            if (!isAddress(address)) {
+                throw new Error(`Invalid token address "${address}"`);
+            }
+            return { kind: prefix, address: getAddress(address) } as TokenListEntry;
+        });
+}
+
+/**
+ * Format a token list as editable text
+ */
+export function formatTokenList(tokens: TokenListEntry[]): string {
+    return tokens.map(token => `${token.kind === 'erc721' ? 'erc721:' : ''}${token.address}${token.symbol ? ` # ${token.symbol}` : ''}`).join('\n');
+}
+
+/**
+ * localStorage-backed token lists keyed by chain ID
+ */
+export class TokenListStore {
+    private lists: Record<string, TokenListEntry[]>;
+
+    constructor() {
+        this.lists = this.read();
+    }
+
+    private read(): Record<string, TokenListEntry[]> {
+        const saved = localStorage.getItem(TOKEN_LISTS_KEY);
+        if (!saved) {
+            return {};
+        }
+        try {
+            return JSON.parse(saved);
+        } catch (error) {
+            console.error('Failed to parse saved token lists:', error);
+            return {};
+        }
+    }
+
+    get(chainId: number): TokenListEntry[] {
+        return this.lists[String(chainId)] || [];
+    }
+
+    /**
+     * Save the token list of a chain, replacing any previous one
+     */
+    save(chainId: number, tokens: TokenListEntry[]): void {
+        this.lists[String(chainId)] = tokens;
+        localStorage.setItem(TOKEN_LISTS_KEY, JSON.stringify(this.lists));
+    }
+}
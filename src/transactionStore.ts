@@ -0,0 +1,713 @@
+/**
+ * Transaction stores
+ * Where pending SafeTxs and owner signatures are kept: the hosted Transaction Service, or
+ * IndexedDB in this browser with signed JSON bundles to pass them between owners
+ */
+
+import { SafeClient } from '@safe-global/sdk-starter-kit';
+import { OperationType } from '@safe-global/types-kit';
+import { createPublicClient, hashMessage, hexToNumber, http, parseAbi, recoverAddress, size, slice, concat, toHex, TypedDataDefinition } from 'viem';
+import { PendingTransaction, SafeConfirmation } from './types';
+import { SafeTxData, ZERO_ADDRESS, calculateSafeTxHash } from './safeTxHash';
+import { Signer } from './signers';
+import { SAFE_EXECUTION_ABI } from './execution';
+
+/** `sandbox` talks to the bundled mock Transaction Service like `service` does to the hosted one */
+export type TransactionStoreKind = 'service' | 'local' | 'sandbox';
+
+/**
+ * A new SafeTx with the proposer's signature
+ */
+export interface TransactionProposal {
+    safeTx: SafeTxData;
+    safeTxHash: string;
+    sender: string;
+    signature: string;
+}
+
+export interface TransactionStore {
+    readonly kind: TransactionStoreKind;
+    /** Unexecuted transactions of the Safe, including outdated nonces, highest nonce first */
+    getPendingTransactions(): Promise<PendingTransaction[]>;
+    proposeTransaction(proposal: TransactionProposal): Promise<void>;
+    /** Add an owner's signature to a pending transaction */
+    confirmTransaction(safeTxHash: string, owner: string, signature: string): Promise<void>;
+    /** Remove a proposal on behalf of its proposer */
+    deleteTransaction(safeTxHash: string, signer: Signer): Promise<void>;
+}
+
+/**
+ * Proposals the proposer may still delete: nobody but the proposer has signed them
+ */
+export function isDeletable(transaction: Pick<PendingTransaction, 'proposer' | 'confirmations' | 'isExecuted'>, signerAddress: string): boolean {
+    const proposer = (transaction.proposer || '').toLowerCase();
+    return !transaction.isExecuted
+        && !!proposer
+        && proposer === signerAddress.toLowerCase()
+        && (transaction.confirmations || []).every(conf => conf.owner.toLowerCase() === proposer);
+}
+
+const DELETE_REQUEST_TYPES = {
+    DeleteRequest: [
+        { name: 'safeTxHash', type: 'bytes32' },
+        { name: 'totp', type: 'uint256' }
+    ]
+} as const;
+
+/**
+ * EIP-712 payload the Transaction Service requires to delete a proposal. `totp` is the current
+ * hour, so a signature expires quickly
+ */
+export function buildDeleteRequestTypedData(
+    chainId: number,
+    safeAddress: string,
+    safeTxHash: string
+): TypedDataDefinition<typeof DELETE_REQUEST_TYPES, 'DeleteRequest'> {
+    return {
+        domain: {
+            name: 'Safe Transaction Service',
+            version: '1.0',
+            chainId,
+            verifyingContract: safeAddress as `0x${string}`
+        },
+        types: DELETE_REQUEST_TYPES,
+        primaryType: 'DeleteRequest',
+        message: {
+            safeTxHash: safeTxHash as `0x${string}`,
+            totp: BigInt(Math.floor(Date.now() / 1000 / 3600))
+        }
+    };
+}
+
+/**
+ * Convert a Transaction Service transaction to PendingTransaction, filling missing fields
+ */
+export function normalizeServiceTransaction(tx: any): PendingTransaction {
+    return {
+        safe: tx.safe || '',
+        to: tx.to || '',
+        value: tx.value || '0',
+        data: tx.data || '0x',
+        operation: tx.operation || 0,
+        gasToken: tx.gasToken || ZERO_ADDRESS,
+        safeTxGas: tx.safeTxGas || 0,
+        baseGas: tx.baseGas || 0,
+        gasPrice: tx.gasPrice || '0',
+        refundReceiver: tx.refundReceiver || ZERO_ADDRESS,
+        nonce: tx.nonce || 0,
+        executionDate: tx.executionDate || null,
+        submissionDate: tx.submissionDate || new Date().toISOString(),
+        modified: tx.modified || new Date().toISOString(),
+        blockNumber: tx.blockNumber || null,
+        transactionHash: tx.transactionHash || null,
+        safeTxHash: tx.safeTxHash || '',
+        proposer: tx.proposer || '',
+        executor: tx.executor || null,
+        isExecuted: tx.isExecuted || false,
+        isSuccessful: tx.isSuccessful || null,
+        ethGasPrice: tx.ethGasPrice || null,
+        maxFeePerGas: tx.maxFeePerGas || null,
+        maxPriorityFeePerGas: tx.maxPriorityFeePerGas || null,
+        gasUsed: tx.gasUsed || null,
+        fee: tx.fee || null,
+        origin: tx.origin || '',
+        dataDecoded: tx.dataDecoded || null,
+        confirmationsRequired: tx.confirmationsRequired || 1,
+        confirmations: tx.confirmations || [],
+        trusted: tx.trusted || false,
+        signatures: tx.signatures || null
+    };
+}
+
+/**
+ * Hosted Safe Transaction Service, through the Safe SDK when a client is available
+ */
+export class ServiceTransactionStore implements TransactionStore {
+    readonly kind = 'service';
+
+    constructor(
+        private txServiceUrl: string,
+        private chainId: number,
+        private safeAddress: string,
+        private safeClient: SafeClient | null
+    ) {}
+
+    async getPendingTransactions(): Promise<PendingTransaction[]> {
+        if (this.safeClient) {
+            // getPendingTransactions() drops nonces below the Safe's nonce, which hides outdated proposals
+            const result: any = await this.safeClient.apiKit.getMultisigTransactions(this.safeAddress, {
+                executed: false,
+                ordering: '-nonce'
+            });
+
+            // The SDK returns a page with a 'results' array
+            if (result && typeof result === 'object' && Array.isArray(result.results)) {
+                return result.results.map(normalizeServiceTransaction);
+            }
+            if (Array.isArray(result)) {
+                return result.map(normalizeServiceTransaction);
+            }
+            console.warn('Unexpected result format from Safe SDK:', result);
+            return [];
+        }
+
+        const response = await fetch(
+            `${this.txServiceUrl}/api/v2/safes/${this.safeAddress}/multisig-transactions/?executed=false&ordering=-nonce`
+        );
+
+        if (!response.ok) {
+            throw new Error(`Failed to fetch transactions: ${response.statusText}`);
+        }
+
+        const data = await response.json();
+        return data.results || [];
+    }
+
+    async proposeTransaction(proposal: TransactionProposal): Promise<void> {
+        const { safeTx, safeTxHash, sender, signature } = proposal;
+
+        if (this.safeClient) {
+            await this.safeClient.apiKit.proposeTransaction({
+                safeAddress: this.safeAddress,
+                safeTransactionData: {
+                    ...safeTx,
+                    operation: safeTx.operation === 1 ? OperationType.DelegateCall : OperationType.Call,
+                    safeTxGas: String(safeTx.safeTxGas),
+                    baseGas: String(safeTx.baseGas)
+                },
+                safeTxHash,
+                senderAddress: sender,
+                senderSignature: signature,
+                origin: 'safe-sign-example'
+            });
+            return;
+        }
+
+        const response = await fetch(`${this.txServiceUrl}/api/v2/safes/${this.safeAddress}/multisig-transactions/`, {
+            method: 'POST',
+            headers: {
+                'Content-Type': 'application/json',
+            },
+            body: JSON.stringify({
+                ...safeTx,
+                contractTransactionHash: safeTxHash,
+                sender,
+                signature,
+                origin: 'safe-sign-example'
+            })
+        });
+
+        if (!response.ok) {
+            const errorText = await response.text();
+            throw new Error(`Failed to propose transaction: ${response.statusText} - ${errorText}`);
+        }
+    }
+
+    async confirmTransaction(safeTxHash: string, owner: string, signature: string): Promise<void> {
+        if (this.safeClient) {
+            await this.safeClient.apiKit.confirmTransaction(safeTxHash, signature);
+            return;
+        }
+
+        const response = await fetch(`${this.txServiceUrl}/api/v2/multisig-transactions/${safeTxHash}/confirmations/`, {
+            method: 'POST',
+            headers: {
+                'Content-Type': 'application/json',
+            },
+            body: JSON.stringify({ signature })
+        });
+
+        if (!response.ok) {
+            const errorText = await response.text();
+            throw new Error(`Failed to confirm transaction: ${response.statusText} - ${errorText}`);
+        }
+    }
+
+    async deleteTransaction(safeTxHash: string, signer: Signer): Promise<void> {
+        const signature = await signer.signTypedData(buildDeleteRequestTypedData(this.chainId, this.safeAddress, safeTxHash));
+
+        const response = await fetch(`${this.txServiceUrl}/api/v2/multisig-transactions/${safeTxHash}/`, {
+            method: 'DELETE',
+            headers: {
+                'Content-Type': 'application/json',
+            },
+            body: JSON.stringify({ safeTxHash, signature })
+        });
+
+        if (!response.ok) {
+            const errorText = await response.text();
+            throw new Error(`Failed to delete transaction: ${response.statusText} - ${errorText}`);
+        }
+    }
+}
+
+/**
+ * Pending transactions of one Safe, exchanged between owners out of band
+ */
+export interface TransactionBundle {
+    version: 1;
+    chainId: number;
+    safeAddress: string;
+    exportedAt: string;
+    transactions: Array<{
+        safeTxHash: string;
+        safeTx: SafeTxData;
+        proposer: string;
+        submissionDate: string;
+        confirmations: SafeConfirmation[];
+    }>;
+}
+
+export interface BundleImportResult {
+    transactions: number;
+    signatures: number;
+    /** Reasons for skipped transactions and signatures */
+    rejected: string[];
+}
+
+interface LocalTransactionRecord {
+    safeTxHash: string;
+    /** `${chainId}:${safeAddress}`, lowercase */
+    safeKey: string;
+    safeTx: SafeTxData;
+    proposer: string;
+    submissionDate: string;
+    modified: string;
+    confirmations: SafeConfirmation[];
+}
+
+const DB_NAME = 'safeTransactionStore';
+const DB_VERSION = 1;
+const TRANSACTIONS_STORE = 'transactions';
+
+const SAFE_STATE_ABI = parseAbi([
+    'function nonce() view returns (uint256)',
+    'function getThreshold() view returns (uint256)',
+    'function getOwners() view returns (address[])',
+    'function VERSION() view returns (string)',
+    'function approvedHashes(address owner, bytes32 hash) view returns (uint256)'
+]);
+
+function promisify<T>(request: IDBRequest<T>): Promise<T> {
+    return new Promise((resolve, reject) => {
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+}
+
+function openDatabase(): Promise<IDBDatabase> {
+    return new Promise((resolve, reject) => {
+        const request = indexedDB.open(DB_NAME, DB_VERSION);
+        request.onupgradeneeded = () => {
+            const store = request.result.createObjectStore(TRANSACTIONS_STORE, { keyPath: 'safeTxHash' });
+            store.createIndex('safeKey', 'safeKey');
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+}
+
+/**
+ * Safe signature type from the `v` byte, using the Transaction Service's names
+ */
+export function getSignatureType(signature: string): string {
+    const v = hexToNumber(slice(signature as `0x${string}`, 64, 65));
+    if (v === 0) return 'CONTRACT_SIGNATURE';
+    if (v === 1) return 'APPROVED_HASH';
+    return v > 30 ? 'ETH_SIGN' : 'EOA';
+}
+
+export interface SafeState {
+    nonce: number;
+    threshold: number;
+    owners: string[];
+    version: string;
+}
+
+/**
+ * Read the nonce, threshold, owners and version of a Safe on-chain
+ */
+export async function readSafeState(rpcUrl: string, safeAddress: string): Promise<SafeState> {
+    const publicClient = createPublicClient({ transport: http(rpcUrl) });
+    const read = (functionName: 'nonce' | 'getThreshold' | 'getOwners' | 'VERSION') => publicClient.readContract({
+        address: safeAddress as `0x${string}`,
+        abi: SAFE_STATE_ABI,
+        functionName
+    });
+
+    const [nonce, threshold, owners, version] = await Promise.all([
+        read('nonce'), read('getThreshold'), read('getOwners'), read('VERSION')
+    ]);
+    return {
+        nonce: Number(nonce),
+        threshold: Number(threshold),
+        owners: owners as string[],
+        version: version as string
+    };
+}
+
+/**
+ * Recover the owner behind a signature over a safeTxHash, or explain why it is not valid.
+ * Approved hashes are checked on-chain; contract signatures are not supported
+ */
+export async function verifySafeSignature(
+    rpcUrl: string,
+    safeAddress: string,
+    safeTxHash: string,
+    signature: string,
+    owners: string[]
+): Promise<SafeConfirmation> {
+    if (size(signature as `0x${string}`) !== 65) {
+        throw new Error('signature must be 65 bytes');
+    }
+
+    const hash = safeTxHash as `0x${string}`;
+    const r = slice(signature as `0x${string}`, 0, 32);
+    const s = slice(signature as `0x${string}`, 32, 64);
+    const v = hexToNumber(slice(signature as `0x${string}`, 64, 65));
+    const signatureType = getSignatureType(signature);
+    let owner: string;
+
+    switch (signatureType) {
+        case 'EOA':
+            owner = await recoverAddress({ hash, signature: signature as `0x${string}` });
+            break;
+        case 'ETH_SIGN':
+            owner = await recoverAddress({ hash: hashMessage({ raw: hash }), signature: concat([r, s, toHex(v - 4)]) });
+            break;
+        case 'APPROVED_HASH': {
+            owner = `0x${r.slice(-40)}`;
+            const publicClient = createPublicClient({ transport: http(rpcUrl) });
+            const approved = await publicClient.readContract({
+                address: safeAddress as `0x${string}`,
+                abi: SAFE_STATE_ABI,
+                functionName: 'approvedHashes',
+                args: [owner as `0x${string}`, hash]
+            });
+            if (approved === 0n) {
+                throw new Error(`${owner} has not approved the hash on-chain`);
+            }
+            break;
+        }
+        default:
+            throw new Error('contract signatures cannot be verified without the signing contract');
+    }
+
+    const matched = owners.find(item => item.toLowerCase() === owner.toLowerCase());
+    if (!matched) {
+        throw new Error(`signer ${owner} is not an owner of the Safe`);
+    }
+
+    return {
+        owner: matched,
+        submissionDate: new Date().toISOString(),
+        transactionHash: null,
+        signature,
+        signatureType
+    };
+}
+
+/**
+ * SafeTxs and signatures kept in this browser's IndexedDB. Signatures are checked against the
+ * Safe's owners read on-chain, so bundles from other owners can be merged safely
+ */
+export class LocalTransactionStore implements TransactionStore {
+    readonly kind = 'local';
+    private safeKey: string;
+    /** SafeTx hashes found in the Safe's execution events, up to the last scanned block */
+    private executionScan = { block: -1n, hashes: new Set<string>() };
+
+    constructor(
+        private rpcUrl: string,
+        private chainId: number,
+        private safeAddress: string
+    ) {
+        this.safeKey = `${chainId}:${safeAddress.toLowerCase()}`;
+    }
+
+    private readSafeState(): Promise<SafeState> {
+        return readSafeState(this.rpcUrl, this.safeAddress);
+    }
+
+    private verifySignature(safeTxHash: string, signature: string, owners: string[]): Promise<SafeConfirmation> {
+        return verifySafeSignature(this.rpcUrl, this.safeAddress, safeTxHash, signature, owners);
+    }
+
+    private async readRecords(): Promise<LocalTransactionRecord[]> {
+        const db = await openDatabase();
+        try {
+            const index = db.transaction(TRANSACTIONS_STORE, 'readonly').objectStore(TRANSACTIONS_STORE).index('safeKey');
+            return await promisify(index.getAll(this.safeKey));
+        } finally {
+            db.close();
+        }
+    }
+
+    private async writeRecords(records: LocalTransactionRecord[]): Promise<void> {
+        const db = await openDatabase();
+        try {
+            const transaction = db.transaction(TRANSACTIONS_STORE, 'readwrite');
+            const store = transaction.objectStore(TRANSACTIONS_STORE);
+            records.forEach(record => store.put(record));
+            await new Promise<void>((resolve, reject) => {
+                transaction.oncomplete = () => resolve();
+                transaction.onerror = () => reject(transaction.error);
+            });
+        } finally {
+            db.close();
+        }
+    }
+
+    /**
+     * SafeTx hashes the Safe has executed, from its ExecutionSuccess and ExecutionFailure events.
+     * Only blocks not scanned before are read
+     */
+    private async readExecutedHashes(): Promise<Set<string>> {
+        const publicClient = createPublicClient({ transport: http(this.rpcUrl) });
+        const latestBlock = await publicClient.getBlockNumber();
+
+        if (latestBlock > this.executionScan.block) {
+            const logs = await publicClient.getLogs({
+                address: this.safeAddress as `0x${string}`,
+                events: SAFE_EXECUTION_ABI.filter(item => item.type === 'event'),
+                fromBlock: this.executionScan.block + 1n,
+                toBlock: latestBlock,
+                strict: false
+            });
+            logs.forEach(log => {
+                const { txHash } = log.args as { txHash?: string };
+                if (txHash) this.executionScan.hashes.add(txHash.toLowerCase());
+            });
+            this.executionScan.block = latestBlock;
+        }
+        return this.executionScan.hashes;
+    }
+
+    private async readRecord(safeTxHash: string): Promise<LocalTransactionRecord | undefined> {
+        const db = await openDatabase();
+        try {
+            const store = db.transaction(TRANSACTIONS_STORE, 'readonly').objectStore(TRANSACTIONS_STORE);
+            const record: LocalTransactionRecord | undefined = await promisify(store.get(safeTxHash.toLowerCase()));
+            return record?.safeKey === this.safeKey ? record : undefined;
+        } finally {
+            db.close();
+        }
+    }
+
+    private toPendingTransaction(record: LocalTransactionRecord, threshold: number): PendingTransaction {
+        const { safeTx } = record;
+        return {
+            safe: this.safeAddress,
+            to: safeTx.to,
+            value: safeTx.value,
+            data: safeTx.data,
+            operation: safeTx.operation,
+            gasToken: safeTx.gasToken,
+            safeTxGas: Number(safeTx.safeTxGas),
+            baseGas: Number(safeTx.baseGas),
+            gasPrice: safeTx.gasPrice,
+            refundReceiver: safeTx.refundReceiver,
+            nonce: safeTx.nonce,
+            executionDate: null,
+            submissionDate: record.submissionDate,
+            modified: record.modified,
+            blockNumber: null,
+            transactionHash: null,
+            safeTxHash: record.safeTxHash,
+            proposer: record.proposer,
+            executor: null,
+            isExecuted: false,
+            isSuccessful: null,
+            ethGasPrice: null,
+            maxFeePerGas: null,
+            maxPriorityFeePerGas: null,
+            gasUsed: null,
+            fee: null,
+            origin: 'local',
+            dataDecoded: null,
+            confirmationsRequired: threshold,
+            confirmations: record.confirmations,
+            trusted: true,
+            signatures: null
+        };
+    }
+
+    /**
+     * Transactions the Safe has not executed, including outdated ones below its nonce. When the
+     * node cannot serve the Safe's execution events, only nonces from the current one on are kept
+     */
+    async getPendingTransactions(): Promise<PendingTransaction[]> {
+        const [{ nonce, threshold }, records] = await Promise.all([this.readSafeState(), this.readRecords()]);
+
+        // Records below the nonce were either executed or replaced by another SafeTx
+        const executed = records.some(record => record.safeTx.nonce < nonce)
+            ? await this.readExecutedHashes().catch(() => null)
+            : new Set<string>();
+
+        return records
+            .filter(record => executed ? !executed.has(record.safeTxHash.toLowerCase()) : record.safeTx.nonce >= nonce)
+            .sort((a, b) => b.safeTx.nonce - a.safeTx.nonce || a.submissionDate.localeCompare(b.submissionDate))
+            .map(record => this.toPendingTransaction(record, threshold));
+    }
+
+    async proposeTransaction(proposal: TransactionProposal): Promise<void> {
+        const { owners, version } = await this.readSafeState();
+        const safeTxHash = calculateSafeTxHash(this.chainId, this.safeAddress, version, proposal.safeTx);
+
+        if (safeTxHash.toLowerCase() !== proposal.safeTxHash.toLowerCase()) {
+            throw new Error(`SafeTx hash ${proposal.safeTxHash} does not match the transaction (${safeTxHash})`);
+        }
+        if (await this.readRecord(safeTxHash)) {
+            throw new Error(`Transaction ${safeTxHash} already exists`);
+        }
+
+        const confirmation = await this.verifySignature(safeTxHash, proposal.signature, owners)
+            .catch((error: Error) => { throw new Error(`Invalid signature: ${error.message}`); });
+        if (confirmation.owner.toLowerCase() !== proposal.sender.toLowerCase()) {
+            throw new Error(`Signature is from ${confirmation.owner}, not the sender ${proposal.sender}`);
+        }
+        const now = new Date().toISOString();
+
+        await this.writeRecords([{
+            safeTxHash: safeTxHash.toLowerCase(),
+            safeKey: this.safeKey,
+            safeTx: proposal.safeTx,
+            proposer: confirmation.owner,
+            submissionDate: now,
+            modified: now,
+            confirmations: [confirmation]
+        }]);
+    }
+
+    async confirmTransaction(safeTxHash: string, owner: string, signature: string): Promise<void> {
+        const record = await this.readRecord(safeTxHash);
+        if (!record) {
+            throw new Error('Transaction not found');
+        }
+
+        const { owners } = await this.readSafeState();
+        const confirmation = await this.verifySignature(record.safeTxHash, signature, owners)
+            .catch((error: Error) => { throw new Error(`Invalid signature: ${error.message}`); });
+
+        if (confirmation.owner.toLowerCase() !== owner.toLowerCase()) {
+            throw new Error(`Signature is from ${confirmation.owner}, not ${owner}`);
+        }
+        if (record.confirmations.some(conf => conf.owner.toLowerCase() === owner.toLowerCase())) {
+            throw new Error(`${owner} has already confirmed this transaction`);
+        }
+
+        record.confirmations.push(confirmation);
+        record.modified = new Date().toISOString();
+        await this.writeRecords([record]);
+    }
+
+    async deleteTransaction(safeTxHash: string, signer: Signer): Promise<void> {
+        const record = await this.readRecord(safeTxHash);
+        if (!record) {
+            throw new Error('Transaction not found');
+        }
+
+        const pending = this.toPendingTransaction(record, 0);
+        if (!isDeletable(pending, await signer.getAddress())) {
+            throw new Error('Only the proposer can delete a proposal, and only before other owners sign it');
+        }
+
+        const db = await openDatabase();
+        try {
+            await promisify(db.transaction(TRANSACTIONS_STORE, 'readwrite').objectStore(TRANSACTIONS_STORE).delete(record.safeTxHash));
+        } finally {
+            db.close();
+        }
+    }
+
+    /**
+     * Export the pending transactions and their signatures
+     */
+    async exportBundle(): Promise<TransactionBundle> {
+        const { nonce } = await this.readSafeState();
+        const records = await this.readRecords();
+
+        return {
+            version: 1,
+            chainId: this.chainId,
+            safeAddress: this.safeAddress,
+            exportedAt: new Date().toISOString(),
+            transactions: records
+                .filter(record => record.safeTx.nonce >= nonce)
+                .sort((a, b) => a.safeTx.nonce - b.safeTx.nonce)
+                .map(({ safeTxHash, safeTx, proposer, submissionDate, confirmations }) => ({
+                    safeTxHash, safeTx, proposer, submissionDate, confirmations
+                }))
+        };
+    }
+
+    /**
+     * Merge a bundle from another owner. Hashes are recomputed and every signature is checked,
+     * so a tampered bundle cannot add transactions or confirmations
+     */
+    async importBundle(bundle: TransactionBundle): Promise<BundleImportResult> {
+        if (bundle?.version !== 1 || !Array.isArray(bundle.transactions)) {
+            throw new Error('Not a transaction bundle');
+        }
+        if (Number(bundle.chainId) !== this.chainId || bundle.safeAddress?.toLowerCase() !== this.safeAddress.toLowerCase()) {
+            throw new Error(`The bundle is for Safe ${bundle.safeAddress} on chain ${bundle.chainId}`);
+        }
+
+        const { owners, version } = await this.readSafeState();
+        const existing = new Map((await this.readRecords()).map(record => [record.safeTxHash, record]));
+        const result: BundleImportResult = { transactions: 0, signatures: 0, rejected: [] };
+        const updated: LocalTransactionRecord[] = [];
+
+        for (const item of bundle.transactions) {
+            const safeTxHash = calculateSafeTxHash(this.chainId, this.safeAddress, version, item.safeTx).toLowerCase();
+            if (safeTxHash !== item.safeTxHash?.toLowerCase()) {
+                result.rejected.push(`${item.safeTxHash}: hash does not match the transaction`);
+                continue;
+            }
+
+            const record: LocalTransactionRecord = existing.get(safeTxHash) || {
+                safeTxHash,
+                safeKey: this.safeKey,
+                safeTx: item.safeTx,
+                // Set from the first valid signature; the bundle's proposer field is not trusted
+                proposer: '',
+                submissionDate: item.submissionDate || new Date().toISOString(),
+                modified: new Date().toISOString(),
+                confirmations: []
+            };
+            const isNew = !existing.has(safeTxHash);
+            let added = 0;
+
+            for (const { signature } of item.confirmations || []) {
+                try {
+                    const confirmation = await this.verifySignature(safeTxHash, signature, owners);
+                    if (!record.confirmations.some(conf => conf.owner.toLowerCase() === confirmation.owner.toLowerCase())) {
+                        record.confirmations.push(confirmation);
+                        added++;
+                    }
+                } catch (error: any) {
+                    result.rejected.push(`${safeTxHash.slice(0, 10)}...: ${error.message}`);
+                }
+            }
+
+            if (isNew && record.confirmations.length === 0) {
+                result.rejected.push(`${safeTxHash.slice(0, 10)}...: no valid signature`);
+                continue;
+            }
+            if (isNew) {
+                record.proposer = record.confirmations[0].owner;
+            }
+            if (isNew || added > 0) {
+                record.modified = new Date().toISOString();
+                updated.push(record);
+                result.transactions += isNew ? 1 : 0;
+                result.signatures += added;
+            }
+        }
+
+        if (updated.length > 0) {
+            await this.writeRecords(updated);
+        }
+        return result;
+    }
+}
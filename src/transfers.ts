@@ -0,0 +1,215 @@
+/**
+ * Asset transfers
+ * Reads token metadata and balances and builds the calls for native, ERC-20, ERC-721 and
+ * ERC-1155 transfers from the Safe
+ */
+
+import { createPublicClient, encodeFunctionData, formatUnits, http, isAddress, parseAbi, parseUnits } from 'viem';
+import { MultiSendCall } from './multiSend';
+
+export type TransferKind = 'native' | 'erc20' | 'erc721' | 'erc1155';
+
+export interface TransferRequest {
+    kind: TransferKind;
+    /** Token contract; unused for native transfers */
+    token: string;
+    recipient: string;
+    /** Human-readable amount in token units (ignored for ERC-721) */
+    amount: string;
+    /** ERC-721 / ERC-1155 token ID */
+    tokenId: string;
+}
+
+export interface TokenMetadata {
+    name: string;
+    symbol: string;
+    /** Decimals of fungible tokens; 0 for NFTs */
+    decimals: number;
+}
+
+export interface PreparedTransfer {
+    call: MultiSendCall;
+    token: TokenMetadata;
+    /** Safe balance of the asset before the transfer, in base units */
+    balance: bigint;
+    description: string;
+}
+
+export const TRANSFER_ABI = parseAbi([
+    'function name() view returns (string)',
+    'function symbol() view returns (string)',
+    'function decimals() view returns (uint8)',
+    'function balanceOf(address owner) view returns (uint256)',
+    'function ownerOf(uint256 tokenId) view returns (address)',
+    'function transfer(address to, uint256 amount) returns (bool)',
+    'function safeTransferFrom(address from, address to, uint256 tokenId)',
+    'function safeTransferFrom(address from, address to, uint256 id, uint256 amount, bytes data)'
+]);
+
+const ERC1155_BALANCE_ABI = parseAbi([
+    'function balanceOf(address account, uint256 id) view returns (uint256)'
+]);
+
+/**
+ * Read name, symbol and decimals. Optional metadata falls back to placeholders, since many NFT
+ * and some older ERC-20 contracts do not implement it
+ */
+export async function fetchTokenMetadata(rpcUrl: string, kind: TransferKind, token: string, nativeSymbol: string): Promise<TokenMetadata> {
+    if (kind === 'native') {
+        return { name: nativeSymbol, symbol: nativeSymbol, decimals: 18 };
+    }
+    if (!isAddress(token)) {
+        throw new Error(`Invalid token address: ${token}`);
+    }
+
+    const publicClient = createPublicClient({ transport: http(rpcUrl) });
+    const read = <T>(functionName: 'name' | 'symbol' | 'decimals', fallback: T) => publicClient.readContract({
+        address: token,
+        abi: TRANSFER_ABI,
+        functionName
+    }).catch(() => fallback) as Promise<T>;
+
+    const [name, symbol, decimals] = await Promise.all([
+        read<string>('name', ''),
+        read<string>('symbol', kind.toUpperCase()),
+        kind === 'erc20' ? read<number | null>('decimals', null) : Promise.resolve(0)
+    ]);
+
+    if (decimals === null) {
+        throw new Error(`${token} does not implement decimals(); is it an ERC-20 token?`);
+    }
+    return { name, symbol, decimals: Number(decimals) };
+}
+
+/**
+ * Read the Safe's balance of the asset: the native or token balance, 1/0 for ERC-721 ownership
+ */
+export async function fetchTransferBalance(rpcUrl: string, safeAddress: string, request: Pick<TransferRequest, 'kind' | 'token' | 'tokenId'>): Promise<bigint> {
+    const publicClient = createPublicClient({ transport: http(rpcUrl) });
+    const safe = safeAddress as `0x${string}`;
+    const token = request.token as `0x${string}`;
+
+    switch (request.kind) {
+        case 'native':
+            return await publicClient.getBalance({ address: safe });
+        case 'erc20':
+            return await publicClient.readContract({ address: token, abi: TRANSFER_ABI, functionName: 'balanceOf', args: [safe] });
+        case 'erc721': {
+            const owner = await publicClient.readContract({
+                address: token,
+                abi: TRANSFER_ABI,
+                functionName: 'ownerOf',
+                args: [BigInt(request.tokenId)]
+            }).catch(() => null);
+            return owner?.toLowerCase() === safeAddress.toLowerCase() ? 1n : 0n;
+        }
+        case 'erc1155':
+            return await publicClient.readContract({
+                address: token,
+                abi: ERC1155_BALANCE_ABI,
+                functionName: 'balanceOf',
+                args: [safe, BigInt(request.tokenId)]
+            });
+    }
+}
+
+/**
+ * Amount of a request in base units
+ */
+function parseTransferAmount(request: TransferRequest, decimals: number): bigint {
+    if (request.kind === 'erc721') {
+        return 1n;
+    }
+
+    let amount: bigint;
+    try {
+        amount = parseUnits(request.amount.trim(), decimals);
+    } catch {
+        throw new Error(`Invalid amount: ${request.amount}`);
+    }
+    if (amount <= 0n) {
+        throw new Error('Amount must be greater than zero');
+    }
+    return amount;
+}
+
+/**
+ * Build the Safe call for a transfer
+ */
+export function buildTransferCall(request: TransferRequest, safeAddress: string, amount: bigint): MultiSendCall {
+    const recipient = request.recipient as `0x${string}`;
+
+    switch (request.kind) {
+        case 'native':
+            return { to: recipient, value: amount.toString(), data: '0x', operation: 0 };
+        case 'erc20':
+            return {
+                to: request.token,
+                value: '0',
+                data: encodeFunctionData({ abi: TRANSFER_ABI, functionName: 'transfer', args: [recipient, amount] }),
+                operation: 0
+            };
+        case 'erc721':
+            return {
+                to: request.token,
+                value: '0',
+                data: encodeFunctionData({
+                    abi: TRANSFER_ABI,
+                    functionName: 'safeTransferFrom',
+                    args: [safeAddress as `0x${string}`, recipient, BigInt(request.tokenId)]
+                }),
+                operation: 0
+            };
+        case 'erc1155':
+            return {
+                to: request.token,
+                value: '0',
+                data: encodeFunctionData({
+                    abi: TRANSFER_ABI,
+                    functionName: 'safeTransferFrom',
+                    args: [safeAddress as `0x${string}`, recipient, BigInt(request.tokenId), amount, '0x']
+                }),
+                operation: 0
+            };
+    }
+}
+
+/**
+ * Validate a transfer, check the Safe holds enough of the asset and build its call
+ */
+export async function prepareTransfer(rpcUrl: string, safeAddress: string, request: TransferRequest, nativeSymbol: string): Promise<PreparedTransfer> {
+    if (!isAddress(request.recipient)) {
+        throw new Error(`Invalid recipient address: ${request.recipient}`);
+    }
+    if (request.recipient.toLowerCase() === safeAddress.toLowerCase()) {
+        throw new Error('The recipient is the Safe itself');
+    }
+    if (request.kind !== 'native' && !isAddress(request.token)) {
+        throw new Error(`Invalid token address: ${request.token}`);
+    }
+    if ((request.kind === 'erc721' || request.kind === 'erc1155') && !/^\d+$/.test(request.tokenId.trim())) {
+        throw new Error(`Invalid token ID: ${request.tokenId}`);
+    }
+
+    const token = await fetchTokenMetadata(rpcUrl, request.kind, request.token, nativeSymbol);
+    const amount = parseTransferAmount(request, token.decimals);
+    const balance = await fetchTransferBalance(rpcUrl, safeAddress, request);
+
+    if (request.kind === 'erc721' && balance === 0n) {
+        throw new Error(`The Safe does not own ${token.symbol} #${request.tokenId}`);
+    }
+    if (balance < amount) {
+        throw new Error(`Insufficient balance: the Safe holds ${formatUnits(balance, token.decimals)} ${token.symbol}`);
+    }
+
+    const asset = request.kind === 'erc721'
+        ? `${token.symbol} #${request.tokenId}`
+        : `${formatUnits(amount, token.decimals)} ${token.symbol}${request.kind === 'erc1155' ? ` #${request.tokenId}` : ''}`;
+
+    return {
+        call: buildTransferCall(request, safeAddress, amount),
+        token,
+        balance,
+        description: `Send ${asset} to ${request.recipient}`
+    };
+}
@@ -0,0 +1,267 @@
+/**
+ * Safe Transaction Builder batch files
+ * Parses, checksums and writes the JSON format of the Safe{Wallet} Transaction Builder app so
+ * proposals can be kept in git and reviewed as code
+ */
+
+import { AbiFunction, AbiParameter, encodeFunctionData, isAddress, keccak256, stringToHex } from 'viem';
+import { MultiSendCall } from './multiSend';
+import { DecodedCall } from './decoder';
+
+/** Version of the batch file format */
+export const BATCH_FILE_VERSION = '1.0';
+
+/** Transaction Builder release whose format is written */
+export const TX_BUILDER_VERSION = '1.16.5';
+
+export interface BatchContractMethod {
+    name: string;
+    inputs: AbiParameter[];
+    payable: boolean;
+}
+
+export interface BatchTransaction {
+    to: string;
+    value: string;
+    /** Raw calldata; null when the call is described by `contractMethod` */
+    data?: string | null;
+    contractMethod?: BatchContractMethod | null;
+    /** Argument values by input name, as strings (arrays and tuples JSON-encoded) */
+    contractInputsValues?: Record<string, string> | null;
+}
+
+export interface BatchFile {
+    version: string;
+    chainId: string;
+    createdAt: number;
+    meta: {
+        name: string;
+        description?: string;
+        txBuilderVersion?: string;
+        createdFromSafeAddress?: string;
+        createdFromOwnerAddress?: string;
+        checksum?: string;
+    };
+    transactions: BatchTransaction[];
+}
+
+export interface ImportedCall {
+    call: MultiSendCall;
+    /** Function described in the file, used to decode the preview */
+    abi: AbiFunction | null;
+}
+
+export interface ImportedBatch {
+    batch: BatchFile;
+    calls: ImportedCall[];
+    /** Null when the file has no checksum; false when it was edited after export */
+    checksumValid: boolean | null;
+}
+
+/**
+ * Serialize with sorted keys, as the Transaction Builder does before hashing
+ */
+function serializeJson(json: unknown): string {
+    const replacer = (_: string, value: unknown) => value === undefined ? null : value;
+
+    if (Array.isArray(json)) {
+        return `[${json.map(item => serializeJson(item)).join(',')}]`;
+    }
+    if (typeof json === 'object' && json !== null) {
+        const keys = Object.keys(json).sort();
+        return `{${JSON.stringify(keys, replacer)}${keys.map(key => `${serializeJson((json as Record<string, unknown>)[key])},`).join('')}}`;
+    }
+    return JSON.stringify(json, replacer);
+}
+
+/**
+ * Checksum of a batch file. The name is excluded so batches can be renamed
+ */
+export function calculateBatchChecksum(batch: BatchFile): string {
+    const { checksum, ...meta } = batch.meta;
+    return keccak256(stringToHex(serializeJson({ ...batch, meta: { ...meta, name: null } })));
+}
+
+function toAbiFunction(method: BatchContractMethod): AbiFunction {
+    return {
+        type: 'function',
+        name: method.name,
+        inputs: method.inputs,
+        outputs: [],
+        stateMutability: method.payable ? 'payable' : 'nonpayable'
+    };
+}
+
+/**
+ * Convert a file input value to the argument type viem expects
+ */
+function parseInputValue(input: AbiParameter, value: unknown): unknown {
+    const arrayMatch = input.type.match(/^(.*)\[\d*\]$/);
+    if (arrayMatch) {
+        const items = typeof value === 'string' ? JSON.parse(value) : value;
+        if (!Array.isArray(items)) {
+            throw new Error(`${input.name || input.type}: expected an array`);
+        }
+        return items.map(item => parseInputValue({ ...input, type: arrayMatch[1] } as AbiParameter, item));
+    }
+
+    if (input.type === 'tuple') {
+        const components = (input as { components: readonly AbiParameter[] }).components;
+        const fields = typeof value === 'string' ? JSON.parse(value) : value;
+        return components.map((component, index) =>
+            parseInputValue(component, Array.isArray(fields) ? fields[index] : fields[component.name || index])
+        );
+    }
+
+    if (input.type === 'bool') {
+        return value === true || String(value).toLowerCase() === 'true';
+    }
+    if (input.type.startsWith('uint') || input.type.startsWith('int')) {
+        return BigInt(value as string);
+    }
+    return String(value);
+}
+
+/**
+ * Encode a batch transaction's calldata, from `data` or from its method and input values
+ */
+function encodeBatchTransaction(transaction: BatchTransaction, index: number): ImportedCall {
+    const label = `Transaction #${index + 1}`;
+
+    if (!isAddress(transaction.to)) {
+        throw new Error(`${label}: invalid target address "${transaction.to}"`);
+    }
+
+    const abi = transaction.contractMethod ? toAbiFunction(transaction.contractMethod) : null;
+    let data = transaction.data || '0x';
+
+    if (data === '0x' && abi) {
+        const values = transaction.contractInputsValues || {};
+        try {
+            const args = abi.inputs.map((input, inputIndex) =>
+                parseInputValue(input, values[input.name || String(inputIndex)])
+            );
+            data = encodeFunctionData({ abi: [abi], functionName: abi.name, args });
+        } catch (error: any) {
+            throw new Error(`${label}: failed to encode ${abi.name}: ${error.message}`);
+        }
+    }
+
+    return {
+        call: {
+            to: transaction.to,
+            value: BigInt(transaction.value || '0').toString(),
+            data,
+            operation: 0
+        },
+        abi
+    };
+}
+
+/**
+ * Parse a Transaction Builder JSON file for a chain
+ */
+export function parseBatchFile(text: string, chainId: number): ImportedBatch {
+    let batch: BatchFile;
+    try {
+        batch = JSON.parse(text);
+    } catch (error: any) {
+        throw new Error(`Invalid JSON: ${error.message}`);
+    }
+
+    if (!batch || !Array.isArray(batch.transactions)) {
+        throw new Error('Not a Transaction Builder file: "transactions" is missing');
+    }
+    if (batch.transactions.length === 0) {
+        throw new Error('The batch contains no transactions');
+    }
+    if (batch.chainId && String(batch.chainId) !== String(chainId)) {
+        throw new Error(`The batch is for chain ${batch.chainId}, but the Safe is on chain ${chainId}`);
+    }
+
+    return {
+        batch,
+        calls: batch.transactions.map((transaction, index) => encodeBatchTransaction(transaction, index)),
+        checksumValid: batch.meta?.checksum ? batch.meta.checksum === calculateBatchChecksum(batch) : null
+    };
+}
+
+/**
+ * Describe a call as a batch transaction, with its method and arguments when they re-encode
+ * to the same calldata, and as raw data otherwise
+ */
+function toBatchTransaction(call: MultiSendCall, decoded: DecodedCall | null): BatchTransaction {
+    const transaction: BatchTransaction = {
+        to: call.to,
+        value: call.value,
+        data: call.data && call.data !== '0x' ? call.data : null
+    };
+
+    if (!decoded || decoded.calls || decoded.parameters.some(parameter => parameter.type.includes('tuple'))) {
+        return transaction;
+    }
+
+    const method: BatchContractMethod = {
+        name: decoded.method,
+        inputs: decoded.parameters.map(parameter => ({ name: parameter.name, type: parameter.type, internalType: parameter.type })),
+        payable: BigInt(call.value || 0) > 0n
+    };
+    const values = Object.fromEntries(decoded.parameters.map(parameter => [
+        parameter.name,
+        typeof parameter.value === 'string' ? parameter.value : JSON.stringify(parameter.value)
+    ]));
+
+    try {
+        const encoded = encodeBatchTransaction({ to: call.to, value: call.value, contractMethod: method, contractInputsValues: values }, 0);
+        if (encoded.call.data.toLowerCase() !== transaction.data?.toLowerCase()) {
+            return transaction;
+        }
+    } catch {
+        return transaction;
+    }
+
+    return { to: call.to, value: call.value, data: null, contractMethod: method, contractInputsValues: values };
+}
+
+/**
+ * Split a Safe transaction into batch calls: MultiSend batches are expanded, since the
+ * Transaction Builder bundles its calls itself
+ */
+export function transactionToBatchCalls(
+    transaction: MultiSendCall,
+    decoded: DecodedCall | null
+): Array<{ call: MultiSendCall; decoded: DecodedCall | null }> {
+    const calls = decoded?.method === 'multiSend' && decoded.calls
+        ? decoded.calls.map(call => ({ call: { to: call.to, value: call.value, data: call.data, operation: call.operation }, decoded: call.decoded }))
+        : [{ call: transaction, decoded }];
+
+    if (calls.some(({ call }) => call.operation === 1)) {
+        throw new Error('DelegateCalls cannot be expressed in the Transaction Builder format');
+    }
+    return calls;
+}
+
+/**
+ * Build a checksummed batch file from calls
+ */
+export function buildBatchFile(
+    calls: Array<{ call: MultiSendCall; decoded: DecodedCall | null }>,
+    options: { chainId: number; safeAddress: string; ownerAddress?: string; name: string; description?: string }
+): BatchFile {
+    const batch: BatchFile = {
+        version: BATCH_FILE_VERSION,
+        chainId: String(options.chainId),
+        createdAt: Date.now(),
+        meta: {
+            name: options.name,
+            description: options.description || '',
+            txBuilderVersion: TX_BUILDER_VERSION,
+            createdFromSafeAddress: options.safeAddress,
+            createdFromOwnerAddress: options.ownerAddress || ''
+        },
+        transactions: calls.map(({ call, decoded }) => toBatchTransaction(call, decoded))
+    };
+
+    batch.meta.checksum = calculateBatchChecksum(batch);
+    return batch;
+}
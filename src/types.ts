@@ -0,0 +1,119 @@
+/**
+ * Shared type definitions
+ */
+
+import { SignerConfig } from './signers';
+import { EncryptedPayload } from './vault';
+import { TransactionStoreKind } from './transactionStore';
+
+export interface SafeConfig {
+    safeAddress: string;
+    rpcUrl: string;
+    chainId: number;
+    txServiceUrl: string;
+    /** Where pending transactions and signatures are kept; defaults to the Transaction Service */
+    transactionStore?: TransactionStoreKind;
+    /** WebSocket RPC endpoint used to subscribe to the Safe's events; HTTP log polling otherwise */
+    wsRpcUrl?: string;
+    signer: SignerConfig;
+    lockTimeoutMinutes?: number;
+}
+
+/**
+ * SafeConfig as persisted in localStorage. Signers holding a raw key are stored encrypted
+ */
+export type StoredSafeConfig = Omit<SafeConfig, 'signer'> & {
+    signer: SignerConfig | { type: SignerConfig['type']; encrypted: EncryptedPayload };
+};
+
+export interface SafeInfo {
+    address: string;
+    nonce: number;
+    threshold: number;
+    owners: string[];
+    modules: string[];
+    fallbackHandler: string;
+    guard: string;
+    version: string;
+}
+
+export interface SafeConfirmation {
+    owner: string;
+    submissionDate: string;
+    transactionHash: string | null;
+    signature: string;
+    signatureType: string;
+}
+
+export interface PendingTransaction {
+    safe: string;
+    to: string;
+    value: string;
+    data: string;
+    operation: number;
+    gasToken: string;
+    safeTxGas: number;
+    baseGas: number;
+    gasPrice: string;
+    refundReceiver: string;
+    nonce: number;
+    executionDate: string | null;
+    submissionDate: string;
+    modified: string;
+    blockNumber: number | null;
+    transactionHash: string | null;
+    safeTxHash: string;
+    proposer: string;
+    executor: string | null;
+    isExecuted: boolean;
+    isSuccessful: boolean | null;
+    ethGasPrice: string | null;
+    maxFeePerGas: string | null;
+    maxPriorityFeePerGas: string | null;
+    gasUsed: number | null;
+    fee: string | null;
+    origin: string;
+    dataDecoded: any | null;
+    confirmationsRequired: number;
+    confirmations: SafeConfirmation[];
+    trusted: boolean;
+    signatures: string | null;
+}
+
+export interface TokenInfo {
+    type: string;
+    address: string;
+    name: string;
+    symbol: string;
+    decimals: number | null;
+    logoUri: string | null;
+}
+
+export interface IncomingTransfer {
+    type: 'ETHER_TRANSFER' | 'ERC20_TRANSFER' | 'ERC721_TRANSFER';
+    executionDate: string;
+    blockNumber: number;
+    transactionHash: string;
+    to: string;
+    from: string;
+    value: string | null;
+    tokenId: string | null;
+    tokenAddress: string | null;
+    tokenInfo: TokenInfo | null;
+}
+
+export interface ModuleTransaction {
+    moduleTransactionId: string;
+    created: string;
+    executionDate: string;
+    blockNumber: number;
+    isSuccessful: boolean;
+    transactionHash: string;
+    safe: string;
+    module: string;
+    to: string;
+    value: string;
+    data: string | null;
+    operation: number;
+    dataDecoded: any | null;
+}
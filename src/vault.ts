@@ -0,0 +1,68 @@
+/**
+ * Passphrase-based encryption for secrets kept in localStorage
+ * PBKDF2-SHA256 key derivation with AES-256-GCM, using the Web Crypto API
+ */
+
+import { bytesToHex, hexToBytes } from 'viem';
+
+const PBKDF2_ITERATIONS = 600000;
+
+export interface EncryptedPayload {
+    version: 1;
+    kdf: 'PBKDF2-SHA256';
+    iterations: number;
+    salt: string;
+    iv: string;
+    ciphertext: string;
+}
+
+/**
+ * Derive the AES key from a passphrase
+ */
+async function deriveKey(passphrase: string, salt: Uint8Array, iterations: number): Promise<CryptoKey> {
+    const baseKey = await crypto.subtle.importKey('raw', new TextEncoder().encode(passphrase), 'PBKDF2', false, ['deriveKey']);
+    return await crypto.subtle.deriveKey(
+        { name: 'PBKDF2', salt, iterations, hash: 'SHA-256' },
+        baseKey,
+        { name: 'AES-GCM', length: 256 },
+        false,
+        ['encrypt', 'decrypt']
+    );
+}
+
+/**
+ * Encrypt a secret with a passphrase
+ */
+export async function encryptSecret(plaintext: string, passphrase: string): Promise<EncryptedPayload> {
+    const salt = crypto.getRandomValues(new Uint8Array(16));
+    const iv = crypto.getRandomValues(new Uint8Array(12));
+    const key = await deriveKey(passphrase, salt, PBKDF2_ITERATIONS);
+    const ciphertext = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, new TextEncoder().encode(plaintext));
+
+    return {
+        version: 1,
+        kdf: 'PBKDF2-SHA256',
+        iterations: PBKDF2_ITERATIONS,
+        salt: bytesToHex(salt),
+        iv: bytesToHex(iv),
+        ciphertext: bytesToHex(new Uint8Array(ciphertext))
+    };
+}
+
+/**
+ * Decrypt a secret. AES-GCM authentication fails on a wrong passphrase
+ */
+export async function decryptSecret(payload: EncryptedPayload, passphrase: string): Promise<string> {
+    const key = await deriveKey(passphrase, hexToBytes(payload.salt as `0x${string}`), payload.iterations);
+
+    try {
+        const plaintext = await crypto.subtle.decrypt(
+            { name: 'AES-GCM', iv: hexToBytes(payload.iv as `0x${string}`) },
+            key,
+            hexToBytes(payload.ciphertext as `0x${string}`)
+        );
+        return new TextDecoder().decode(plaintext);
+    } catch {
+        throw new Error('Incorrect passphrase');
+    }
+}
@@ -6,9 +6,6 @@ module.exports = {
   entry: './src/app.ts',
   mode: 'development',
   devtool: 'source-map',
-  externals: {
-    ethers: 'ethers'
-  },
   module: {
     rules: [
       {
@@ -60,8 +57,4 @@ module.exports = {
     port: 8082,
     open: true,
   },
-  externals: {
-    // 将ethers作为外部依赖，从CDN加载
-    'ethers': 'ethers'
-  }
 };
\ No newline at end of file